@@ -0,0 +1,51 @@
+-- Local Bootstrap
+-- Stand-ins for what a Supabase project already provides, so the migrations also run on a plain
+-- Postgres: the API roles the policies are written for, a minimal auth schema and the realtime
+-- publication. npm run db:migrate -- --bootstrap applies this unless auth.users and auth.jwt() both
+-- exist; every statement can run again, so a database set up by an older version gets what it lacks.
+
+DO $$
+DECLARE
+    role_name TEXT;
+BEGIN
+    FOREACH role_name IN ARRAY ARRAY['anon', 'authenticated', 'service_role'] LOOP
+        IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = role_name) THEN
+            EXECUTE format('CREATE ROLE %I NOLOGIN', role_name);
+        END IF;
+    END LOOP;
+END $$;
+
+CREATE SCHEMA IF NOT EXISTS auth;
+
+CREATE TABLE IF NOT EXISTS auth.users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email VARCHAR(255) UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- The signed-in user; to try the policies locally, SET request.jwt.claim.sub to an auth.users id
+-- and request.jwt.claim.email to its email
+CREATE OR REPLACE FUNCTION auth.uid()
+RETURNS UUID AS $$
+    SELECT nullif(current_setting('request.jwt.claim.sub', true), '')::UUID;
+$$ LANGUAGE sql STABLE;
+
+-- The claims of the session token; only the ones the policies read are filled in
+CREATE OR REPLACE FUNCTION auth.jwt()
+RETURNS JSONB AS $$
+    SELECT jsonb_strip_nulls(jsonb_build_object(
+        'sub', nullif(current_setting('request.jwt.claim.sub', true), ''),
+        'email', nullif(current_setting('request.jwt.claim.email', true), '')
+    ));
+$$ LANGUAGE sql STABLE;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        CREATE PUBLICATION supabase_realtime;
+    END IF;
+END $$;
+
+-- The sample admin of DB/seed.sql
+INSERT INTO auth.users (email) VALUES ('admin@ogotechnology.com')
+ON CONFLICT (email) DO NOTHING;
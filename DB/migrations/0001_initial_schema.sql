@@ -0,0 +1,114 @@
+-- Initial Schema Migration
+-- The tables as the first release created them. Databases set up from the old SQL files already
+-- have them, so everything here is skipped when it exists.
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+CREATE TABLE IF NOT EXISTS employees (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    employee_id VARCHAR(50) NOT NULL UNIQUE,
+    first_name VARCHAR(100) NOT NULL,
+    last_name VARCHAR(100) NOT NULL,
+    birthday DATE,
+    position VARCHAR(100),
+    address TEXT,
+    whatsapp VARCHAR(20),
+    email VARCHAR(255),
+    qualifications TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS projects (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id VARCHAR(50) NOT NULL UNIQUE,
+    client_name VARCHAR(255) NOT NULL,
+    client_uni_org VARCHAR(255),
+    project_description TEXT,
+    deadline_date DATE,
+    price DECIMAL(10,2) DEFAULT 0,
+    advance DECIMAL(10,2) DEFAULT 0,
+    assigned_to UUID REFERENCES employees(id),
+    payment_of_emp DECIMAL(10,2) DEFAULT 0,
+    status VARCHAR(20) DEFAULT 'Pending' CHECK (status IN ('Running', 'Pending', 'Delivered', 'Correction', 'Rejected')),
+    fast_deliver BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS project_types (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 0006_admin_auth moves the credentials to Supabase Auth and drops password
+CREATE TABLE IF NOT EXISTS admin (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    email VARCHAR(255) NOT NULL UNIQUE,
+    password VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    admin_id UUID REFERENCES admin(id),
+    admin_email VARCHAR(255),
+    action VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_employees_employee_id ON employees(employee_id);
+CREATE INDEX IF NOT EXISTS idx_employees_email ON employees(email);
+CREATE INDEX IF NOT EXISTS idx_employees_created_at ON employees(created_at);
+
+CREATE INDEX IF NOT EXISTS idx_projects_status ON projects(status);
+CREATE INDEX IF NOT EXISTS idx_projects_assigned_to ON projects(assigned_to);
+CREATE INDEX IF NOT EXISTS idx_projects_deadline_date ON projects(deadline_date);
+CREATE INDEX IF NOT EXISTS idx_projects_created_at ON projects(created_at);
+
+CREATE INDEX IF NOT EXISTS idx_project_types_name ON project_types(name);
+
+CREATE INDEX IF NOT EXISTS idx_admin_email ON admin(email);
+
+CREATE INDEX IF NOT EXISTS idx_log_admin_id ON log(admin_id);
+CREATE INDEX IF NOT EXISTS idx_log_action ON log(action);
+CREATE INDEX IF NOT EXISTS idx_log_created_at ON log(created_at);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_employees_updated_at ON employees;
+CREATE TRIGGER update_employees_updated_at BEFORE UPDATE ON employees
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_projects_updated_at ON projects;
+CREATE TRIGGER update_projects_updated_at BEFORE UPDATE ON projects
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_project_types_updated_at ON project_types;
+CREATE TRIGGER update_project_types_updated_at BEFORE UPDATE ON project_types
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_admin_updated_at ON admin;
+CREATE TRIGGER update_admin_updated_at BEFORE UPDATE ON admin
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE employees IS 'Stores employee information for the OGO Technology team';
+COMMENT ON TABLE projects IS 'Stores project information and assignments';
+COMMENT ON TABLE project_types IS 'Stores different types of projects that can be created';
+COMMENT ON TABLE log IS 'Stores system activity logs for audit purposes';
+
+COMMENT ON COLUMN employees.employee_id IS 'Unique employee identifier';
+COMMENT ON COLUMN employees.whatsapp IS 'WhatsApp contact number';
+COMMENT ON COLUMN projects.assigned_to IS 'Reference to employee assigned to this project';
+COMMENT ON COLUMN projects.status IS 'Current status of the project';
+COMMENT ON COLUMN projects.fast_deliver IS 'Flag for expedited delivery';
@@ -0,0 +1,56 @@
+-- Align Projects Migration
+-- Projects tables created from the old projects_table.sql differ from the one the app writes to:
+-- they have no project_id, require client_uni_org, project_description and deadline_date, and
+-- clear assigned_to when the employee is deleted. This brings every database to one definition,
+-- matching the columns mapProjectToDB writes.
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS project_id VARCHAR(50);
+
+-- Give projects without a code the next PJ numbers, in the order they were created
+WITH last_number AS (
+    SELECT COALESCE(MAX(substring(project_id FROM '^PJ(\d+)$')::INTEGER), 999) AS value
+    FROM projects
+), numbered AS (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY created_at, id) AS position
+    FROM projects
+    WHERE project_id IS NULL
+)
+UPDATE projects p
+SET project_id = 'PJ' || (last_number.value + numbered.position)
+FROM numbered, last_number
+WHERE p.id = numbered.id;
+
+ALTER TABLE projects ALTER COLUMN project_id SET NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS projects_project_id_key ON projects(project_id);
+CREATE INDEX IF NOT EXISTS idx_projects_project_id ON projects(project_id);
+
+-- The app leaves these empty; project_description is no longer written at all
+ALTER TABLE projects ALTER COLUMN client_uni_org DROP NOT NULL;
+ALTER TABLE projects ALTER COLUMN project_description DROP NOT NULL;
+ALTER TABLE projects ALTER COLUMN deadline_date DROP NOT NULL;
+
+-- The app always writes amounts, a status and the fast delivery flag
+UPDATE projects SET price = 0 WHERE price IS NULL;
+UPDATE projects SET advance = 0 WHERE advance IS NULL;
+UPDATE projects SET payment_of_emp = 0 WHERE payment_of_emp IS NULL;
+UPDATE projects SET status = 'Pending' WHERE status IS NULL;
+UPDATE projects SET fast_deliver = FALSE WHERE fast_deliver IS NULL;
+
+ALTER TABLE projects
+    ALTER COLUMN price SET DEFAULT 0,
+    ALTER COLUMN price SET NOT NULL,
+    ALTER COLUMN advance SET DEFAULT 0,
+    ALTER COLUMN advance SET NOT NULL,
+    ALTER COLUMN payment_of_emp SET DEFAULT 0,
+    ALTER COLUMN payment_of_emp SET NOT NULL,
+    ALTER COLUMN status SET DEFAULT 'Pending',
+    ALTER COLUMN status SET NOT NULL,
+    ALTER COLUMN fast_deliver SET DEFAULT FALSE,
+    ALTER COLUMN fast_deliver SET NOT NULL;
+
+-- An employee cannot be deleted while projects are assigned to them
+ALTER TABLE projects
+    DROP CONSTRAINT IF EXISTS projects_assigned_to_fkey,
+    ADD CONSTRAINT projects_assigned_to_fkey FOREIGN KEY (assigned_to) REFERENCES employees(id);
+
+COMMENT ON COLUMN projects.project_id IS 'Unique project identifier (PJ followed by at least 4 digits)';
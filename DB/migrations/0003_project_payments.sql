@@ -0,0 +1,39 @@
+-- Project Payments Migration
+-- Adds the installment payment ledger and moves existing advances in as the first payment
+
+CREATE TABLE IF NOT EXISTS project_payments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    method VARCHAR(20) NOT NULL DEFAULT 'Cash' CHECK (method IN ('Cash', 'Bank Transfer', 'Card', 'Online', 'Cheque', 'Other')),
+    reference VARCHAR(255),
+    voided_at TIMESTAMP WITH TIME ZONE,
+    void_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create an index on project_id for loading a project's ledger
+CREATE INDEX IF NOT EXISTS idx_project_payments_project_id ON project_payments(project_id);
+
+-- Create an index on payment_date for sorting
+CREATE INDEX IF NOT EXISTS idx_project_payments_payment_date ON project_payments(payment_date);
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS update_project_payments_updated_at ON project_payments;
+CREATE TRIGGER update_project_payments_updated_at BEFORE UPDATE ON project_payments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Migrate existing advances as the first payment of each project (safe to re-run)
+INSERT INTO project_payments (project_id, payment_date, amount, method, reference)
+SELECT p.id, COALESCE(p.created_at::date, CURRENT_DATE), p.advance, 'Other', 'Advance'
+FROM projects p
+WHERE p.advance > 0
+  AND NOT EXISTS (
+      SELECT 1 FROM project_payments pp WHERE pp.project_id = p.id
+  );
+
+COMMENT ON TABLE project_payments IS 'Stores every payment received from a client against a project';
+COMMENT ON COLUMN project_payments.voided_at IS 'Set when a payment is voided; voided payments are excluded from totals';
+COMMENT ON COLUMN projects.advance IS 'Legacy advance amount; payments are now recorded in project_payments';
@@ -0,0 +1,29 @@
+-- Project Delivery Date Migration
+-- Records when a project is delivered so receivables can be aged from the delivery date
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE;
+
+-- Stamp delivered_at the first time a project becomes Delivered
+CREATE OR REPLACE FUNCTION set_project_delivered_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'Delivered' AND NEW.delivered_at IS NULL THEN
+        NEW.delivered_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS set_projects_delivered_at ON projects;
+CREATE TRIGGER set_projects_delivered_at BEFORE INSERT OR UPDATE ON projects
+    FOR EACH ROW EXECUTE FUNCTION set_project_delivered_at();
+
+-- Backfill already delivered projects; the last update is the best available delivery date
+UPDATE projects
+SET delivered_at = updated_at
+WHERE status = 'Delivered' AND delivered_at IS NULL;
+
+-- Create an index on delivered_at for aging queries
+CREATE INDEX IF NOT EXISTS idx_projects_delivered_at ON projects(delivered_at);
+
+COMMENT ON COLUMN projects.delivered_at IS 'When the project was first marked Delivered; used for receivables aging';
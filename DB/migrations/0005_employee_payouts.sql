@@ -0,0 +1,36 @@
+-- Employee Payouts Migration
+-- Records what we pay each employee and which projects each payout settles
+
+CREATE TABLE IF NOT EXISTS employee_payouts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+    payout_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    method VARCHAR(20) NOT NULL DEFAULT 'Bank Transfer' CHECK (method IN ('Cash', 'Bank Transfer', 'Card', 'Online', 'Cheque', 'Other')),
+    reference VARCHAR(255),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS employee_payout_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    payout_id UUID NOT NULL REFERENCES employee_payouts(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for looking up payouts by employee, month and project
+CREATE INDEX IF NOT EXISTS idx_employee_payouts_employee_id ON employee_payouts(employee_id);
+CREATE INDEX IF NOT EXISTS idx_employee_payouts_payout_date ON employee_payouts(payout_date);
+CREATE INDEX IF NOT EXISTS idx_employee_payout_items_payout_id ON employee_payout_items(payout_id);
+CREATE INDEX IF NOT EXISTS idx_employee_payout_items_project_id ON employee_payout_items(project_id);
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS update_employee_payouts_updated_at ON employee_payouts;
+CREATE TRIGGER update_employee_payouts_updated_at BEFORE UPDATE ON employee_payouts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE employee_payouts IS 'Stores payouts made to employees for their project work';
+COMMENT ON TABLE employee_payout_items IS 'Links each payout to the projects it settles';
@@ -0,0 +1,23 @@
+-- Admin Authentication Migration
+-- Moves admin login to Supabase Auth and removes the plaintext password column
+--
+-- Before running: create a Supabase Auth user (Authentication > Users) for every row in
+-- the admin table, using the same email address. Passwords are hashed by Supabase Auth.
+
+ALTER TABLE admin ADD COLUMN IF NOT EXISTS user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- Link existing admins to their auth users by email
+UPDATE admin a
+SET user_id = u.id
+FROM auth.users u
+WHERE lower(u.email) = lower(a.email)
+  AND a.user_id IS NULL;
+
+-- Create an index on user_id for the session lookup done at login
+CREATE INDEX IF NOT EXISTS idx_admin_user_id ON admin(user_id);
+
+-- Plaintext passwords are no longer used anywhere
+ALTER TABLE admin DROP COLUMN IF EXISTS password;
+
+COMMENT ON TABLE admin IS 'Supabase Auth users that are allowed to access the system';
+COMMENT ON COLUMN admin.user_id IS 'Reference to the Supabase Auth user (auth.users)';
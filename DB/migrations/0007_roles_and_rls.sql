@@ -0,0 +1,101 @@
+-- Roles and Row Level Security Migration
+-- Adds admin/manager/viewer roles and enforces them with RLS policies
+--
+-- Existing admin rows become 'admin' so nobody loses access; new rows default to 'viewer'.
+
+-- Promote existing admins only when the column is first added, so re-running is safe
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'admin' AND column_name = 'role'
+    ) THEN
+        ALTER TABLE admin ADD COLUMN role VARCHAR(20) NOT NULL DEFAULT 'viewer'
+            CHECK (role IN ('admin', 'manager', 'viewer'));
+        UPDATE admin SET role = 'admin';
+    END IF;
+END $$;
+
+-- Role of the signed-in user; NULL when they have no admin row
+CREATE OR REPLACE FUNCTION current_admin_role()
+RETURNS VARCHAR AS $$
+    SELECT role FROM admin WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE employees ENABLE ROW LEVEL SECURITY;
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE employee_payouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE employee_payout_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin ENABLE ROW LEVEL SECURITY;
+ALTER TABLE log ENABLE ROW LEVEL SECURITY;
+
+-- Every role can read projects, employees and project types.
+-- Row level security cannot hide single columns, so prices on projects are hidden from viewers in the app.
+DROP POLICY IF EXISTS "admins read employees" ON employees;
+CREATE POLICY "admins read employees" ON employees FOR SELECT TO authenticated
+    USING (current_admin_role() IS NOT NULL);
+DROP POLICY IF EXISTS "managers insert employees" ON employees;
+CREATE POLICY "managers insert employees" ON employees FOR INSERT TO authenticated
+    WITH CHECK (current_admin_role() IN ('admin', 'manager'));
+DROP POLICY IF EXISTS "managers update employees" ON employees;
+CREATE POLICY "managers update employees" ON employees FOR UPDATE TO authenticated
+    USING (current_admin_role() IN ('admin', 'manager'));
+DROP POLICY IF EXISTS "admins delete employees" ON employees;
+CREATE POLICY "admins delete employees" ON employees FOR DELETE TO authenticated
+    USING (current_admin_role() = 'admin');
+
+DROP POLICY IF EXISTS "admins read projects" ON projects;
+CREATE POLICY "admins read projects" ON projects FOR SELECT TO authenticated
+    USING (current_admin_role() IS NOT NULL);
+DROP POLICY IF EXISTS "managers insert projects" ON projects;
+CREATE POLICY "managers insert projects" ON projects FOR INSERT TO authenticated
+    WITH CHECK (current_admin_role() IN ('admin', 'manager'));
+DROP POLICY IF EXISTS "managers update projects" ON projects;
+CREATE POLICY "managers update projects" ON projects FOR UPDATE TO authenticated
+    USING (current_admin_role() IN ('admin', 'manager'));
+DROP POLICY IF EXISTS "admins delete projects" ON projects;
+CREATE POLICY "admins delete projects" ON projects FOR DELETE TO authenticated
+    USING (current_admin_role() = 'admin');
+
+DROP POLICY IF EXISTS "admins read project types" ON project_types;
+CREATE POLICY "admins read project types" ON project_types FOR SELECT TO authenticated
+    USING (current_admin_role() IS NOT NULL);
+DROP POLICY IF EXISTS "admins manage project types" ON project_types;
+CREATE POLICY "admins manage project types" ON project_types FOR ALL TO authenticated
+    USING (current_admin_role() = 'admin')
+    WITH CHECK (current_admin_role() = 'admin');
+
+-- Payments and payouts are financial records; viewers cannot read them at all
+DROP POLICY IF EXISTS "managers manage project payments" ON project_payments;
+CREATE POLICY "managers manage project payments" ON project_payments FOR ALL TO authenticated
+    USING (current_admin_role() IN ('admin', 'manager'))
+    WITH CHECK (current_admin_role() IN ('admin', 'manager'));
+DROP POLICY IF EXISTS "managers manage employee payouts" ON employee_payouts;
+CREATE POLICY "managers manage employee payouts" ON employee_payouts FOR ALL TO authenticated
+    USING (current_admin_role() IN ('admin', 'manager'))
+    WITH CHECK (current_admin_role() IN ('admin', 'manager'));
+DROP POLICY IF EXISTS "managers manage employee payout items" ON employee_payout_items;
+CREATE POLICY "managers manage employee payout items" ON employee_payout_items FOR ALL TO authenticated
+    USING (current_admin_role() IN ('admin', 'manager'))
+    WITH CHECK (current_admin_role() IN ('admin', 'manager'));
+
+-- Users can see their own admin row (needed to load the role at login); admins see all
+DROP POLICY IF EXISTS "users read own admin row" ON admin;
+CREATE POLICY "users read own admin row" ON admin FOR SELECT TO authenticated
+    USING (user_id = auth.uid() OR current_admin_role() = 'admin');
+DROP POLICY IF EXISTS "admins manage admin rows" ON admin;
+CREATE POLICY "admins manage admin rows" ON admin FOR ALL TO authenticated
+    USING (current_admin_role() = 'admin')
+    WITH CHECK (current_admin_role() = 'admin');
+
+-- Failed logins are written before a session exists, so anonymous inserts are allowed
+DROP POLICY IF EXISTS "anyone writes log" ON log;
+CREATE POLICY "anyone writes log" ON log FOR INSERT TO anon, authenticated
+    WITH CHECK (true);
+DROP POLICY IF EXISTS "admins read log" ON log;
+CREATE POLICY "admins read log" ON log FOR SELECT TO authenticated
+    USING (current_admin_role() = 'admin');
+
+COMMENT ON COLUMN admin.role IS 'Access level: admin (full access), manager (no deletes or settings), viewer (read-only, no financials)';
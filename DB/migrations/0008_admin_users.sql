@@ -0,0 +1,17 @@
+-- Admin User Management Migration
+-- Lets admins deactivate other users from Settings > Users
+--
+-- Inviting users also needs the admin-users edge function:
+--   supabase functions deploy admin-users
+-- and Authentication > URL Configuration must allow <site url>/?set-password as a redirect URL.
+
+ALTER TABLE admin ADD COLUMN IF NOT EXISTS active BOOLEAN NOT NULL DEFAULT true;
+
+-- Deactivated users lose every RLS permission at once
+CREATE OR REPLACE FUNCTION current_admin_role()
+RETURNS VARCHAR AS $$
+    SELECT role FROM admin WHERE user_id = auth.uid() AND active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON COLUMN admin.active IS 'Deactivated users keep their row and log history but lose all access';
+COMMENT ON COLUMN log.action IS 'Type of action performed (login_success, login_fail, export_success, password_changed, user_invited, user_deactivated, etc.)';
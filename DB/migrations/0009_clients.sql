@@ -0,0 +1,85 @@
+-- Clients Migration
+-- Replaces the free-text client_name / client_uni_org on projects with a clients table.
+-- The text columns stay on projects as a copy of the linked client's details.
+
+CREATE TABLE IF NOT EXISTS clients (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    uni_org VARCHAR(255),
+    email VARCHAR(255),
+    phone VARCHAR(20),
+    whatsapp_number VARCHAR(20),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_clients_name ON clients(name);
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS client_id UUID REFERENCES clients(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_projects_client_id ON projects(client_id);
+
+-- One client per distinct name + organization, ignoring case and stray spaces.
+-- The most recently used spelling wins.
+INSERT INTO clients (name, uni_org)
+SELECT DISTINCT ON (lower(trim(client_name)), lower(trim(coalesce(client_uni_org, ''))))
+    trim(client_name), nullif(trim(client_uni_org), '')
+FROM projects
+WHERE client_id IS NULL
+  AND NOT EXISTS (
+      SELECT 1 FROM clients c
+      WHERE lower(c.name) = lower(trim(projects.client_name))
+        AND lower(coalesce(c.uni_org, '')) = lower(trim(coalesce(projects.client_uni_org, '')))
+  )
+ORDER BY lower(trim(client_name)), lower(trim(coalesce(client_uni_org, ''))), created_at DESC;
+
+UPDATE projects p
+SET client_id = c.id
+FROM clients c
+WHERE p.client_id IS NULL
+  AND lower(c.name) = lower(trim(p.client_name))
+  AND lower(coalesce(c.uni_org, '')) = lower(trim(coalesce(p.client_uni_org, '')));
+
+-- Align the project copies with the chosen spelling
+UPDATE projects p
+SET client_name = c.name, client_uni_org = c.uni_org
+FROM clients c
+WHERE p.client_id = c.id;
+
+DROP TRIGGER IF EXISTS update_clients_updated_at ON clients;
+CREATE TRIGGER update_clients_updated_at BEFORE UPDATE ON clients
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Copy a client's name and organization onto their projects when it changes
+CREATE OR REPLACE FUNCTION sync_project_client_details()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE projects
+    SET client_name = NEW.name, client_uni_org = NEW.uni_org
+    WHERE client_id = NEW.id;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS sync_clients_to_projects ON clients;
+CREATE TRIGGER sync_clients_to_projects AFTER UPDATE OF name, uni_org ON clients
+    FOR EACH ROW EXECUTE FUNCTION sync_project_client_details();
+
+-- Same access rules as projects
+ALTER TABLE clients ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "admins read clients" ON clients;
+CREATE POLICY "admins read clients" ON clients FOR SELECT TO authenticated
+    USING (current_admin_role() IS NOT NULL);
+DROP POLICY IF EXISTS "managers insert clients" ON clients;
+CREATE POLICY "managers insert clients" ON clients FOR INSERT TO authenticated
+    WITH CHECK (current_admin_role() IN ('admin', 'manager'));
+DROP POLICY IF EXISTS "managers update clients" ON clients;
+CREATE POLICY "managers update clients" ON clients FOR UPDATE TO authenticated
+    USING (current_admin_role() IN ('admin', 'manager'));
+DROP POLICY IF EXISTS "admins delete clients" ON clients;
+CREATE POLICY "admins delete clients" ON clients FOR DELETE TO authenticated
+    USING (current_admin_role() = 'admin');
+
+COMMENT ON TABLE clients IS 'Stores clients with their contact details and university/organization';
+COMMENT ON COLUMN projects.client_id IS 'Reference to the client; client_name and client_uni_org are kept in sync by a trigger';
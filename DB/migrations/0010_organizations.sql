@@ -0,0 +1,121 @@
+-- Organizations Migration
+-- Turns the free-text clients.uni_org into an organizations table that clients belong to.
+-- uni_org stays on clients (and projects) as a copy of the organization's name.
+
+CREATE TABLE IF NOT EXISTS organizations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organizations_name ON organizations(lower(name));
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_clients_organization_id ON clients(organization_id);
+
+-- One organization per distinct spelling, ignoring case and stray spaces.
+-- Spellings that differ by more than that are left for the merge tool.
+INSERT INTO organizations (name)
+SELECT DISTINCT ON (lower(trim(uni_org))) trim(uni_org)
+FROM clients
+WHERE nullif(trim(uni_org), '') IS NOT NULL
+ORDER BY lower(trim(uni_org)), updated_at DESC
+ON CONFLICT ((lower(name))) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_organizations_updated_at ON organizations;
+CREATE TRIGGER update_organizations_updated_at BEFORE UPDATE ON organizations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Link a client to the organization named in uni_org, creating it on first use
+CREATE OR REPLACE FUNCTION link_client_organization()
+RETURNS TRIGGER AS $$
+DECLARE
+    org organizations%ROWTYPE;
+BEGIN
+    IF NEW.uni_org IS NULL OR trim(NEW.uni_org) = '' THEN
+        NEW.uni_org = NULL;
+        NEW.organization_id = NULL;
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO org FROM organizations WHERE lower(name) = lower(trim(NEW.uni_org));
+    IF NOT FOUND THEN
+        INSERT INTO organizations (name) VALUES (trim(NEW.uni_org)) RETURNING * INTO org;
+    END IF;
+
+    -- Store the organization's spelling so projects and reports group consistently
+    NEW.organization_id = org.id;
+    NEW.uni_org = org.name;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS link_clients_to_organizations ON clients;
+CREATE TRIGGER link_clients_to_organizations BEFORE INSERT OR UPDATE OF uni_org ON clients
+    FOR EACH ROW EXECUTE FUNCTION link_client_organization();
+
+-- Carry an organization's new name onto its clients (and from there their projects)
+CREATE OR REPLACE FUNCTION sync_organization_name()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE clients SET uni_org = NEW.name WHERE organization_id = NEW.id;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS sync_organizations_to_clients ON organizations;
+CREATE TRIGGER sync_organizations_to_clients AFTER UPDATE OF name ON organizations
+    FOR EACH ROW EXECUTE FUNCTION sync_organization_name();
+
+-- Link existing clients; the triggers align clients and projects with the chosen spelling
+UPDATE clients SET uni_org = uni_org WHERE organization_id IS NULL;
+
+-- Same access rules as clients
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "admins read organizations" ON organizations;
+CREATE POLICY "admins read organizations" ON organizations FOR SELECT TO authenticated
+    USING (current_admin_role() IS NOT NULL);
+DROP POLICY IF EXISTS "managers insert organizations" ON organizations;
+CREATE POLICY "managers insert organizations" ON organizations FOR INSERT TO authenticated
+    WITH CHECK (current_admin_role() IN ('admin', 'manager'));
+DROP POLICY IF EXISTS "managers update organizations" ON organizations;
+CREATE POLICY "managers update organizations" ON organizations FOR UPDATE TO authenticated
+    USING (current_admin_role() IN ('admin', 'manager'));
+DROP POLICY IF EXISTS "admins delete organizations" ON organizations;
+CREATE POLICY "admins delete organizations" ON organizations FOR DELETE TO authenticated
+    USING (current_admin_role() = 'admin');
+
+-- Merge duplicate spellings of an organization into target_id; only admins may merge
+CREATE OR REPLACE FUNCTION merge_organizations(target_id UUID, source_ids UUID[])
+RETURNS VOID AS $$
+DECLARE
+    target_name VARCHAR;
+BEGIN
+    IF current_admin_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only admins can merge organizations';
+    END IF;
+
+    SELECT name INTO target_name FROM organizations WHERE id = target_id;
+    IF target_name IS NULL THEN
+        RAISE EXCEPTION 'Organization % not found', target_id;
+    END IF;
+
+    -- Projects whose client was deleted still carry the old spelling
+    UPDATE projects SET client_uni_org = target_name
+    WHERE client_id IS NULL
+      AND lower(trim(client_uni_org)) IN (
+          SELECT lower(name) FROM organizations WHERE id = ANY(source_ids) AND id <> target_id
+      );
+
+    -- Renaming relinks each client to the target through link_clients_to_organizations
+    UPDATE clients SET uni_org = target_name
+    WHERE organization_id = ANY(source_ids) AND organization_id <> target_id;
+
+    DELETE FROM organizations WHERE id = ANY(source_ids) AND id <> target_id;
+END;
+$$ language 'plpgsql';
+
+COMMENT ON TABLE organizations IS 'Universities and organizations that clients belong to';
+COMMENT ON COLUMN clients.organization_id IS 'Set by a trigger from uni_org, which always holds the organization''s name';
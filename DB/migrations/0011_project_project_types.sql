@@ -0,0 +1,37 @@
+-- Project Types Join Table Migration
+-- Replaces the comma-separated project type IDs in projects.project_description with a join table.
+
+CREATE TABLE IF NOT EXISTS project_project_types (
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    project_type_id UUID NOT NULL REFERENCES project_types(id) ON DELETE RESTRICT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (project_id, project_type_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_project_types_project_type_id ON project_project_types(project_type_id);
+
+-- Copy every ID that still matches a project type.
+-- IDs of types that were already deleted (and any free text) cannot be linked and are skipped.
+INSERT INTO project_project_types (project_id, project_type_id)
+SELECT DISTINCT p.id, t.id
+FROM projects p
+CROSS JOIN LATERAL unnest(string_to_array(p.project_description, ',')) AS token
+JOIN project_types t ON t.id::text = trim(token)
+ON CONFLICT DO NOTHING;
+
+-- The app no longer writes project_description; it is kept so skipped values are not lost
+ALTER TABLE projects ALTER COLUMN project_description DROP NOT NULL;
+COMMENT ON COLUMN projects.project_description IS 'Legacy comma-separated project type IDs; replaced by project_project_types';
+
+-- Same access rules as projects
+ALTER TABLE project_project_types ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "admins read project type links" ON project_project_types;
+CREATE POLICY "admins read project type links" ON project_project_types FOR SELECT TO authenticated
+    USING (current_admin_role() IS NOT NULL);
+DROP POLICY IF EXISTS "managers manage project type links" ON project_project_types;
+CREATE POLICY "managers manage project type links" ON project_project_types FOR ALL TO authenticated
+    USING (current_admin_role() IN ('admin', 'manager'))
+    WITH CHECK (current_admin_role() IN ('admin', 'manager'));
+
+COMMENT ON TABLE project_project_types IS 'Links each project to its project types';
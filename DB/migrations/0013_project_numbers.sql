@@ -0,0 +1,68 @@
+-- Project Numbers Migration
+-- Allocates project numbers in the database instead of from the projects loaded in the browser,
+-- so two admins adding a project at once never get the same number.
+-- The prefix and number of digits are set in Settings > Project Numbers.
+
+CREATE TABLE IF NOT EXISTS app_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id), -- there is only ever one row
+    project_number_prefix VARCHAR(10) NOT NULL DEFAULT 'PJ' CHECK (project_number_prefix ~ '^[A-Z][A-Z-]{0,9}$'),
+    project_number_padding INTEGER NOT NULL DEFAULT 4 CHECK (project_number_padding BETWEEN 1 AND 10),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO app_settings DEFAULT VALUES ON CONFLICT (id) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_app_settings_updated_at ON app_settings;
+CREATE TRIGGER update_app_settings_updated_at BEFORE UPDATE ON app_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Numbers continue across prefix changes, so changing the prefix never reuses a number
+CREATE SEQUENCE IF NOT EXISTS project_number_seq START 1000;
+
+-- Continue after the highest number already in use
+SELECT setval('project_number_seq', GREATEST(
+    (SELECT MAX(substring(project_id FROM '(\d+)$')::BIGINT) FROM projects),
+    (SELECT last_value FROM project_number_seq WHERE is_called),
+    999
+));
+
+-- Reserve the next project number. Numbers that are reserved but never saved are skipped for good.
+CREATE OR REPLACE FUNCTION allocate_project_number()
+RETURNS VARCHAR AS $$
+DECLARE
+    settings app_settings%ROWTYPE;
+    next_number TEXT;
+    candidate VARCHAR;
+BEGIN
+    IF COALESCE(current_admin_role(), '') NOT IN ('admin', 'manager') THEN
+        RAISE EXCEPTION 'Only admins and managers can add projects';
+    END IF;
+
+    SELECT * INTO settings FROM app_settings;
+
+    -- Skip numbers that were typed in by hand
+    LOOP
+        next_number := nextval('project_number_seq')::TEXT;
+        candidate := settings.project_number_prefix
+            || lpad(next_number, GREATEST(settings.project_number_padding, length(next_number)), '0');
+        EXIT WHEN NOT EXISTS (SELECT 1 FROM projects WHERE project_id = candidate);
+    END LOOP;
+
+    RETURN candidate;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Everyone reads the settings; only admins change them
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "admins read app settings" ON app_settings;
+CREATE POLICY "admins read app settings" ON app_settings FOR SELECT TO authenticated
+    USING (current_admin_role() IS NOT NULL);
+DROP POLICY IF EXISTS "admins update app settings" ON app_settings;
+CREATE POLICY "admins update app settings" ON app_settings FOR UPDATE TO authenticated
+    USING (current_admin_role() = 'admin')
+    WITH CHECK (current_admin_role() = 'admin');
+
+COMMENT ON TABLE app_settings IS 'Organization-wide settings; a single row';
+COMMENT ON COLUMN app_settings.project_number_padding IS 'Minimum number of digits in a project number; longer numbers are not cut';
+COMMENT ON FUNCTION allocate_project_number() IS 'Reserves the next project number, e.g. PJ1001';
@@ -0,0 +1,60 @@
+-- Soft Delete Migration
+-- Deleting a project or employee moves it to the trash by setting deleted_at; the row stays, so a
+-- delete can be undone. Settings > Trash restores records or deletes them for good.
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- The app lists the records outside the trash
+CREATE INDEX IF NOT EXISTS idx_projects_deleted_at ON projects(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_employees_deleted_at ON employees(deleted_at);
+
+-- Managers may edit projects and employees, but only admins may delete them, so only admins move
+-- them in and out of the trash
+CREATE OR REPLACE FUNCTION check_project_trash()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+        AND COALESCE(current_admin_role(), '') <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can delete and restore projects' USING ERRCODE = '42501';
+    END IF;
+
+    -- A project in use cannot point at an employee in the trash
+    IF NEW.deleted_at IS NULL AND NEW.assigned_to IS NOT NULL
+        AND EXISTS (SELECT 1 FROM employees WHERE id = NEW.assigned_to AND deleted_at IS NOT NULL) THEN
+        RAISE EXCEPTION 'Employee % is in the trash', NEW.assigned_to USING ERRCODE = '23503';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS check_projects_trash ON projects;
+CREATE TRIGGER check_projects_trash BEFORE INSERT OR UPDATE ON projects
+    FOR EACH ROW EXECUTE FUNCTION check_project_trash();
+
+CREATE OR REPLACE FUNCTION check_employee_trash()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.deleted_at IS NOT DISTINCT FROM OLD.deleted_at THEN
+        RETURN NEW;
+    END IF;
+
+    IF COALESCE(current_admin_role(), '') <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can delete and restore employees' USING ERRCODE = '42501';
+    END IF;
+
+    -- Their projects would be left without anyone working on them; reassign them first
+    IF NEW.deleted_at IS NOT NULL
+        AND EXISTS (SELECT 1 FROM projects WHERE assigned_to = NEW.id AND deleted_at IS NULL) THEN
+        RAISE EXCEPTION 'Employee % is still assigned to projects', NEW.id USING ERRCODE = '23503';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS check_employees_trash ON employees;
+CREATE TRIGGER check_employees_trash BEFORE UPDATE ON employees
+    FOR EACH ROW EXECUTE FUNCTION check_employee_trash();
+
+COMMENT ON COLUMN projects.deleted_at IS 'When the project was moved to the trash; NULL while in use';
+COMMENT ON COLUMN employees.deleted_at IS 'When the employee was moved to the trash; NULL while in use';
@@ -0,0 +1,13 @@
+-- Employee Status Migration
+-- Employees who stop taking work are marked inactive, or left once they are gone, instead of being
+-- deleted: their projects and payouts keep pointing at them for reports and analytics.
+-- New projects are only assigned to active employees; the app enforces that.
+
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'active';
+
+ALTER TABLE employees DROP CONSTRAINT IF EXISTS employees_status_check;
+ALTER TABLE employees ADD CONSTRAINT employees_status_check CHECK (status IN ('active', 'inactive', 'left'));
+
+CREATE INDEX IF NOT EXISTS idx_employees_status ON employees(status);
+
+COMMENT ON COLUMN employees.status IS 'active, inactive (temporarily not taking work) or left (no longer with the company)';
@@ -0,0 +1,138 @@
+-- Project Assignments Migration
+-- Lets several employees share a project. Each assignee has a role and their own share of
+-- projects.payment_of_emp; the table replaces the single projects.assigned_to column.
+
+CREATE TABLE IF NOT EXISTS project_assignments (
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE RESTRICT,
+    role VARCHAR(20) NOT NULL DEFAULT 'lead',
+    share DECIMAL(10,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (project_id, employee_id),
+    CONSTRAINT project_assignments_role_check CHECK (role IN ('lead', 'writer', 'reviewer'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_assignments_employee_id ON project_assignments(employee_id);
+
+-- The assigned employee becomes the lead with the whole employee payment
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'projects' AND column_name = 'assigned_to'
+    ) THEN
+        EXECUTE 'INSERT INTO project_assignments (project_id, employee_id, role, share)
+            SELECT id, assigned_to, ''lead'', payment_of_emp FROM projects WHERE assigned_to IS NOT NULL
+            ON CONFLICT DO NOTHING';
+    END IF;
+END $$;
+
+-- Same access rules as projects
+ALTER TABLE project_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "admins read project assignments" ON project_assignments;
+CREATE POLICY "admins read project assignments" ON project_assignments FOR SELECT TO authenticated
+    USING (current_admin_role() IS NOT NULL);
+DROP POLICY IF EXISTS "managers manage project assignments" ON project_assignments;
+CREATE POLICY "managers manage project assignments" ON project_assignments FOR ALL TO authenticated
+    USING (current_admin_role() IN ('admin', 'manager'))
+    WITH CHECK (current_admin_role() IN ('admin', 'manager'));
+
+-- The trash rules of 0014_soft_delete, now checked through the assignments
+CREATE OR REPLACE FUNCTION check_project_trash()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+        AND COALESCE(current_admin_role(), '') <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can delete and restore projects' USING ERRCODE = '42501';
+    END IF;
+
+    -- A project taken out of the trash cannot have an assignee who is still in it
+    IF TG_OP = 'UPDATE' AND NEW.deleted_at IS NULL AND OLD.deleted_at IS NOT NULL
+        AND EXISTS (
+            SELECT 1 FROM project_assignments pa
+            JOIN employees e ON e.id = pa.employee_id
+            WHERE pa.project_id = NEW.id AND e.deleted_at IS NOT NULL
+        ) THEN
+        RAISE EXCEPTION 'Project % is assigned to an employee in the trash', NEW.project_id USING ERRCODE = '23503';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION check_employee_trash()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.deleted_at IS NOT DISTINCT FROM OLD.deleted_at THEN
+        RETURN NEW;
+    END IF;
+
+    IF COALESCE(current_admin_role(), '') <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can delete and restore employees' USING ERRCODE = '42501';
+    END IF;
+
+    -- Their projects would be left without their part of the work; reassign them first
+    IF NEW.deleted_at IS NOT NULL
+        AND EXISTS (
+            SELECT 1 FROM project_assignments pa
+            JOIN projects p ON p.id = pa.project_id
+            WHERE pa.employee_id = NEW.id AND p.deleted_at IS NULL
+        ) THEN
+        RAISE EXCEPTION 'Employee % is still assigned to projects', NEW.id USING ERRCODE = '23503';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- A project in use cannot be given to an employee in the trash
+CREATE OR REPLACE FUNCTION check_assignment_employee()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM employees WHERE id = NEW.employee_id AND deleted_at IS NOT NULL)
+        AND EXISTS (SELECT 1 FROM projects WHERE id = NEW.project_id AND deleted_at IS NULL) THEN
+        RAISE EXCEPTION 'Employee % is in the trash', NEW.employee_id USING ERRCODE = '23503';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS check_project_assignments_employee ON project_assignments;
+CREATE TRIGGER check_project_assignments_employee BEFORE INSERT OR UPDATE ON project_assignments
+    FOR EACH ROW EXECUTE FUNCTION check_assignment_employee();
+
+-- A project's assignees and types are part of the project: changing them moves its updated_at on, so
+-- a save made against the version before is rejected as stale
+CREATE OR REPLACE FUNCTION touch_project_on_link_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE projects SET updated_at = NOW()
+    WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.project_id ELSE NEW.project_id END;
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS touch_project_on_assignment_change ON project_assignments;
+CREATE TRIGGER touch_project_on_assignment_change AFTER INSERT OR UPDATE OR DELETE ON project_assignments
+    FOR EACH ROW EXECUTE FUNCTION touch_project_on_link_change();
+
+DROP TRIGGER IF EXISTS touch_project_on_project_type_change ON project_project_types;
+CREATE TRIGGER touch_project_on_project_type_change AFTER INSERT OR UPDATE OR DELETE ON project_project_types
+    FOR EACH ROW EXECUTE FUNCTION touch_project_on_link_change();
+
+-- useProjects follows assignment changes like payment and project type changes
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'project_assignments'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.project_assignments;
+    END IF;
+END $$;
+
+-- Everything assigned_to held is in project_assignments now
+DROP INDEX IF EXISTS idx_projects_assigned_to;
+ALTER TABLE projects DROP COLUMN IF EXISTS assigned_to;
+
+COMMENT ON TABLE project_assignments IS 'Employees working on each project with their role and share of the employee payment';
+COMMENT ON COLUMN project_assignments.share IS 'Part of projects.payment_of_emp earned by this employee; the app keeps the shares adding up to it';
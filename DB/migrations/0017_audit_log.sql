@@ -0,0 +1,102 @@
+-- Audit Log Migration
+-- Every insert, update and delete of projects, employees and project types is written to the log
+-- table by triggers, so no client can leave a change out. Each entry names the entity and carries the
+-- changed columns with their values before and after.
+
+ALTER TABLE log ADD COLUMN IF NOT EXISTS entity_type VARCHAR(50);
+ALTER TABLE log ADD COLUMN IF NOT EXISTS entity_id UUID;
+ALTER TABLE log ADD COLUMN IF NOT EXISTS changes JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_log_entity ON log(entity_type, entity_id, created_at);
+
+-- Trigger arguments: the entity type, the column holding the entity's id and the action prefix.
+-- Payments and the project's links to types and assignees are logged against their project.
+-- Actions read <prefix>_created, _updated or _deleted; moving a record in or out of the trash
+-- reads <prefix>_trashed or _restored. Updates that change nothing but updated_at are skipped.
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+    new_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+    diff JSONB;
+    verb TEXT;
+    actor_id UUID;
+    actor_email VARCHAR(255);
+BEGIN
+    SELECT COALESCE(jsonb_object_agg(key, jsonb_build_object('old', old_row -> key, 'new', new_row -> key)), '{}'::jsonb)
+    INTO diff
+    FROM jsonb_object_keys(old_row || new_row) AS key
+    WHERE key NOT IN ('created_at', 'updated_at')
+        AND (old_row -> key) IS DISTINCT FROM (new_row -> key);
+
+    IF TG_OP = 'UPDATE' AND diff = '{}'::jsonb THEN
+        RETURN NULL;
+    END IF;
+
+    verb := CASE
+        WHEN TG_OP = 'INSERT' THEN 'created'
+        WHEN TG_OP = 'DELETE' THEN 'deleted'
+        WHEN diff ? 'deleted_at' AND new_row ->> 'deleted_at' IS NULL THEN 'restored'
+        WHEN diff ? 'deleted_at' THEN 'trashed'
+        ELSE 'updated'
+    END;
+
+    -- Changes made outside the app (SQL editor, service role) have no admin behind them
+    SELECT id, email INTO actor_id, actor_email FROM admin WHERE user_id = auth.uid();
+
+    INSERT INTO log (admin_id, admin_email, action, entity_type, entity_id, changes)
+    VALUES (
+        actor_id,
+        COALESCE(actor_email, 'system'),
+        TG_ARGV[2] || '_' || verb,
+        TG_ARGV[0],
+        (CASE WHEN TG_OP = 'DELETE' THEN old_row ELSE new_row END ->> TG_ARGV[1])::UUID,
+        diff
+    );
+    RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS audit_projects ON projects;
+CREATE TRIGGER audit_projects AFTER INSERT OR UPDATE OR DELETE ON projects
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('project', 'id', 'project');
+
+DROP TRIGGER IF EXISTS audit_project_payments ON project_payments;
+CREATE TRIGGER audit_project_payments AFTER INSERT OR UPDATE OR DELETE ON project_payments
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('project', 'project_id', 'payment');
+
+DROP TRIGGER IF EXISTS audit_project_project_types ON project_project_types;
+CREATE TRIGGER audit_project_project_types AFTER INSERT OR UPDATE OR DELETE ON project_project_types
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('project', 'project_id', 'project_type_link');
+
+DROP TRIGGER IF EXISTS audit_project_assignments ON project_assignments;
+CREATE TRIGGER audit_project_assignments AFTER INSERT OR UPDATE OR DELETE ON project_assignments
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('project', 'project_id', 'assignee');
+
+DROP TRIGGER IF EXISTS audit_employees ON employees;
+CREATE TRIGGER audit_employees AFTER INSERT OR UPDATE OR DELETE ON employees
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('employee', 'id', 'employee');
+
+DROP TRIGGER IF EXISTS audit_project_types ON project_types;
+CREATE TRIGGER audit_project_types AFTER INSERT OR UPDATE OR DELETE ON project_types
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('project_type', 'id', 'project_type');
+
+-- Replaces "anyone writes log" of 0007_roles_and_rls: audit entries come only from audit_row_change,
+-- which bypasses row-level security. The app writes sign-in, export and account events without an
+-- entity; signed-in admins write them in their own name, and failed sign-ins are written before a
+-- session exists.
+DROP POLICY IF EXISTS "anyone writes log" ON log;
+DROP POLICY IF EXISTS "visitors log failed sign-ins" ON log;
+CREATE POLICY "visitors log failed sign-ins" ON log FOR INSERT TO anon
+    WITH CHECK (entity_type IS NULL AND entity_id IS NULL AND changes IS NULL AND admin_id IS NULL);
+DROP POLICY IF EXISTS "admins log their own events" ON log;
+CREATE POLICY "admins log their own events" ON log FOR INSERT TO authenticated
+    WITH CHECK (
+        entity_type IS NULL AND entity_id IS NULL AND changes IS NULL
+        AND lower(admin_email) = lower(auth.jwt() ->> 'email')
+        AND (admin_id IS NULL OR admin_id IN (SELECT id FROM admin WHERE user_id = auth.uid()))
+    );
+
+COMMENT ON COLUMN log.entity_type IS 'project, employee or project_type for entries written by audit_row_change; NULL for sign-in and export events';
+COMMENT ON COLUMN log.entity_id IS 'id of the changed project, employee or project type';
+COMMENT ON COLUMN log.changes IS 'Changed columns as {"column": {"old": ..., "new": ...}}; old is null for inserts and new for deletes';
@@ -0,0 +1,71 @@
+-- Project History Migration
+-- The project form shows a project's audit entries as a timeline. Managers edit projects and answer
+-- clients about them, so they may read those entries too; the rest of the log, with sign-ins and
+-- account changes, stays readable by admins only.
+
+DROP POLICY IF EXISTS "managers read project history" ON log;
+CREATE POLICY "managers read project history" ON log FOR SELECT TO authenticated
+    USING (current_admin_role() = 'manager' AND entity_type = 'project');
+
+-- audit_row_change of 0017_audit_log with an optional fourth argument: comma-separated columns that
+-- are always recorded, changed or not. An update of an assignee's share then still names the
+-- employee, and voiding a payment names its amount.
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+    new_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+    diff JSONB;
+    verb TEXT;
+    actor_id UUID;
+    actor_email VARCHAR(255);
+BEGIN
+    SELECT COALESCE(jsonb_object_agg(key, jsonb_build_object('old', old_row -> key, 'new', new_row -> key)), '{}'::jsonb)
+    INTO diff
+    FROM jsonb_object_keys(old_row || new_row) AS key
+    WHERE key NOT IN ('created_at', 'updated_at')
+        AND (old_row -> key) IS DISTINCT FROM (new_row -> key);
+
+    IF TG_OP = 'UPDATE' AND diff = '{}'::jsonb THEN
+        RETURN NULL;
+    END IF;
+
+    verb := CASE
+        WHEN TG_OP = 'INSERT' THEN 'created'
+        WHEN TG_OP = 'DELETE' THEN 'deleted'
+        WHEN diff ? 'deleted_at' AND new_row ->> 'deleted_at' IS NULL THEN 'restored'
+        WHEN diff ? 'deleted_at' THEN 'trashed'
+        ELSE 'updated'
+    END;
+
+    IF TG_NARGS > 3 THEN
+        SELECT jsonb_object_agg(key, jsonb_build_object('old', old_row -> key, 'new', new_row -> key)) || diff
+        INTO diff
+        FROM unnest(string_to_array(TG_ARGV[3], ',')) AS key;
+    END IF;
+
+    -- Changes made outside the app (SQL editor, service role) have no admin behind them
+    SELECT id, email INTO actor_id, actor_email FROM admin WHERE user_id = auth.uid();
+
+    INSERT INTO log (admin_id, admin_email, action, entity_type, entity_id, changes)
+    VALUES (
+        actor_id,
+        COALESCE(actor_email, 'system'),
+        TG_ARGV[2] || '_' || verb,
+        TG_ARGV[0],
+        (CASE WHEN TG_OP = 'DELETE' THEN old_row ELSE new_row END ->> TG_ARGV[1])::UUID,
+        diff
+    );
+    RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS audit_project_payments ON project_payments;
+CREATE TRIGGER audit_project_payments AFTER INSERT OR UPDATE OR DELETE ON project_payments
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('project', 'project_id', 'payment', 'amount');
+
+DROP TRIGGER IF EXISTS audit_project_assignments ON project_assignments;
+CREATE TRIGGER audit_project_assignments AFTER INSERT OR UPDATE OR DELETE ON project_assignments
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('project', 'project_id', 'assignee', 'employee_id');
+
+COMMENT ON COLUMN log.changes IS 'Changed columns as {"column": {"old": ..., "new": ...}}; old is null for inserts and new for deletes. Payment amounts and assignee employees are recorded even when unchanged';
@@ -0,0 +1,73 @@
+-- Trash Open Projects Migration
+-- The trash rules of 0016_project_assignments kept an employee out of the trash for as long as any
+-- project in use named them, delivered and rejected ones included, so someone who had ever worked on
+-- a project could never be deleted. Only open work (Running, Pending, Correction) has to be handed
+-- over first; finished projects keep naming the employee while they are in the trash.
+
+CREATE OR REPLACE FUNCTION is_open_project_status(status VARCHAR)
+RETURNS BOOLEAN AS $$
+    SELECT status IN ('Running', 'Pending', 'Correction');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION check_project_trash()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+        AND COALESCE(current_admin_role(), '') <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can delete and restore projects' USING ERRCODE = '42501';
+    END IF;
+
+    -- Open work cannot come back for an assignee who is in the trash, whether the project is taken
+    -- out of the trash or reopened
+    IF TG_OP = 'UPDATE' AND NEW.deleted_at IS NULL AND is_open_project_status(NEW.status)
+        AND (OLD.deleted_at IS NOT NULL OR NOT is_open_project_status(OLD.status))
+        AND EXISTS (
+            SELECT 1 FROM project_assignments pa
+            JOIN employees e ON e.id = pa.employee_id
+            WHERE pa.project_id = NEW.id AND e.deleted_at IS NOT NULL
+        ) THEN
+        RAISE EXCEPTION 'Project % is assigned to an employee in the trash', NEW.project_id USING ERRCODE = '23503';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION check_employee_trash()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.deleted_at IS NOT DISTINCT FROM OLD.deleted_at THEN
+        RETURN NEW;
+    END IF;
+
+    IF COALESCE(current_admin_role(), '') <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can delete and restore employees' USING ERRCODE = '42501';
+    END IF;
+
+    -- Their open projects would be left without their part of the work; reassign them first
+    IF NEW.deleted_at IS NOT NULL
+        AND EXISTS (
+            SELECT 1 FROM project_assignments pa
+            JOIN projects p ON p.id = pa.project_id
+            WHERE pa.employee_id = NEW.id AND p.deleted_at IS NULL AND is_open_project_status(p.status)
+        ) THEN
+        RAISE EXCEPTION 'Employee % is still assigned to open projects', NEW.id USING ERRCODE = '23503';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Open work in use cannot be given to an employee in the trash. Saving a finished project writes its
+-- assignments again, and may name an employee who has been moved to the trash since.
+CREATE OR REPLACE FUNCTION check_assignment_employee()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM employees WHERE id = NEW.employee_id AND deleted_at IS NOT NULL)
+        AND EXISTS (
+            SELECT 1 FROM projects
+            WHERE id = NEW.project_id AND deleted_at IS NULL AND is_open_project_status(status)
+        ) THEN
+        RAISE EXCEPTION 'Employee % is in the trash', NEW.employee_id USING ERRCODE = '23503';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,22 @@
+-- Account Log Changes Migration
+-- Role changes, deactivations and reactivations name the account they were made to: the app writes
+-- its id and email, with the old and new role or active flag, in changes. Only admins manage
+-- accounts, so only they may write changes with those events; every other event the app writes
+-- still has none.
+
+DROP POLICY IF EXISTS "admins log their own events" ON log;
+CREATE POLICY "admins log their own events" ON log FOR INSERT TO authenticated
+    WITH CHECK (
+        entity_type IS NULL AND entity_id IS NULL
+        AND (
+            changes IS NULL
+            OR (action IN ('user_role_changed', 'user_deactivated', 'user_reactivated') AND current_admin_role() = 'admin')
+        )
+        AND lower(admin_email) = lower(auth.jwt() ->> 'email')
+        AND (admin_id IS NULL OR admin_id IN (SELECT id FROM admin WHERE user_id = auth.uid()))
+    );
+
+-- The Users tab reads each admin's newest sign-in
+CREATE INDEX IF NOT EXISTS idx_log_admin_action ON log(admin_id, action, created_at);
+
+COMMENT ON COLUMN log.changes IS 'Changed columns as {"column": {"old": ..., "new": ...}}; old is null for inserts and new for deletes. Account events also name the account by id and email';
@@ -0,0 +1,78 @@
+-- Sample Data
+-- Optional demo data for a fresh database, applied by npm run db:migrate -- --seed after the
+-- migrations. Rows that already exist are left alone, so running it again adds nothing.
+-- src/data/local/seed.ts holds the same data for the in-memory backend; keep the two in step.
+
+-- Link the sample admin user (on Supabase, create admin@ogotechnology.com under Authentication > Users first)
+INSERT INTO admin (email, user_id, role)
+SELECT email, id, 'admin' FROM auth.users WHERE email = 'admin@ogotechnology.com'
+ON CONFLICT (email) DO NOTHING;
+
+INSERT INTO project_types (name) VALUES
+('Web Development'),
+('Mobile App Development'),
+('UI/UX Design'),
+('Digital Marketing'),
+('SEO Optimization'),
+('Content Creation'),
+('Graphic Design'),
+('Video Production')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO employees (employee_id, first_name, last_name, birthday, position, address, whatsapp, email, qualifications) VALUES
+('EMP001', 'John', 'Doe', '1990-05-15', 'Senior Developer', '123 Main St, Colombo', '+94751234567', 'john.doe@ogo.com', 'BSc Computer Science, 5 years experience'),
+('EMP002', 'Jane', 'Smith', '1988-08-22', 'UI/UX Designer', '456 Oak Ave, Kandy', '+94759876543', 'jane.smith@ogo.com', 'BDes Graphic Design, 3 years experience'),
+('EMP003', 'Mike', 'Johnson', '1992-03-10', 'Project Manager', '789 Pine Rd, Galle', '+94751122334', 'mike.johnson@ogo.com', 'MBA, PMP Certified, 4 years experience')
+ON CONFLICT (employee_id) DO NOTHING;
+
+-- The organizations are created from uni_org by link_clients_to_organizations
+INSERT INTO clients (name, uni_org, email, whatsapp_number)
+SELECT sample.* FROM (VALUES
+    ('TechCorp Solutions', 'TechCorp Ltd', 'contact@techcorp.lk', '+94771234567'),
+    ('Green Energy Co', 'Green Energy Ltd', 'info@greenenergy.lk', '+94772345678'),
+    ('EduTech Institute', 'EduTech Foundation', 'admin@edutech.lk', '+94773456789')
+) AS sample (name, uni_org, email, whatsapp_number)
+WHERE NOT EXISTS (SELECT 1 FROM clients c WHERE c.name = sample.name);
+
+INSERT INTO projects (project_id, client_id, client_name, client_uni_org, deadline_date, price, advance, payment_of_emp, status) VALUES
+('PRJ001', (SELECT id FROM clients WHERE name = 'TechCorp Solutions'), 'TechCorp Solutions', 'TechCorp Ltd', '2024-02-15', 50000.00, 15000.00, 8000.00, 'Running'),
+('PRJ002', (SELECT id FROM clients WHERE name = 'Green Energy Co'), 'Green Energy Co', 'Green Energy Ltd', '2024-03-20', 75000.00, 25000.00, 12000.00, 'Pending'),
+('PRJ003', (SELECT id FROM clients WHERE name = 'EduTech Institute'), 'EduTech Institute', 'EduTech Foundation', '2024-01-30', 100000.00, 30000.00, 15000.00, 'Delivered')
+ON CONFLICT (project_id) DO NOTHING;
+
+INSERT INTO project_project_types (project_id, project_type_id)
+SELECT p.id, t.id FROM projects p, project_types t
+WHERE (p.project_id, t.name) IN (
+    ('PRJ001', 'Web Development'),
+    ('PRJ002', 'Mobile App Development'),
+    ('PRJ002', 'UI/UX Design'),
+    ('PRJ003', 'Web Development'),
+    ('PRJ003', 'Video Production')
+)
+ON CONFLICT DO NOTHING;
+
+-- PRJ002 is shared between two employees; the shares add up to the employee payment
+INSERT INTO project_assignments (project_id, employee_id, role, share)
+SELECT p.id, e.id, sample.role, sample.share
+FROM (VALUES
+    ('PRJ001', 'EMP001', 'lead', 8000.00),
+    ('PRJ002', 'EMP002', 'lead', 7000.00),
+    ('PRJ002', 'EMP003', 'writer', 5000.00),
+    ('PRJ003', 'EMP003', 'lead', 15000.00)
+) AS sample (project_code, employee_code, role, share)
+JOIN projects p ON p.project_id = sample.project_code
+JOIN employees e ON e.employee_id = sample.employee_code
+ON CONFLICT DO NOTHING;
+
+-- The advance is always the first payment; projects that already have payments are skipped
+INSERT INTO project_payments (project_id, payment_date, amount, method, reference)
+SELECT p.id, sample.payment_date::DATE, sample.amount, sample.method, sample.reference
+FROM (VALUES
+    ('PRJ001', '2024-01-05', 15000.00, 'Bank Transfer', 'Advance'),
+    ('PRJ001', '2024-01-25', 10000.00, 'Cash', 'Second installment'),
+    ('PRJ002', '2024-02-01', 25000.00, 'Online', 'Advance'),
+    ('PRJ003', '2023-12-10', 30000.00, 'Bank Transfer', 'Advance'),
+    ('PRJ003', '2024-01-30', 70000.00, 'Bank Transfer', 'Final payment')
+) AS sample (project_code, payment_date, amount, method, reference)
+JOIN projects p ON p.project_id = sample.project_code
+WHERE NOT EXISTS (SELECT 1 FROM project_payments pp WHERE pp.project_id = p.id);
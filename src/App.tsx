@@ -3,93 +3,74 @@ import { Header } from "./components/Header";
 import { Navigation } from "./components/Navigation";
 import { Dashboard } from "./components/Dashboard";
 import { Analytics } from "./components/Analytics";
+import { Receivables } from "./components/Receivables";
 import { ProjectManagement } from "./components/ProjectManagement";
 import { EmployeeManagement } from "./components/EmployeeManagement";
+import { ClientManagement } from "./components/ClientManagement";
+import { OrganizationDashboard } from "./components/OrganizationDashboard";
 import { Settings } from "./components/Settings";
 import { LoginPage } from "./components/LoginPage";
-import { useProjects } from "./hooks/useProjects";
-import { useEmployees } from "./hooks/useEmployees";
-import { supabase } from "./supabaseClient";
+import { SetPasswordModal } from "./components/SetPasswordModal";
+import { DataStoreProvider } from "./store/DataStoreProvider";
+import { NotificationProvider } from "./store/NotificationProvider";
+import { backend } from "./data";
+import { getCurrentAdmin, signOut } from "./auth";
+import { canAccessTab } from "./permissions";
+import { Role } from "./types";
 import { LogOut } from "lucide-react";
 import LoadingScreen from "./components/LoadingScreen";
 
-interface SessionData {
-  email: string;
-  loginTime: number;
-  sessionId: string;
-}
-
 export function App() {
   const [activeTab, setActiveTab] = useState("dashboard");
   const [sidebarCollapsed, setSidebarCollapsed] = useState(true);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [currentUserEmail, setCurrentUserEmail] = useState<string | null>(null);
+  const [role, setRole] = useState<Role>("viewer");
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
+  // Invite and password reset links land on /?set-password with a fresh session
+  const [needsPassword, setNeedsPassword] = useState(
+    () => new URLSearchParams(window.location.search).has("set-password")
+  );
   const [isLoading, setIsLoading] = useState(true);
   const [minLoadingDone, setMinLoadingDone] = useState(false);
 
-  const { projects } = useProjects();
-  const { employees } = useEmployees();
-
-  // Check for existing session on app startup
+  // Restore the sign-in session on app startup and follow sign-outs / token refreshes
   useEffect(() => {
-    const checkExistingSession = () => {
-      try {
-        const sessionData = localStorage.getItem('ogo_session');
-        if (sessionData) {
-          const session: SessionData = JSON.parse(sessionData);
-          const currentTime = Date.now();
-          const sessionAge = currentTime - session.loginTime;
-          const maxSessionAge = 24 * 60 * 60 * 1000; // 24 hours
-
-          // Check if session is still valid (less than 24 hours old)
-          if (sessionAge < maxSessionAge) {
-            setIsAuthenticated(true);
-            setCurrentUserEmail(session.email);
-          } else {
-            // Session expired, clear it
-            localStorage.removeItem('ogo_session');
-            logSessionExpiry(session.email);
-          }
-        }
-      } catch (error) {
+    backend.admin.getSession()
+      .then(async session => {
+        // A session only counts if it belongs to a user with an admin row
+        const admin = session ? await getCurrentAdmin() : null;
+        setIsAuthenticated(!!admin);
+        setCurrentUserEmail(admin ? session?.email ?? null : null);
+        setRole(admin?.role ?? "viewer");
+      })
+      .catch(error => {
         console.error('Error checking session:', error);
-        localStorage.removeItem('ogo_session');
-      } finally {
+      })
+      .finally(() => {
         setIsLoading(false);
+      });
+
+    const stopAuthListener = backend.admin.onAuthChange((event, session) => {
+      if (event === 'SIGNED_OUT') {
+        setIsAuthenticated(false);
+        setCurrentUserEmail(null);
+        setRole("viewer");
+      } else if (event === 'PASSWORD_RECOVERY') {
+        setNeedsPassword(true);
+      } else if (session && (event === 'TOKEN_REFRESHED' || event === 'USER_UPDATED')) {
+        setCurrentUserEmail(session.email);
       }
-    };
+    });
 
-    checkExistingSession();
     // Minimum 5 seconds loading
     const timer = setTimeout(() => setMinLoadingDone(true), 5000);
-    return () => clearTimeout(timer);
-  }, []);
-
-  const createSession = (email: string) => {
-    const sessionData: SessionData = {
-      email,
-      loginTime: Date.now(),
-      sessionId: Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15)
+    return () => {
+      clearTimeout(timer);
+      stopAuthListener();
     };
-    localStorage.setItem('ogo_session', JSON.stringify(sessionData));
-  };
-
-  const clearSession = () => {
-    localStorage.removeItem('ogo_session');
-  };
-
-  const logSessionExpiry = async (email: string) => {
-    try {
-      await supabase.from('log').insert({
-        admin_email: email,
-        action: 'session_expired',
-      });
-    } catch (error) {
-      console.error('Error logging session expiry:', error);
-    }
-  };
+  }, []);
 
   const handleLogoutClick = () => {
     setShowLogoutConfirm(true);
@@ -107,18 +88,12 @@ export function App() {
 
   const handleLogoutConfirm = async () => {
     try {
-      // Record logout event in the database
-      if (currentUserEmail) {
-        await supabase.from('log').insert({
-          admin_email: currentUserEmail,
-          action: 'logout',
-        });
-      }
+      // Record logout event and end the Supabase session
+      await signOut();
     } catch (error) {
-      console.error('Error logging logout event:', error);
+      console.error('Error logging out:', error);
     } finally {
-      // Clear session and reset authentication state
-      clearSession();
+      // Reset authentication state
       setIsAuthenticated(false);
       setCurrentUserEmail(null);
       setShowLogoutConfirm(false);
@@ -153,26 +128,40 @@ export function App() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [showLogoutConfirm]);
 
-  const handleLoginSuccess = (email: string) => {
-    createSession(email);
+  const handlePasswordSet = () => {
+    setNeedsPassword(false);
+    window.history.replaceState(null, "", window.location.pathname);
+  };
+
+  const handleLoginSuccess = async (email: string) => {
+    const admin = await getCurrentAdmin();
+    setRole(admin?.role ?? "viewer");
     setIsAuthenticated(true);
     setCurrentUserEmail(email);
   };
 
   const renderPage = () => {
-    switch (activeTab) {
+    // Fall back to the dashboard if the current tab is not allowed for this role
+    const page = canAccessTab(role, activeTab) ? activeTab : "dashboard";
+    switch (page) {
       case "dashboard":
-        return <Dashboard projects={projects} employees={employees} />;
+        return <Dashboard role={role} />;
       case "analytics":
-        return <Analytics projects={projects} employees={employees} />;
+        return <Analytics role={role} />;
+      case "receivables":
+        return <Receivables />;
       case "projects":
-        return <ProjectManagement employees={employees} />;
+        return <ProjectManagement role={role} />;
+      case "clients":
+        return <ClientManagement role={role} />;
+      case "organizations":
+        return <OrganizationDashboard role={role} />;
       case "employees":
-        return <EmployeeManagement />;
+        return <EmployeeManagement role={role} />;
       case "settings":
-        return <Settings />;
+        return <Settings role={role} />;
       default:
-        return <Dashboard projects={projects} employees={employees} />;
+        return <Dashboard role={role} />;
     }
   };
 
@@ -185,6 +174,8 @@ export function App() {
   }
 
   return (
+    <NotificationProvider>
+    <DataStoreProvider>
     <div className="min-h-screen bg-gradient-to-br from-[#363333] via-[#272121] to-[#363333]">
         <Header 
           onMenuToggle={() => setMobileMenuOpen(!mobileMenuOpen)}
@@ -193,6 +184,7 @@ export function App() {
         <Navigation 
           activeTab={activeTab} 
           setActiveTab={setActiveTab}
+          role={role}
           collapsed={sidebarCollapsed}
           mobileOpen={mobileMenuOpen}
           onMobileClose={() => setMobileMenuOpen(false)}
@@ -207,6 +199,10 @@ export function App() {
         </div>
       </main>
 
+      {needsPassword && (
+        <SetPasswordModal email={currentUserEmail} onDone={handlePasswordSet} />
+      )}
+
       {/* Logout Confirmation Modal */}
       {showLogoutConfirm && (
         <div className="fixed inset-0 z-[999] flex items-center justify-center bg-black/50 backdrop-blur-sm">
@@ -219,7 +215,7 @@ export function App() {
                 Confirm Logout
               </h3>
               <p className="text-[#F6E9E9]/70 mb-6">
-                Are you sure you want to log out? You'll need to sign in again to access the dashboard.
+                Are you sure you want to log out{currentUserEmail ? ` of ${currentUserEmail}` : ''}? You'll need to sign in again to access the dashboard.
               </p>
               
               <div className="flex gap-3">
@@ -242,5 +238,7 @@ export function App() {
       </div>
       )}
     </div>
+    </DataStoreProvider>
+    </NotificationProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,170 @@
+import { backend } from './data';
+import { passwordPolicy } from './config';
+import { AdminProfile, FieldChanges } from './types';
+
+// Who a log entry is attributed to; failed logins only know the email that was tried
+interface LogActor {
+  id: string | null;
+  email: string;
+}
+
+// Where invite and password reset links land; App shows the set-password form for it
+export const SET_PASSWORD_REDIRECT = `${window.location.origin}/?set-password`;
+
+// Active admin row linked to the signed-in user
+export const getCurrentAdmin = async (): Promise<AdminProfile | null> => {
+  try {
+    const session = await backend.admin.getSession();
+    return session ? await backend.admin.findActive(session.userId) : null;
+  } catch (error) {
+    console.error('Error loading current admin:', error);
+    return null;
+  }
+};
+
+// Log action to database (defaults to the signed-in admin); account changes name the account in changes
+export const logAction = async (action: string, actor?: LogActor | null, changes?: FieldChanges) => {
+  try {
+    const by = actor === undefined ? await getCurrentAdmin() : actor;
+    await backend.log.insert({
+      adminId: by?.id ?? null,
+      adminEmail: by?.email ?? 'Unknown',
+      action,
+      changes: changes ?? null,
+    });
+  } catch (error) {
+    console.error('Failed to log action:', error);
+  }
+};
+
+// Sign in through the backend's auth. Only users with an admin row may use the app.
+export const signIn = async (email: string, password: string): Promise<{ error: string | null }> => {
+  const signedIn = await backend.admin.signIn(email, password);
+
+  if (!signedIn) {
+    await logAction('login_fail', { id: null, email });
+    return { error: 'Invalid email or password.' };
+  }
+
+  const admin = await getCurrentAdmin();
+  if (!admin) {
+    await logAction('login_fail', { id: null, email });
+    await backend.admin.signOut();
+    return { error: 'This account does not have admin access or has been deactivated.' };
+  }
+
+  await logAction('login_success', admin);
+  return { error: null };
+};
+
+export const signOut = async () => {
+  await logAction('logout');
+  try {
+    await backend.admin.signOut();
+  } catch (error) {
+    console.error('Error signing out:', error);
+  }
+};
+
+// Confirm the signed-in admin's password again before a sensitive action, logging the outcome
+export const reauthenticate = async (
+  password: string,
+  logAs: { success?: string; fail: string }
+): Promise<boolean> => {
+  try {
+    const admin = await getCurrentAdmin();
+    if (!admin) {
+      await logAction(logAs.fail, null);
+      return false;
+    }
+
+    const signedIn = await backend.admin.signIn(admin.email, password);
+    if (!signedIn) {
+      await logAction(logAs.fail, admin);
+      return false;
+    }
+
+    if (logAs.success) {
+      await logAction(logAs.success, admin);
+    }
+    return true;
+  } catch (error) {
+    console.error('Authentication error:', error);
+    await logAction(logAs.fail, null);
+    return false;
+  }
+};
+
+// Every rule of the configured policy, shown as a checklist while typing a new password
+export const getPasswordPolicyRules = (): string[] => [
+  `At least ${passwordPolicy.minLength} characters`,
+  ...(passwordPolicy.requireUppercase ? ['An uppercase letter'] : []),
+  ...(passwordPolicy.requireLowercase ? ['A lowercase letter'] : []),
+  ...(passwordPolicy.requireNumber ? ['A number'] : []),
+  ...(passwordPolicy.requireSymbol ? ['A symbol'] : []),
+];
+
+// Rules from the configured policy that the password does not meet yet
+export const getPasswordPolicyErrors = (password: string): string[] => {
+  const errors: string[] = [];
+  if (password.length < passwordPolicy.minLength) errors.push(`At least ${passwordPolicy.minLength} characters`);
+  if (passwordPolicy.requireUppercase && !/[A-Z]/.test(password)) errors.push('An uppercase letter');
+  if (passwordPolicy.requireLowercase && !/[a-z]/.test(password)) errors.push('A lowercase letter');
+  if (passwordPolicy.requireNumber && !/\d/.test(password)) errors.push('A number');
+  if (passwordPolicy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) errors.push('A symbol');
+  return errors;
+};
+
+// Change the signed-in admin's password and sign out every other session
+export const changePassword = async (
+  currentPassword: string,
+  newPassword: string
+): Promise<{ error: string | null }> => {
+  if (getPasswordPolicyErrors(newPassword).length > 0) {
+    return { error: 'New password does not meet the password policy.' };
+  }
+  if (newPassword === currentPassword) {
+    return { error: 'New password must be different from the current password.' };
+  }
+
+  const isValid = await reauthenticate(currentPassword, { fail: 'password_change_fail' });
+  if (!isValid) {
+    return { error: 'Current password is incorrect.' };
+  }
+
+  // Supabase Auth stores the hash; the plaintext never touches our tables
+  try {
+    await backend.admin.updatePassword(newPassword);
+  } catch (updateError) {
+    console.error('Error updating password:', updateError);
+    await logAction('password_change_fail');
+    return { error: (updateError as Error).message || 'Failed to change password.' };
+  }
+
+  // Revoke refresh tokens of every other session; this one stays signed in
+  try {
+    await backend.admin.signOut('others');
+  } catch (signOutError) {
+    console.error('Error signing out other sessions:', signOutError);
+  }
+
+  await logAction('password_changed');
+  return { error: null };
+};
+
+// Set a password after following an invite or reset link (the link already signed the user in)
+export const setPassword = async (newPassword: string): Promise<{ error: string | null }> => {
+  if (getPasswordPolicyErrors(newPassword).length > 0) {
+    return { error: 'Password does not meet the password policy.' };
+  }
+
+  try {
+    await backend.admin.updatePassword(newPassword);
+  } catch (error) {
+    console.error('Error setting password:', error);
+    return { error: (error as Error).message || 'Failed to set password.' };
+  }
+
+  await logAction('password_set');
+  return { error: null };
+};
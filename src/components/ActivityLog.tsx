@@ -0,0 +1,226 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Activity, ChevronLeft, ChevronRight, Download, ShieldAlert } from 'lucide-react';
+import { LogEntry } from '../types';
+import { LogFilter } from '../data';
+import { ACTIVITY_PAGE_SIZE, useActivityLog } from '../hooks/useActivityLog';
+import { ACTIVITY_TYPES, formatAction, formatChanges, isFailedLogin } from '../utils/activity';
+import { logAction } from '../auth';
+
+// Start of a day picked in a date input, in local time
+const startOfDay = (date: string, addDays = 0) => {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + addDays);
+  return day.toISOString();
+};
+
+// Quoted, and kept from being read as a formula: failed sign-ins carry whatever was typed as the email
+const csvField = (value: string) => {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+// Activity tab of Settings: who signed in, exported reports and changed records, from the log table
+export const ActivityLog: React.FC = () => {
+  const [emailInput, setEmailInput] = useState('');
+  const [adminEmail, setAdminEmail] = useState('');
+  const [typeId, setTypeId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [page, setPage] = useState(0);
+  const [exporting, setExporting] = useState(false);
+
+  // Wait for a pause in typing before searching by email
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setAdminEmail(emailInput.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [emailInput]);
+
+  const filter = useMemo<LogFilter>(
+    () => ({
+      ...ACTIVITY_TYPES.find(type => type.id === typeId)?.filter,
+      adminEmail: adminEmail || undefined,
+      from: fromDate ? startOfDay(fromDate) : undefined,
+      before: toDate ? startOfDay(toDate, 1) : undefined,
+    }),
+    [typeId, adminEmail, fromDate, toDate]
+  );
+
+  const { entries, total, loading, error, fetchAll } = useActivityLog(filter, page);
+  const pageCount = Math.max(Math.ceil(total / ACTIVITY_PAGE_SIZE), 1);
+  const failedOnPage = entries.filter(isFailedLogin).length;
+
+  const handleExport = async () => {
+    setExporting(true);
+    const all = await fetchAll();
+    setExporting(false);
+    if (!all) return;
+
+    const headers = ['Time', 'Admin', 'Action', 'Entity Type', 'Entity ID', 'Changes', 'Possible Break-in'];
+    const csvContent = [
+      headers.join(','),
+      ...all.map(entry =>
+        [
+          entry.createdAt,
+          entry.adminEmail,
+          entry.action,
+          entry.entityType ?? '',
+          entry.entityId ?? '',
+          entry.changes ? JSON.stringify(entry.changes) : '',
+          isFailedLogin(entry) ? 'Yes' : 'No',
+        ]
+          .map(csvField)
+          .join(',')
+      ),
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `activity_${fromDate || 'start'}_to_${toDate || new Date().toISOString().slice(0, 10)}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    await logAction('activity_exported');
+  };
+
+  const renderEntry = (entry: LogEntry) => {
+    const failed = isFailedLogin(entry);
+    const Icon = failed ? ShieldAlert : Activity;
+    const changes = formatChanges(entry.changes);
+    return (
+      <div
+        key={entry.id}
+        className={`flex items-start gap-3 rounded-lg px-3 sm:px-4 py-2 sm:py-3 border ${
+          failed ? 'bg-red-500/10 border-red-500/40' : 'bg-[#272121]/70 border-[#E16428]/20'
+        }`}
+      >
+        <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${failed ? 'text-red-400' : 'text-[#E16428]'}`} />
+        <div className="min-w-0 flex-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <p className={`font-medium text-sm ${failed ? 'text-red-300' : 'text-[#F6E9E9]'}`}>{formatAction(entry.action)}</p>
+            {failed && (
+              <span className="px-2 py-0.5 rounded-full text-xs bg-red-500/20 text-red-300 border border-red-500/30">
+                Possible break-in attempt
+              </span>
+            )}
+          </div>
+          <p className="text-[#F6E9E9]/50 text-xs truncate">
+            {entry.adminEmail || 'Unknown'} · {new Date(entry.createdAt).toLocaleString()}
+          </p>
+          {changes && (
+            <p className="text-[#F6E9E9]/70 text-xs truncate mt-1" title={changes}>
+              {changes}
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg sm:text-xl font-bold text-[#F6E9E9] mb-2">Activity</h2>
+      <p className="text-[#F6E9E9]/60 text-xs sm:text-sm mb-4">
+        Sign-ins, exports, account changes and every change to projects, employees and project types. Failed logins
+        are highlighted; several in a row can mean someone is guessing a password.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2 mb-4">
+        <input
+          type="text"
+          value={emailInput}
+          onChange={e => setEmailInput(e.target.value)}
+          className="w-full px-3 py-2 rounded bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] focus:outline-none text-sm"
+          placeholder="Admin email"
+        />
+        <select
+          value={typeId}
+          onChange={e => {
+            setTypeId(e.target.value);
+            setPage(0);
+          }}
+          className="w-full px-3 py-2 rounded bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] text-sm"
+        >
+          <option value="" className="bg-[#272121]">All activity</option>
+          {ACTIVITY_TYPES.map(type => (
+            <option key={type.id} value={type.id} className="bg-[#272121]">{type.label}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={fromDate}
+          onChange={e => {
+            setFromDate(e.target.value);
+            setPage(0);
+          }}
+          className="w-full px-3 py-2 rounded bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] focus:outline-none text-sm"
+          title="From"
+        />
+        <input
+          type="date"
+          value={toDate}
+          onChange={e => {
+            setToDate(e.target.value);
+            setPage(0);
+          }}
+          className="w-full px-3 py-2 rounded bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] focus:outline-none text-sm"
+          title="To"
+        />
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+        <p className="text-[#F6E9E9]/60 text-xs sm:text-sm">
+          {total} entr{total === 1 ? 'y' : 'ies'}
+          {failedOnPage > 0 && (
+            <span className="text-red-400"> · {failedOnPage} failed login{failedOnPage === 1 ? '' : 's'} on this page</span>
+          )}
+        </p>
+        <button
+          onClick={handleExport}
+          disabled={exporting || total === 0}
+          className="bg-[#E16428] text-white px-4 py-2 rounded hover:bg-[#d35400] flex items-center justify-center text-sm disabled:opacity-50"
+        >
+          <Download className="w-4 h-4 mr-1" /> {exporting ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      {error && <div className="text-red-400 text-sm mb-4">{error}</div>}
+
+      {loading ? (
+        <div className="text-[#F6E9E9]/70">Loading...</div>
+      ) : entries.length === 0 ? (
+        <div className="text-[#F6E9E9]/50 text-sm">No activity matches these filters.</div>
+      ) : (
+        <div className="space-y-2">{entries.map(renderEntry)}</div>
+      )}
+
+      {total > ACTIVITY_PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4">
+          <button
+            onClick={() => setPage(prev => prev - 1)}
+            disabled={page === 0 || loading}
+            className="px-3 py-2 rounded bg-[#363333]/60 text-[#F6E9E9] hover:bg-[#E16428]/10 flex items-center text-sm disabled:opacity-50"
+          >
+            <ChevronLeft className="w-4 h-4 mr-1" /> Newer
+          </button>
+          <span className="text-[#F6E9E9]/60 text-xs sm:text-sm">
+            Page {page + 1} of {pageCount}
+          </span>
+          <button
+            onClick={() => setPage(prev => prev + 1)}
+            disabled={page + 1 >= pageCount || loading}
+            className="px-3 py-2 rounded bg-[#363333]/60 text-[#F6E9E9] hover:bg-[#E16428]/10 flex items-center text-sm disabled:opacity-50"
+          >
+            Older <ChevronRight className="w-4 h-4 ml-1" />
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
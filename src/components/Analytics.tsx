@@ -1,13 +1,17 @@
 import React, { useMemo, useState, useEffect } from 'react';
 import { TrendingUp, DollarSign, Users, Calendar, Clock, Download, Lock, X } from 'lucide-react';
-import { Project, Employee } from '../types';
+import { Role } from '../types';
 import { GlassCard } from './GlassCard';
 import ReportModal from './ReportModal';
-import { supabase } from '../supabaseClient';
+import { getBalanceDue, getTotalPaid } from '../utils/payments';
+import { getProjectTypeNames } from '../utils/projectTypes';
+import { getAssigneeNames, getRevenueShare, getShare, isAssignedTo } from '../utils/assignees';
+import { reauthenticate } from '../auth';
+import { can } from '../permissions';
+import { useEmployeeStore, useProjectStore } from '../store/context';
 
 interface AnalyticsProps {
-  projects: Project[];
-  employees: Employee[];
+  role: Role;
 }
 
 interface MonthlyData {
@@ -18,12 +22,13 @@ interface MonthlyData {
   employeePayments: number;
 }
 
-export const Analytics: React.FC<AnalyticsProps> = ({ projects, employees }) => {
+export const Analytics: React.FC<AnalyticsProps> = ({ role }) => {
+  const { projects } = useProjectStore();
+  const { employees } = useEmployeeStore();
   // Month/year filter state
   const [selectedMonth, setSelectedMonth] = useState<'all' | number>(new Date().getMonth());
   const [selectedYear, setSelectedYear] = useState<'all' | number>(new Date().getFullYear());
   const [showReport, setShowReport] = useState(false);
-  const [projectTypes, setProjectTypes] = useState<{ id: string; name: string }[]>([]);
   
   // Login modal state
   const [showLoginModal, setShowLoginModal] = useState(false);
@@ -43,17 +48,6 @@ export const Analytics: React.FC<AnalyticsProps> = ({ projects, employees }) =>
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [showLoginModal]);
 
-  // Fetch project types on mount
-  useEffect(() => {
-    async function fetchProjectTypes() {
-      const { data, error } = await supabase.from('project_types').select('*');
-      if (!error && data) {
-        setProjectTypes(data);
-      }
-    }
-    fetchProjectTypes();
-  }, []);
-
   // Calculate year range dynamically for the year dropdown
   const projectYears = projects
     .map(p => {
@@ -127,10 +121,11 @@ export const Analytics: React.FC<AnalyticsProps> = ({ projects, employees }) =>
 
   const employeePerformance = useMemo(() => {
     return employees.map(employee => {
-      const employeeProjects = filteredProjects.filter(p => p.assignedTo === employee.id);
+      const employeeProjects = filteredProjects.filter(p => isAssignedTo(p, employee.id));
       const completed = employeeProjects.filter(p => p.status === 'Delivered').length;
-      const totalEarnings = employeeProjects.reduce((sum, p) => sum + p.paymentOfEmp, 0);
-      const revenue = employeeProjects.reduce((sum, p) => sum + p.price, 0);
+      // Shared projects count for each assignee; earnings and revenue are split by their shares
+      const totalEarnings = employeeProjects.reduce((sum, p) => sum + getShare(p, employee.id), 0);
+      const revenue = employeeProjects.reduce((sum, p) => sum + getRevenueShare(p, employee.id), 0);
       const isRanukaJayesh = `${employee.firstName} ${employee.lastName}`.toLowerCase() === 'ranuka jayesh';
       return {
         ...employee,
@@ -159,53 +154,23 @@ export const Analytics: React.FC<AnalyticsProps> = ({ projects, employees }) =>
       setIsAuthenticating(true);
       setLoginError('');
       
-      const { data, error } = await supabase
-        .from('admin')
-        .select('id, email, password')
-        .eq('password', password)
-        .single();
-      
-      if (error || !data) {
-        // Log failed authentication attempt
-        await logAction(null, 'Unknown', 'export_fail');
+      // Logged as the export itself, which follows straight after a successful check
+      const isValid = await reauthenticate(password, {
+        success: 'export_success',
+        fail: 'export_fail',
+      });
+
+      if (!isValid) {
         setLoginError('Invalid password. Please try again.');
         return false;
       }
-      
-      // Log successful authentication and export
-      await logAction(data.id, data.email, 'export_success');
-      
+
       return true;
-    } catch (error) {
-      console.error('Authentication error:', error);
-      // Log authentication error
-      await logAction(null, 'Unknown', 'export_fail');
-      setLoginError('Authentication failed. Please try again.');
-      return false;
     } finally {
       setIsAuthenticating(false);
     }
   };
 
-  // Log action to database
-  const logAction = async (adminId: string | null, adminEmail: string, action: string) => {
-    try {
-      const { error } = await supabase
-        .from('log')
-        .insert({
-          admin_id: adminId,
-          admin_email: adminEmail,
-          action: action
-        });
-      
-      if (error) {
-        console.error('Error logging action:', error);
-      }
-    } catch (error) {
-      console.error('Failed to log action:', error);
-    }
-  };
-
   // Handle login submit
   const handleLoginSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -238,6 +203,8 @@ export const Analytics: React.FC<AnalyticsProps> = ({ projects, employees }) =>
       'Deadline Date',
       'Price',
       'Advance',
+      'Paid',
+      'Balance Due',
       'Assigned To',
       'Payment of Employee',
       'Status',
@@ -249,30 +216,18 @@ export const Analytics: React.FC<AnalyticsProps> = ({ projects, employees }) =>
     const csvContent = [
       headers.join(','),
       ...filteredProjects.map(project => {
-        const assignedEmployee = employees.find(emp => emp.id === project.assignedTo);
-        const assignedToName = assignedEmployee ? `${assignedEmployee.firstName} ${assignedEmployee.lastName}` : 'Unassigned';
-        
-        // Convert project type IDs to names
-        const getProjectTypeNames = (projectDescription: string) => {
-          if (!projectDescription) return 'No types specified';
-          const typeIds = projectDescription.split(',').map(id => id.trim());
-          const typeNames = typeIds.map(id => {
-            const type = projectTypes.find(t => t.id === id);
-            return type ? type.name : `Unknown Type (${id})`;
-          });
-          return typeNames.join(', ');
-        };
-        
         return [
           project.id,
           project.projectId,
           `"${project.clientName}"`,
           `"${project.clientUniOrg}"`,
-          `"${getProjectTypeNames(project.projectDescription)}"`,
+          `"${getProjectTypeNames(project)}"`,
           project.deadlineDate,
           project.price,
           project.advance,
-          `"${assignedToName}"`,
+          getTotalPaid(project),
+          getBalanceDue(project),
+          `"${getAssigneeNames(project, employees)}"`,
           project.paymentOfEmp,
           project.status,
           project.fastDeliver ? 'Yes' : 'No',
@@ -558,6 +513,7 @@ export const Analytics: React.FC<AnalyticsProps> = ({ projects, employees }) =>
         </GlassCard>
       </div>
 
+      {can(role, 'export_reports') && (
       <div className="flex justify-center sm:justify-between items-center mb-6">
         <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
         <button
@@ -581,6 +537,7 @@ export const Analytics: React.FC<AnalyticsProps> = ({ projects, employees }) =>
         </div>
         <div className="hidden sm:block" />
       </div>
+      )}
 
       {showReport && (
         <ReportModal
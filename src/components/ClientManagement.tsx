@@ -0,0 +1,410 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, Edit, Trash2, Mail, Phone, MessageCircle, Building2, ArrowLeft, Search, FolderOpen, AlertTriangle } from 'lucide-react';
+import { Client, Project, Role } from '../types';
+import { GlassCard } from './GlassCard';
+import { ClientModal } from './ClientModal';
+import { useClientStore, useOrganizationStore, useProjectStore } from '../store/context';
+import { getBalanceDue, getTotalPaid } from '../utils/payments';
+import { can } from '../permissions';
+
+interface ClientManagementProps {
+  role: Role;
+}
+
+const statusColors: Record<Project['status'], string> = {
+  Running: 'text-blue-300',
+  Pending: 'text-yellow-300',
+  Delivered: 'text-green-300',
+  Correction: 'text-orange-300',
+  Rejected: 'text-red-400',
+};
+
+// Rejected work was never billed, so it does not count towards what a client is worth
+const getLifetimeValue = (projects: Project[]) =>
+  projects.filter(p => p.status !== 'Rejected').reduce((sum, p) => sum + p.price, 0);
+
+export const ClientManagement: React.FC<ClientManagementProps> = ({ role }) => {
+  const { projects } = useProjectStore();
+  const { clients, loading, addClient, updateClient, deleteClient } = useClientStore();
+  const { organizations, refetch: refetchOrganizations } = useOrganizationStore();
+  const [search, setSearch] = useState('');
+  const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingClient, setEditingClient] = useState<Client | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<Client | null>(null);
+
+  const showFinancials = can(role, 'view_financials');
+  const canEdit = can(role, 'edit_projects');
+  const canDelete = can(role, 'delete_projects');
+
+  const projectsByClient = useMemo(() => {
+    const grouped: Record<string, Project[]> = {};
+    projects.forEach(project => {
+      if (!project.clientId) return;
+      if (!grouped[project.clientId]) grouped[project.clientId] = [];
+      grouped[project.clientId].push(project);
+    });
+    return grouped;
+  }, [projects]);
+
+  const filteredClients = clients.filter(client => {
+    const searchLower = search.trim().toLowerCase();
+    return !searchLower ||
+      client.name.toLowerCase().includes(searchLower) ||
+      client.uniOrg.toLowerCase().includes(searchLower);
+  });
+
+  const selectedClient = clients.find(c => c.id === selectedClientId) || null;
+  const clientProjects = useMemo(
+    () => (selectedClientId ? projectsByClient[selectedClientId] || [] : [])
+      .slice()
+      .sort((a, b) => (b.deadlineDate || '').localeCompare(a.deadlineDate || '')),
+    [projectsByClient, selectedClientId]
+  );
+
+  const handleAdd = () => {
+    setEditingClient(null);
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (client: Client) => {
+    setEditingClient(client);
+    setIsModalOpen(true);
+  };
+
+  const handleModalClose = () => {
+    setIsModalOpen(false);
+    setEditingClient(null);
+  };
+
+  const handleSave = async (client: Omit<Client, 'id' | 'organizationId'>) => {
+    if (editingClient) {
+      await updateClient(editingClient.id, client);
+    } else {
+      await addClient(client);
+    }
+    // A new spelling creates an organization, so keep the suggestions current
+    refetchOrganizations();
+    handleModalClose();
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!confirmDelete) return;
+    await deleteClient(confirmDelete.id);
+    if (selectedClientId === confirmDelete.id) setSelectedClientId(null);
+    setConfirmDelete(null);
+  };
+
+  // Keyboard shortcuts handler
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Prevent shortcuts when typing in input fields
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) {
+        return;
+      }
+      // Alt + A: Open add client form
+      if (e.altKey && e.key === 'a' && canEdit) {
+        e.preventDefault();
+        handleAdd();
+      }
+      // Alt + S: Save/Update form (only when modal is open)
+      if (e.altKey && e.key === 's' && isModalOpen) {
+        e.preventDefault();
+        const saveButton = document.querySelector('[data-shortcut="save"]') as HTMLButtonElement;
+        if (saveButton) {
+          saveButton.click();
+        }
+      }
+      // Escape: Close the delete confirmation, then the detail view
+      if (e.key === 'Escape') {
+        if (confirmDelete) {
+          setConfirmDelete(null);
+        } else if (!isModalOpen && selectedClientId) {
+          setSelectedClientId(null);
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [confirmDelete, isModalOpen, selectedClientId, canEdit]);
+
+  const renderDetail = (client: Client) => {
+    const totalPaid = clientProjects.reduce((sum, p) => sum + getTotalPaid(p), 0);
+    const balanceDue = clientProjects
+      .filter(p => p.status !== 'Rejected')
+      .reduce((sum, p) => sum + getBalanceDue(p), 0);
+
+    return (
+      <div className="space-y-4 sm:space-y-6">
+        <button
+          onClick={() => setSelectedClientId(null)}
+          className="flex items-center gap-2 text-[#F6E9E9]/70 hover:text-[#E16428] text-sm font-['Inter'] transition-colors duration-200"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          All clients
+        </button>
+
+        <GlassCard className="p-4 sm:p-6">
+          <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+            <div className="min-w-0">
+              <h2 className="text-xl sm:text-2xl font-bold text-[#F6E9E9] font-['Playfair_Display'] truncate">{client.name}</h2>
+              {client.uniOrg && (
+                <p className="flex items-center gap-2 text-[#F6E9E9]/70 text-sm mt-1">
+                  <Building2 className="w-4 h-4" />
+                  {client.uniOrg}
+                </p>
+              )}
+              <div className="space-y-1 mt-3 text-sm">
+                {client.email && (
+                  <div className="flex items-center space-x-2 text-[#F6E9E9]/80">
+                    <Mail className="w-4 h-4" />
+                    <span className="truncate">{client.email}</span>
+                  </div>
+                )}
+                {client.phone && (
+                  <div className="flex items-center space-x-2 text-[#F6E9E9]/80">
+                    <Phone className="w-4 h-4" />
+                    <span>{client.phone}</span>
+                  </div>
+                )}
+                {client.whatsappNumber && (
+                  <div className="flex items-center space-x-2 text-[#F6E9E9]/80">
+                    <MessageCircle className="w-4 h-4" />
+                    <span>{client.whatsappNumber}</span>
+                  </div>
+                )}
+                {client.notes && <p className="text-[#F6E9E9]/60 text-xs pt-1 whitespace-pre-line">{client.notes}</p>}
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              {client.email && (
+                <button
+                  onClick={() => window.open(`mailto:${client.email}`)}
+                  className="p-2 rounded-lg bg-[#E16428]/20 hover:bg-[#E16428]/40 transition"
+                  title="Send Email"
+                >
+                  <Mail className="w-4 h-4 text-[#E16428]" />
+                </button>
+              )}
+              {client.whatsappNumber && (
+                <button
+                  onClick={() => window.open(`https://wa.me/${client.whatsappNumber.replace(/\D/g, '')}`)}
+                  className="p-2 rounded-lg bg-[#25D366]/20 hover:bg-[#25D366]/40 transition"
+                  title="Send WhatsApp Message"
+                >
+                  <Phone className="w-4 h-4 text-[#25D366]" />
+                </button>
+              )}
+              {canEdit && (
+                <button
+                  onClick={() => handleEdit(client)}
+                  className="p-2 bg-[#E16428]/20 text-[#E16428] rounded-lg hover:bg-[#E16428]/30 transition-all duration-300"
+                  title="Edit Client"
+                >
+                  <Edit className="w-4 h-4" />
+                </button>
+              )}
+              {canDelete && (
+                <button
+                  onClick={() => setConfirmDelete(client)}
+                  className="p-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-all duration-300"
+                  title="Delete Client"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        </GlassCard>
+
+        <div className={`grid grid-cols-2 ${showFinancials ? 'lg:grid-cols-4' : ''} gap-4`}>
+          <GlassCard className="p-4">
+            <p className="text-[#F6E9E9]/70 text-sm font-['Inter']">Projects</p>
+            <p className="text-xl sm:text-2xl font-bold text-[#F6E9E9] mt-1 font-['Poppins']">{clientProjects.length}</p>
+          </GlassCard>
+          <GlassCard className="p-4">
+            <p className="text-[#F6E9E9]/70 text-sm font-['Inter']">Delivered</p>
+            <p className="text-xl sm:text-2xl font-bold text-green-300 mt-1 font-['Poppins']">
+              {clientProjects.filter(p => p.status === 'Delivered').length}
+            </p>
+          </GlassCard>
+          {showFinancials && (
+            <>
+              <GlassCard className="p-4">
+                <p className="text-[#F6E9E9]/70 text-sm font-['Inter']">Lifetime Value</p>
+                <p className="text-xl sm:text-2xl font-bold text-[#E16428] mt-1 font-['Poppins']">
+                  LKR {getLifetimeValue(clientProjects).toLocaleString()}
+                </p>
+                <p className="text-[#F6E9E9]/50 text-xs mt-1">LKR {totalPaid.toLocaleString()} paid</p>
+              </GlassCard>
+              <GlassCard className="p-4">
+                <p className="text-[#F6E9E9]/70 text-sm font-['Inter']">Balance Due</p>
+                <p className={`text-xl sm:text-2xl font-bold mt-1 font-['Poppins'] ${balanceDue > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                  LKR {balanceDue.toLocaleString()}
+                </p>
+              </GlassCard>
+            </>
+          )}
+        </div>
+
+        <GlassCard className="p-4 sm:p-6">
+          <h3 className="text-lg sm:text-xl font-semibold text-[#F6E9E9] mb-4 font-['Poppins']">Projects</h3>
+          {clientProjects.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-[#F6E9E9]/50">
+              <FolderOpen className="w-8 h-8 mb-2 text-[#E16428]/50" />
+              <p className="text-sm font-['Inter'] lowercase">no projects for this client yet</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[500px]">
+                <thead>
+                  <tr className="border-b border-[#E16428]/20">
+                    <th className="text-left text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Project</th>
+                    <th className="text-left text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Status</th>
+                    <th className="text-left text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Deadline</th>
+                    {showFinancials && (
+                      <>
+                        <th className="text-right text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Price</th>
+                        <th className="text-right text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Balance Due</th>
+                      </>
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {clientProjects.map(project => (
+                    <tr key={project.id} className="border-b border-[#E16428]/10 text-xs sm:text-sm">
+                      <td className="py-2 sm:py-3 px-1 text-[#F6E9E9] font-['Inter']">{project.projectId}</td>
+                      <td className={`py-2 sm:py-3 px-1 font-['Inter'] ${statusColors[project.status]}`}>{project.status}</td>
+                      <td className="py-2 sm:py-3 px-1 text-[#F6E9E9]/70 font-['Inter']">
+                        {project.deadlineDate ? new Date(project.deadlineDate).toLocaleDateString() : '-'}
+                      </td>
+                      {showFinancials && (
+                        <>
+                          <td className="py-2 sm:py-3 px-1 text-right text-[#E16428] font-['Inter']">LKR {project.price.toLocaleString()}</td>
+                          <td className={`py-2 sm:py-3 px-1 text-right font-['Inter'] ${getBalanceDue(project) > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                            LKR {getBalanceDue(project).toLocaleString()}
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </GlassCard>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fadeIn">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <h1 className="text-2xl sm:text-3xl font-bold text-[#F6E9E9] font-['Playfair_Display']">
+          Clients
+        </h1>
+        {canEdit && (
+          <button
+            onClick={handleAdd}
+            className="flex items-center space-x-2 bg-gradient-to-r from-[#E16428] to-[#E16428]/80 text-white px-4 sm:px-6 py-2 sm:py-3 rounded-lg hover:scale-105 transition-all duration-300 shadow-lg font-['Poppins'] group relative"
+            aria-label="Add Client (Alt+A)"
+            title="Add New Client (Alt+A)"
+          >
+            <Plus className="w-4 h-4 sm:w-5 sm:h-5" />
+            <span className="hidden sm:inline">Add Client</span>
+            <span className="sm:hidden">Add</span>
+            <div className="absolute -top-1 -right-1 bg-[#E16428] text-white text-xs px-1.5 py-0.5 rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-300 font-mono">
+              A
+            </div>
+          </button>
+        )}
+      </div>
+
+      {selectedClient ? (
+        renderDetail(selectedClient)
+      ) : (
+        <>
+          <div className="relative max-w-md">
+            <Search className="w-4 h-4 text-[#F6E9E9]/50 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search clients or organizations"
+              className="w-full pl-9 pr-3 py-2 rounded-lg bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] placeholder-[#F6E9E9]/50 focus:outline-none focus:border-[#E16428] text-sm font-['Inter']"
+            />
+          </div>
+
+          {loading ? (
+            <div className="text-center text-[#F6E9E9]/70">Loading clients...</div>
+          ) : filteredClients.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-[#F6E9E9]/50">
+              <AlertTriangle className="w-8 h-8 mb-2 text-[#E16428]/50" />
+              <p className="text-sm font-['Inter'] lowercase">no clients found</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
+              {filteredClients.map(client => {
+                const clientProjectList = projectsByClient[client.id] || [];
+                return (
+                  <button key={client.id} onClick={() => setSelectedClientId(client.id)} className="text-left">
+                    <GlassCard className="p-4 sm:p-6 h-full hover:border-[#E16428]/50 transition-all duration-300">
+                      <h3 className="text-[#F6E9E9] font-bold text-base truncate">{client.name}</h3>
+                      <p className="text-[#F6E9E9]/60 text-xs truncate mb-3">{client.uniOrg || 'No organization'}</p>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="flex items-center gap-1 text-[#F6E9E9]/80">
+                          <FolderOpen className="w-4 h-4 text-[#E16428]" />
+                          {clientProjectList.length} project{clientProjectList.length === 1 ? '' : 's'}
+                        </span>
+                        {showFinancials && (
+                          <span className="text-[#E16428] font-semibold">
+                            LKR {getLifetimeValue(clientProjectList).toLocaleString()}
+                          </span>
+                        )}
+                      </div>
+                    </GlassCard>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+
+      {isModalOpen && (
+        <ClientModal
+          client={editingClient}
+          onClose={handleModalClose}
+          onSave={handleSave}
+          organizations={organizations}
+        />
+      )}
+
+      {confirmDelete && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fadeIn p-4">
+          <div className="bg-[#272121] border border-[#E16428]/30 rounded-2xl shadow-2xl p-6 sm:p-8 max-w-xs w-full flex flex-col items-center">
+            <h3 className="text-lg font-bold text-[#F6E9E9] mb-2 font-['Poppins']">Delete Client?</h3>
+            <p className="text-[#F6E9E9]/70 text-center mb-6 font-['Inter']">
+              <span className="text-[#E16428] font-bold">{confirmDelete.name}</span> will be removed. Their projects are kept under the name they were saved with.
+            </p>
+            <div className="flex space-x-4">
+              <button
+                onClick={() => setConfirmDelete(null)}
+                className="px-5 py-2 rounded-lg bg-[#363333]/60 text-[#F6E9E9] hover:bg-[#E16428]/10 transition-all duration-300 font-['Poppins']"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmDelete}
+                className="px-5 py-2 rounded-lg bg-gradient-to-r from-red-500 to-red-600 text-white shadow-lg hover:scale-105 transition-all duration-300 font-['Poppins']"
+              >
+                Yes, Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
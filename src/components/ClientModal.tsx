@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { Client, Organization } from '../types';
+import { GlassCard } from './GlassCard';
+
+interface ClientModalProps {
+  client: Client | null;
+  onClose: () => void;
+  onSave: (client: Omit<Client, 'id' | 'organizationId'>) => void;
+  organizations?: Organization[];
+}
+
+const inputClass = "w-full px-4 py-3 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] placeholder-[#F6E9E9]/50 focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter']";
+
+export const ClientModal: React.FC<ClientModalProps> = ({
+  client,
+  onClose,
+  onSave,
+  organizations = [],
+}) => {
+  const [formData, setFormData] = useState({
+    name: '',
+    uniOrg: '',
+    email: '',
+    phone: '',
+    whatsappNumber: '',
+    notes: '',
+  });
+
+  useEffect(() => {
+    if (client) {
+      setFormData({
+        name: client.name,
+        uniOrg: client.uniOrg,
+        email: client.email,
+        phone: client.phone,
+        whatsappNumber: client.whatsappNumber,
+        notes: client.notes,
+      });
+    }
+  }, [client]);
+
+  // ESC key handler to close modal
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(formData);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <GlassCard className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-[#F6E9E9] font-['Playfair_Display']">
+              {client ? 'Edit Client' : 'Add New Client'}
+            </h2>
+            <button
+              onClick={onClose}
+              className="p-2 bg-[#272121]/50 text-[#F6E9E9] rounded-lg hover:bg-[#E16428]/20 transition-all duration-300"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
+                  University/Organization
+                </label>
+                <input
+                  type="text"
+                  value={formData.uniOrg}
+                  onChange={(e) => setFormData({ ...formData, uniOrg: e.target.value })}
+                  className={inputClass}
+                  list="client-modal-organizations"
+                />
+                <datalist id="client-modal-organizations">
+                  {organizations.map(org => (
+                    <option key={org.id} value={org.name} />
+                  ))}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
+                  Email Address
+                </label>
+                <input
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
+                  Phone
+                </label>
+                <input
+                  type="tel"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
+                  WhatsApp Number
+                </label>
+                <input
+                  type="tel"
+                  value={formData.whatsappNumber}
+                  onChange={(e) => setFormData({ ...formData, whatsappNumber: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
+                Notes
+              </label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                className={inputClass}
+                rows={3}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-4 pt-6">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-6 py-3 bg-[#272121]/50 text-[#F6E9E9] rounded-lg hover:bg-[#272121]/70 transition-all duration-300 font-['Poppins']"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                data-shortcut="save"
+                className="px-6 py-3 bg-gradient-to-r from-[#E16428] to-[#E16428]/80 text-white rounded-lg hover:scale-105 transition-all duration-300 shadow-lg font-['Poppins'] flex items-center gap-2"
+              >
+                {client ? 'Update' : 'Create'} Client
+                <kbd className="px-2 py-1 bg-white/20 rounded text-xs font-mono">Alt + S</kbd>
+              </button>
+            </div>
+          </form>
+        </div>
+      </GlassCard>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Combobox } from '@headlessui/react';
+import { Check, ChevronDown, Plus } from 'lucide-react';
+import { Client, Organization } from '../types';
+
+interface ClientPickerProps {
+  clients: Client[];
+  value: Client | null;
+  onChange: (client: Client) => void;
+  onCreate: (client: Omit<Client, 'id' | 'organizationId'>) => Promise<Client | null>;
+  loading?: boolean;
+  organizations?: Organization[];
+}
+
+// Placeholder option shown when the typed name does not match an existing client
+const NEW_CLIENT_ID = '__new__';
+
+const inputClass = "w-full px-4 py-3 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] placeholder-[#F6E9E9]/50 focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter']";
+
+export const ClientPicker: React.FC<ClientPickerProps> = ({ clients, value, onChange, onCreate, loading, organizations = [] }) => {
+  const [query, setQuery] = useState('');
+  const [draft, setDraft] = useState<Omit<Client, 'id' | 'organizationId'> | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  const search = query.trim().toLowerCase();
+  const filtered = search
+    ? clients.filter(c => c.name.toLowerCase().includes(search) || c.uniOrg.toLowerCase().includes(search))
+    : clients;
+  const exactMatch = clients.some(c => c.name.toLowerCase() === search);
+
+  const handleChange = (client: Client | null) => {
+    if (!client) return;
+    if (client.id === NEW_CLIENT_ID) {
+      setDraft({ name: query.trim(), uniOrg: '', email: '', phone: '', whatsappNumber: '', notes: '' });
+      setCreateError(null);
+      return;
+    }
+    onChange(client);
+  };
+
+  const handleCreate = async () => {
+    if (!draft || !draft.name.trim()) return;
+    setSaving(true);
+    const created = await onCreate(draft);
+    setSaving(false);
+    if (!created) {
+      setCreateError('Failed to create client');
+      return;
+    }
+    setDraft(null);
+    setQuery('');
+    onChange(created);
+  };
+
+  if (draft) {
+    return (
+      <div className="space-y-2 p-3 rounded-lg border border-[#E16428]/30 bg-[#272121]/40">
+        <p className="text-[#E16428] text-xs font-medium font-['Inter']">New client</p>
+        <input
+          type="text"
+          value={draft.name}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          className={inputClass}
+          placeholder="Client name"
+          autoFocus
+        />
+        <input
+          type="text"
+          value={draft.uniOrg}
+          onChange={e => setDraft({ ...draft, uniOrg: e.target.value })}
+          className={inputClass}
+          placeholder="University/Organization"
+          list="client-picker-organizations"
+        />
+        <datalist id="client-picker-organizations">
+          {organizations.map(org => (
+            <option key={org.id} value={org.name} />
+          ))}
+        </datalist>
+        <input
+          type="text"
+          value={draft.whatsappNumber}
+          onChange={e => setDraft({ ...draft, whatsappNumber: e.target.value })}
+          className={inputClass}
+          placeholder="WhatsApp number (optional)"
+        />
+        {createError && <div className="text-red-400 text-xs">{createError}</div>}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setDraft(null)}
+            className="flex-1 px-3 py-2 bg-[#272121]/50 text-[#F6E9E9] rounded-lg hover:bg-[#272121]/70 transition-all duration-300 text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={saving || !draft.name.trim()}
+            className="flex-1 px-3 py-2 bg-[#E16428] text-white rounded-lg hover:bg-[#d35400] transition-all duration-300 text-sm disabled:opacity-50"
+          >
+            {saving ? 'Creating...' : 'Create Client'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Combobox value={value} onChange={handleChange} onClose={() => setQuery('')} by="id">
+      <div className="relative">
+        <Combobox.Input
+          className={`${inputClass} pr-10`}
+          displayValue={(client: Client | null) => (client ? client.name : '')}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={loading ? 'Loading clients...' : 'Search or add a client'}
+        />
+        <Combobox.Button className="absolute inset-y-0 right-0 flex items-center pr-3">
+          <ChevronDown className="w-5 h-5 text-[#E16428]" />
+        </Combobox.Button>
+        <Combobox.Options className="absolute z-10 mt-1 w-full bg-[#272121] border border-[#E16428]/40 rounded-lg shadow-lg max-h-60 overflow-auto">
+          {filtered.map(client => (
+            <Combobox.Option
+              key={client.id}
+              value={client}
+              className={({ active, selected }: { active: boolean; selected: boolean }) =>
+                `cursor-pointer select-none px-4 py-2 ${
+                  active
+                    ? 'bg-[#E16428]/20 text-[#E16428]'
+                    : selected
+                    ? 'bg-[#E16428]/10 text-[#F6E9E9]'
+                    : 'text-[#F6E9E9]'
+                }`
+              }
+            >
+              {({ selected }: { selected: boolean }) => (
+                <span className="flex items-center justify-between">
+                  <span>
+                    {client.name}
+                    {client.uniOrg && <span className="text-[#F6E9E9]/50 text-xs ml-2">{client.uniOrg}</span>}
+                  </span>
+                  {selected && <Check className="w-4 h-4 ml-2 text-[#E16428]" />}
+                </span>
+              )}
+            </Combobox.Option>
+          ))}
+          {search && !exactMatch && (
+            <Combobox.Option
+              value={{ id: NEW_CLIENT_ID } as Client}
+              className={({ active }: { active: boolean }) =>
+                `cursor-pointer select-none px-4 py-2 flex items-center gap-2 ${active ? 'bg-[#E16428]/20 text-[#E16428]' : 'text-[#E16428]/80'}`
+              }
+            >
+              <Plus className="w-4 h-4" />
+              Create "{query.trim()}"
+            </Combobox.Option>
+          )}
+          {filtered.length === 0 && !search && (
+            <div className="px-4 py-2 text-[#F6E9E9]/70 text-center">No clients yet</div>
+          )}
+        </Combobox.Options>
+      </div>
+    </Combobox>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+export interface ConflictField {
+  key: string;
+  label: string;
+  base: string; // value when the form was opened
+  mine: string;
+  theirs: string;
+}
+
+interface ConflictDiffProps {
+  fields: ConflictField[]; // only the fields where the two versions differ
+  onSave: (theirsKeys: string[]) => void;
+  onDiscard: () => void;
+}
+
+// Side-by-side view of a stale save: each field starts on the side that changed it, and the user can merge or overwrite
+export const ConflictDiff: React.FC<ConflictDiffProps> = ({ fields, onSave, onDiscard }) => {
+  const [choices, setChoices] = useState<Record<string, 'mine' | 'theirs'>>(() =>
+    Object.fromEntries(fields.map(field => [field.key, field.mine !== field.base ? 'mine' : 'theirs']))
+  );
+
+  const theirsKeys = fields.filter(field => choices[field.key] === 'theirs').map(field => field.key);
+
+  const optionClass = (selected: boolean) =>
+    `flex-1 text-left px-3 py-2 rounded-lg border text-sm font-['Inter'] transition-all duration-200 ${
+      selected
+        ? 'bg-[#E16428]/20 border-[#E16428] text-[#F6E9E9]'
+        : 'bg-[#272121]/50 border-[#E16428]/20 text-[#F6E9E9]/60 hover:bg-[#E16428]/10'
+    }`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-3 p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+        <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+        <p className="text-[#F6E9E9] text-sm font-['Inter']">
+          Someone else saved this record while you were editing it. Pick which value to keep for each field.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-[8rem_1fr_1fr] gap-2 text-xs text-[#F6E9E9]/60 font-['Inter'] px-1">
+        <span>Field</span>
+        <span>Theirs</span>
+        <span>Yours</span>
+      </div>
+      {fields.map(field => (
+        <div key={field.key} className="grid grid-cols-[8rem_1fr_1fr] gap-2 items-stretch">
+          <span className="text-[#F6E9E9] text-sm font-medium font-['Inter'] self-center">{field.label}</span>
+          <button
+            type="button"
+            className={optionClass(choices[field.key] === 'theirs')}
+            onClick={() => setChoices(prev => ({ ...prev, [field.key]: 'theirs' }))}
+          >
+            {field.theirs || '—'}
+          </button>
+          <button
+            type="button"
+            className={optionClass(choices[field.key] === 'mine')}
+            onClick={() => setChoices(prev => ({ ...prev, [field.key]: 'mine' }))}
+          >
+            {field.mine || '—'}
+          </button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap justify-end gap-3 pt-4">
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="px-4 py-3 bg-[#272121]/50 text-[#F6E9E9] rounded-lg hover:bg-[#272121]/70 transition-all duration-300 font-['Poppins']"
+        >
+          Discard my changes
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave([])}
+          className="px-4 py-3 bg-[#272121]/50 border border-[#E16428]/40 text-[#F6E9E9] rounded-lg hover:bg-[#E16428]/10 transition-all duration-300 font-['Poppins']"
+        >
+          Overwrite with mine
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave(theirsKeys)}
+          className="px-4 py-3 bg-gradient-to-r from-[#E16428] to-[#E16428]/80 text-white rounded-lg hover:scale-105 transition-all duration-300 shadow-lg font-['Poppins']"
+        >
+          Save merged
+        </button>
+      </div>
+    </div>
+  );
+};
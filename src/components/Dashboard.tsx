@@ -1,21 +1,21 @@
 import React, { useEffect, useState } from 'react';
 import { DollarSign, Clock, CheckCircle, Users } from 'lucide-react';
-import { Project, Employee } from '../types';
+import { Role } from '../types';
 import { GlassCard } from './GlassCard';
-import { useSupabaseConnection } from '../hooks/useSupabaseConnection';
-import { supabase } from '../supabaseClient';
+import { can } from '../permissions';
+import { useEmployeeStore, useProjectStore } from '../store/context';
+import { isAssignedTo } from '../utils/assignees';
 
 interface DashboardProps {
-  projects: Project[];
-  employees: Employee[];
+  role: Role;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ projects, employees }) => {
-  useSupabaseConnection();
+export const Dashboard: React.FC<DashboardProps> = ({ role }) => {
+  const { projects } = useProjectStore();
+  const { employees } = useEmployeeStore();
   const now = new Date();
   const [selectedMonth, setSelectedMonth] = useState(now.getMonth());
   const [selectedYear, setSelectedYear] = useState(now.getFullYear());
-  const [projectTypes, setProjectTypes] = React.useState<{ id: string; name: string }[]>([]);
 
   // Filter projects by selected month and year
   const filteredProjects = projects.filter(project => {
@@ -45,27 +45,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ projects, employees }) =>
   const completedProjects = filteredProjects.filter(p => p.status === 'Delivered').length;
   const runningProjects = filteredProjects.filter(p => p.status === 'Running').length;
 
-  React.useEffect(() => {
-    async function fetchTypes() {
-      const { data } = await supabase.from('project_types').select('*');
-      if (data) setProjectTypes(data);
-    }
-    fetchTypes();
-  }, []);
-
-  const getProjectTypeNames = (projectDescription: string) => {
-    if (!projectDescription) return 'No types specified';
-    const typeIds = projectDescription.split(',').map(id => id.trim());
-    const typeNames = typeIds.map(id => {
-      const type = projectTypes.find(t => t.id === id);
-      return type ? type.name : `Unknown Type (${id})`;
-    });
-    return typeNames.join(', ');
-  };
-
   const stats = [
     {
       title: 'Total Revenue',
+      financial: true,
       value: `LKR ${totalRevenue.toLocaleString()}`,
       icon: DollarSign,
       color: 'from-emerald-400 to-emerald-600',
@@ -146,7 +129,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ projects, employees }) =>
       </div>
 
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
-        {stats.map((stat, index) => {
+        {stats.filter(stat => !stat.financial || can(role, 'view_financials')).map((stat, index) => {
           const Icon = stat.icon;
           return (
             <GlassCard key={index} className="p-4 sm:p-6 hover:scale-105 transition-transform duration-300">
@@ -190,8 +173,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ projects, employees }) =>
                   }`}>{project.status}</span>
                 </div>
                 <div className="flex flex-wrap gap-1 mt-1">
-                  {getProjectTypeNames(project.projectDescription).split(', ').map((type, idx) => (
-                    <span key={idx} className="bg-[#E16428]/20 text-[#E16428] rounded-full px-2 py-0.5 text-[10px] font-medium lowercase max-w-[80px] truncate">{type}</span>
+                  {project.projectTypes.map(type => (
+                    <span key={type.id} className="bg-[#E16428]/20 text-[#E16428] rounded-full px-2 py-0.5 text-[10px] font-medium lowercase max-w-[80px] truncate">{type.name}</span>
                   ))}
                 </div>
                 <div className="flex items-center gap-2 mt-1">
@@ -225,8 +208,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ projects, employees }) =>
                     <span className={`ml-auto px-2 py-0.5 rounded-full text-[10px] font-semibold bg-blue-500/20 text-blue-300`}>Running</span>
                   </div>
                   <div className="flex flex-wrap gap-1 mt-1">
-                    {getProjectTypeNames(project.projectDescription).split(', ').map((type, idx) => (
-                      <span key={idx} className="bg-[#E16428]/20 text-[#E16428] rounded-full px-2 py-0.5 text-[10px] font-medium lowercase max-w-[80px] truncate">{type}</span>
+                    {project.projectTypes.map(type => (
+                      <span key={type.id} className="bg-[#E16428]/20 text-[#E16428] rounded-full px-2 py-0.5 text-[10px] font-medium lowercase max-w-[80px] truncate">{type.name}</span>
                     ))}
                   </div>
                   <div className="flex items-center gap-2 mt-1">
@@ -248,7 +231,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ projects, employees }) =>
           </h2>
           <div className="space-y-3">
             {employees.slice(0, 5).map((employee) => {
-              const filteredEmployeeProjects = filteredProjects.filter(p => p.assignedTo === employee.id);
+              const filteredEmployeeProjects = filteredProjects.filter(p => isAssignedTo(p, employee.id));
               const completedCount = filteredEmployeeProjects.filter(p => p.status === 'Delivered').length;
               
               return (
@@ -1,42 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Mail, Phone, MapPin, Cake, User, Briefcase, GraduationCap, AtSign, MessageCircle, Clock, AlertTriangle } from 'lucide-react';
-import { Employee } from '../types';
+import { Plus, Edit, Trash2, Mail, Phone, MapPin, Cake, User, Briefcase, GraduationCap, AtSign, MessageCircle, Clock, AlertTriangle, Wallet, CloudOff, ArrowRightLeft } from 'lucide-react';
+import { Employee, Role } from '../types';
 import { GlassCard } from './GlassCard';
 import { EmployeeModal } from './EmployeeModal';
-import { supabase } from '../supabaseClient';
+import { EmployeePayoutsModal } from './EmployeePayoutsModal';
+import { ReassignProjectsModal } from './ReassignProjectsModal';
+import { useEmployeeStore, useOutboxStore, useProjectStore } from '../store/context';
+import { useEmployeePayouts } from '../hooks/useEmployeePayouts';
+import { getOutstandingEarnings } from '../utils/payouts';
+import { EMPLOYEE_STATUS_LABELS, getOpenProjects } from '../utils/employees';
+import { useNotifications } from '../store/notifications';
+import { can } from '../permissions';
 
 interface EmployeeManagementProps {
-  // No longer need employees, add, update, delete as props
-}
-
-// Helper: camelCase <-> snake_case mapping
-function toSupabaseEmployee(employee: any) {
-  return {
-    employee_id: employee.employeeId,
-    birthday: employee.birthday,
-    first_name: employee.firstName,
-    last_name: employee.lastName,
-    position: employee.position,
-    address: employee.address,
-    whatsapp: employee.whatsappNumber,
-    email: employee.emailAddress,
-    qualifications: employee.qualifications,
-  };
-}
-function fromSupabaseEmployee(row: any) {
-  return {
-    id: row.id,
-    employeeId: row.employee_id,
-    birthday: row.birthday,
-    firstName: row.first_name,
-    lastName: row.last_name,
-    position: row.position,
-    address: row.address,
-    whatsappNumber: row.whatsapp,
-    emailAddress: row.email,
-    qualifications: row.qualifications,
-    createdAt: row.created_at,
-  };
+  role: Role;
 }
 
 // Helper to calculate age from birthday
@@ -52,51 +29,24 @@ function getAge(birthday: string) {
   return age;
 }
 
-export const EmployeeManagement: React.FC<EmployeeManagementProps> = () => {
-  const [employees, setEmployees] = useState<Employee[]>([]);
-  const [loading, setLoading] = useState(true);
+export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ role }) => {
+  // Projects are used to work out what each employee is still owed
+  const { projects, reassignProjects } = useProjectStore();
+  const { employees, loading, addEmployee, updateEmployee, deleteEmployee } = useEmployeeStore();
+  const { pendingIds } = useOutboxStore();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null);
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
   const [deletingEmployee, setDeletingEmployee] = useState<Employee | null>(null);
+  const [payoutsEmployee, setPayoutsEmployee] = useState<Employee | null>(null);
+  const [reassigningEmployee, setReassigningEmployee] = useState<Employee | null>(null);
+  const { notify } = useNotifications();
+  const { payouts, addPayout, deletePayout, error: payoutsError } = useEmployeePayouts();
 
-  // Fetch employees from Supabase
-  useEffect(() => {
-    async function fetchEmployees() {
-      setLoading(true);
-      const { data, error } = await supabase.from('employees').select('*');
-      if (!error && data) setEmployees(data.map(fromSupabaseEmployee));
-      setLoading(false);
-    }
-    fetchEmployees();
-  }, []);
-
-  const addEmployee = async (employee: any) => {
-    const { data, error } = await supabase.from('employees').insert([toSupabaseEmployee(employee)]).select();
-    if (!error && data && data[0]) {
-      setEmployees(prev => [...prev, fromSupabaseEmployee(data[0])]);
-    }
-  };
-
-  const updateEmployee = async (id: any, updates: any) => {
-    const { data, error } = await supabase
-      .from('employees')
-      .update(toSupabaseEmployee(updates))
-      .eq('id', id)
-      .select();
-    if (!error && data && data[0]) {
-      setEmployees(prev =>
-        prev.map(emp => (emp.id === id ? fromSupabaseEmployee(data[0]) : emp))
-      );
-    }
-  };
-
-  const deleteEmployee = async (id: any) => {
-    const { error } = await supabase.from('employees').delete().eq('id', id);
-    if (!error) {
-      setEmployees(prev => prev.filter(emp => emp.id !== id));
-    }
-  };
+  const showFinancials = can(role, 'view_financials');
+  const canEdit = can(role, 'edit_employees');
+  const canDelete = can(role, 'delete_employees');
+  const canManagePayouts = can(role, 'manage_payouts');
 
   const handleEdit = (employee: Employee) => {
     setEditingEmployee(employee);
@@ -118,14 +68,30 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = () => {
     setDeletingEmployee(employee);
   };
 
+  // Employees still working on open projects cannot be deleted; that work would be left unassigned
+  const deletingEmployeeProjects = deletingEmployee ? getOpenProjects(deletingEmployee.id, projects).length : 0;
+
   const handleConfirmDelete = () => {
-    if (confirmDeleteId) {
+    if (confirmDeleteId && deletingEmployeeProjects === 0) {
       deleteEmployee(confirmDeleteId);
       setConfirmDeleteId(null);
       setDeletingEmployee(null);
     }
   };
 
+  const handleReassign = async (assignments: { projectId: string; employeeId: string }[]) => {
+    if (!reassigningEmployee) return 0;
+    const moved = await reassignProjects(reassigningEmployee.id, assignments);
+    if (moved > 0) {
+      notify(
+        `Moved ${moved} project${moved === 1 ? '' : 's'} from ${reassigningEmployee.firstName} ${reassigningEmployee.lastName}`,
+        'success',
+        { toast: true }
+      );
+    }
+    return moved;
+  };
+
   const handleCancelDelete = () => {
     setConfirmDeleteId(null);
     setDeletingEmployee(null);
@@ -139,7 +105,7 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = () => {
         return;
       }
       // Alt + A: Open add employee form
-      if (e.altKey && e.key === 'a') {
+      if (e.altKey && e.key === 'a' && canEdit) {
         e.preventDefault();
         handleAdd();
       }
@@ -165,7 +131,7 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = () => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isModalOpen, confirmDeleteId]);
+  }, [isModalOpen, confirmDeleteId, canEdit]);
 
   return (
     <div className="space-y-4 sm:space-y-6 animate-fadeIn">
@@ -173,6 +139,7 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = () => {
         <h1 className="text-2xl sm:text-3xl font-bold text-[#F6E9E9] font-['Playfair_Display']">
           Employee Management
         </h1>
+        {canEdit && (
         <button
           onClick={handleAdd}
           className="flex items-center space-x-2 bg-gradient-to-r from-[#E16428] to-[#E16428]/80 text-white px-4 sm:px-6 py-2 sm:py-3 rounded-lg hover:scale-105 transition-all duration-300 shadow-lg font-['Poppins'] group relative"
@@ -186,6 +153,7 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = () => {
             A
           </div>
         </button>
+        )}
       </div>
 
       {loading ? (
@@ -193,7 +161,7 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = () => {
       ) : (
       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
         {employees.map((employee) => (
-            <GlassCard key={employee.id} className="p-3 sm:p-4 rounded-2xl shadow-lg hover:scale-105 hover:shadow-2xl transition-all duration-300 bg-[#272121]/60 border border-[#E16428]/10">
+            <GlassCard key={employee.id} className={`p-3 sm:p-4 rounded-2xl shadow-lg hover:scale-105 hover:shadow-2xl transition-all duration-300 bg-[#272121]/60 border border-[#E16428]/10 ${employee.status === 'active' ? '' : 'opacity-70'}`}>
               <div className="flex items-center space-x-3 mb-2">
                 <div className="w-10 h-10 sm:w-12 sm:h-12 bg-gradient-to-r from-[#E16428] to-[#F6E9E9] rounded-full flex items-center justify-center flex-shrink-0">
                   <User className="w-5 h-5 text-white" />
@@ -201,6 +169,11 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = () => {
                 <div className="min-w-0 flex-1">
                   <h3 className="text-base sm:text-lg font-semibold text-[#F6E9E9] font-['Poppins'] truncate">
                     {employee.firstName} {employee.lastName}
+                    {employee.status !== 'active' && (
+                      <span className={`ml-2 text-xs font-medium ${employee.status === 'left' ? 'text-red-400' : 'text-yellow-400'}`}>
+                        {EMPLOYEE_STATUS_LABELS[employee.status]}
+                      </span>
+                    )}
                   </h3>
                   <div className="flex items-center text-xs text-[#E16428] font-medium space-x-1">
                     <Cake className="w-4 h-4" />
@@ -210,6 +183,12 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = () => {
                 <div className="flex flex-col items-end">
                   <span className="text-[10px] text-[#F6E9E9]/60">ID</span>
                   <span className="text-xs text-[#E16428] font-bold">{employee.employeeId}</span>
+                  {pendingIds.has(employee.id) && (
+                    <span className="flex items-center gap-1 text-[10px] text-[#F6E9E9]/60" title="Saved on this device; waiting for the connection">
+                      <CloudOff className="w-3 h-3" />
+                      not synced
+                    </span>
+                  )}
                 </div>
               </div>
               <div className="space-y-1 text-sm">
@@ -237,21 +216,52 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = () => {
                   <GraduationCap className="w-4 h-4" />
                   <span className="truncate">{employee.qualifications}</span>
                 </div>
+                {showFinancials && (() => {
+                  const outstanding = getOutstandingEarnings(employee.id, projects, payouts);
+                  return (
+                    <div className={`flex items-center space-x-2 ${outstanding > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                      <Wallet className="w-4 h-4" />
+                      <span>Outstanding: LKR {outstanding.toLocaleString()}</span>
+                    </div>
+                  );
+                })()}
               </div>
               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between pt-3 mt-2 border-t border-[#E16428]/10">
                 <div className="flex space-x-2 mb-2 sm:mb-0">
+                  {canEdit && (
                   <button
                     onClick={() => handleEdit(employee)}
                     className="p-1.5 sm:p-2 bg-[#E16428]/20 text-[#E16428] rounded-lg hover:bg-[#E16428]/30 transition-all duration-300"
                   >
                     <Edit className="w-4 h-4" />
                   </button>
+                  )}
+                  {canDelete && (
                   <button
                     onClick={() => handleDelete(employee)}
                     className="p-1.5 sm:p-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-all duration-300"
                   >
                     <Trash2 className="w-4 h-4" />
                   </button>
+                  )}
+                  {canEdit && getOpenProjects(employee.id, projects).length > 0 && (
+                  <button
+                    onClick={() => setReassigningEmployee(employee)}
+                    className="p-1.5 sm:p-2 rounded-lg bg-blue-500/20 hover:bg-blue-500/30 transition"
+                    title="Reassign open projects"
+                  >
+                    <ArrowRightLeft className="w-4 h-4 text-blue-400" />
+                  </button>
+                  )}
+                  {canManagePayouts && (
+                  <button
+                    onClick={() => setPayoutsEmployee(employee)}
+                    className="p-1.5 sm:p-2 rounded-lg bg-green-500/20 hover:bg-green-500/30 transition"
+                    title="Payouts & Payslips"
+                  >
+                    <Wallet className="w-4 h-4 text-green-400" />
+                  </button>
+                  )}
                   <button
                     onClick={() => window.open(`mailto:${employee.emailAddress}`)}
                     className="p-1.5 sm:p-2 rounded-lg bg-[#E16428]/20 hover:bg-[#E16428]/40 transition"
@@ -281,17 +291,49 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = () => {
         <EmployeeModal
           employee={editingEmployee}
           onClose={handleModalClose}
-          onSave={async (employeeData) => {
+          onSave={async (employeeData, baseUpdatedAt) => {
             if (editingEmployee) {
-              await updateEmployee(editingEmployee.id, employeeData);
-            } else {
-              await addEmployee(employeeData);
+              // A conflict stays in the modal for merging; a failed save keeps the form for another try
+              const result = await updateEmployee(editingEmployee.id, employeeData, baseUpdatedAt);
+              if (result.status === 'saved') {
+                handleModalClose();
+                // Someone who stops taking work hands over what they are still working on
+                const stoppedWork = employeeData.status !== 'active' && editingEmployee.status === 'active';
+                if (stoppedWork && getOpenProjects(editingEmployee.id, projects).length > 0) {
+                  setReassigningEmployee({ ...editingEmployee, ...employeeData });
+                }
+              }
+              return result;
             }
+            await addEmployee(employeeData);
             handleModalClose();
+            return { status: 'saved' };
           }}
         />
       )}
 
+      {payoutsEmployee && (
+        <EmployeePayoutsModal
+          employee={payoutsEmployee}
+          projects={projects}
+          payouts={payouts}
+          onClose={() => setPayoutsEmployee(null)}
+          onAddPayout={addPayout}
+          onDeletePayout={deletePayout}
+          error={payoutsError}
+        />
+      )}
+
+      {reassigningEmployee && (
+        <ReassignProjectsModal
+          employee={reassigningEmployee}
+          projects={projects}
+          employees={employees}
+          onClose={() => setReassigningEmployee(null)}
+          onReassign={handleReassign}
+        />
+      )}
+
       {confirmDeleteId && deletingEmployee && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fadeIn">
           <div className="bg-[#272121] rounded-2xl p-6 max-w-md w-full mx-4 border border-[#E16428]/20 shadow-2xl animate-scaleIn">
@@ -308,9 +350,15 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = () => {
                 are you sure you want to delete{' '}
                 <span className="text-[#E16428] font-semibold">{deletingEmployee.firstName} {deletingEmployee.lastName}</span>?
                 <br />
-                <span className="text-xs text-[#F6E9E9]/50">
-                  this action cannot be undone.
-                </span>
+                {deletingEmployeeProjects > 0 ? (
+                  <span className="text-xs text-red-400">
+                    they are assigned to {deletingEmployeeProjects} open project{deletingEmployeeProjects === 1 ? '' : 's'}; reassign {deletingEmployeeProjects === 1 ? 'it' : 'them'} first.
+                  </span>
+                ) : (
+                  <span className="text-xs text-[#F6E9E9]/50">
+                    they move to the trash, where they can be restored from settings.
+                  </span>
+                )}
               </p>
               
               <div className="flex space-x-3">
@@ -322,7 +370,8 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = () => {
                 </button>
                 <button
                   onClick={handleConfirmDelete}
-                  className="flex-1 px-4 py-3 bg-gradient-to-r from-red-500 to-red-600 text-white rounded-lg hover:scale-105 transition-all duration-300 shadow-lg font-['Poppins']"
+                  disabled={deletingEmployeeProjects > 0}
+                  className="flex-1 px-4 py-3 bg-gradient-to-r from-red-500 to-red-600 text-white rounded-lg hover:scale-105 transition-all duration-300 shadow-lg font-['Poppins'] disabled:opacity-50 disabled:hover:scale-100"
                 >
                   delete
                 </button>
@@ -1,20 +1,38 @@
 import React, { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
-import { Employee } from '../types';
+import { Employee, EmployeeStatus, SaveResult } from '../types';
+import { EMPLOYEE_STATUSES, EMPLOYEE_STATUS_LABELS } from '../utils/employees';
 import { GlassCard } from './GlassCard';
+import { ConflictDiff, ConflictField } from './ConflictDiff';
 
 interface EmployeeModalProps {
   employee: Employee | null;
   onClose: () => void;
-  onSave: (employee: Omit<Employee, 'id'>) => void;
+  // baseUpdatedAt is the version the edit was made against
+  onSave: (employee: Omit<Employee, 'id'>, baseUpdatedAt?: string) => Promise<SaveResult<Employee>>;
 }
 
+type EmployeeForm = Omit<Employee, 'id' | 'createdAt' | 'updatedAt' | 'deletedAt'>;
+
+const EMPLOYEE_FIELDS: { key: keyof EmployeeForm; label: string }[] = [
+  { key: 'employeeId', label: 'Employee ID' },
+  { key: 'birthday', label: 'Birthday' },
+  { key: 'firstName', label: 'First Name' },
+  { key: 'lastName', label: 'Last Name' },
+  { key: 'position', label: 'Position' },
+  { key: 'address', label: 'Address' },
+  { key: 'whatsappNumber', label: 'WhatsApp Number' },
+  { key: 'emailAddress', label: 'Email Address' },
+  { key: 'qualifications', label: 'Qualifications' },
+  { key: 'status', label: 'Status' },
+];
+
 export const EmployeeModal: React.FC<EmployeeModalProps> = ({
   employee,
   onClose,
   onSave,
 }) => {
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<EmployeeForm>({
     employeeId: '',
     birthday: '',
     firstName: '',
@@ -24,7 +42,10 @@ export const EmployeeModal: React.FC<EmployeeModalProps> = ({
     whatsappNumber: '',
     emailAddress: '',
     qualifications: '',
+    status: 'active',
   });
+  const [baseUpdatedAt, setBaseUpdatedAt] = useState(employee?.updatedAt);
+  const [conflict, setConflict] = useState<{ mine: EmployeeForm; current: Employee } | null>(null);
 
   useEffect(() => {
     if (employee) {
@@ -38,6 +59,7 @@ export const EmployeeModal: React.FC<EmployeeModalProps> = ({
         whatsappNumber: employee.whatsappNumber,
         emailAddress: employee.emailAddress,
         qualifications: employee.qualifications,
+        status: employee.status,
       });
     }
   }, [employee]);
@@ -54,11 +76,42 @@ export const EmployeeModal: React.FC<EmployeeModalProps> = ({
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [onClose]);
 
+  // Fields where the user's save and the other one disagree
+  const getConflictFields = (mine: EmployeeForm, current: Employee): ConflictField[] =>
+    EMPLOYEE_FIELDS
+      .map(({ key, label }) => ({ key, label, base: employee?.[key] ?? '', mine: mine[key], theirs: current[key] }))
+      .filter(field => field.mine !== field.theirs);
+
+  const save = async (data: EmployeeForm, base: string | undefined) => {
+    const result = await onSave(data, base);
+    if (result.status !== 'conflict') return;
+
+    // Nothing the two saves disagree on: write again on top of their version
+    if (getConflictFields(data, result.current).length === 0) {
+      await save(data, result.current.updatedAt);
+      return;
+    }
+    setConflict({ mine: data, current: result.current });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave(formData);
+    save(formData, baseUpdatedAt);
+  };
+
+  const handleResolve = (theirsKeys: string[]) => {
+    if (!conflict) return;
+    const merged: EmployeeForm = {
+      ...conflict.mine,
+      ...Object.fromEntries(theirsKeys.map(key => [key, conflict.current[key as keyof EmployeeForm]])),
+    };
+    setFormData(merged);
+    setBaseUpdatedAt(conflict.current.updatedAt);
+    setConflict(null);
+    save(merged, conflict.current.updatedAt);
   };
 
+
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
       <GlassCard className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -75,6 +128,13 @@ export const EmployeeModal: React.FC<EmployeeModalProps> = ({
             </button>
           </div>
 
+          {conflict ? (
+            <ConflictDiff
+              fields={getConflictFields(conflict.mine, conflict.current)}
+              onSave={handleResolve}
+              onDiscard={onClose}
+            />
+          ) : (
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
@@ -129,17 +189,35 @@ export const EmployeeModal: React.FC<EmployeeModalProps> = ({
               </div>
             </div>
 
-            <div>
-              <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
-                Position
-              </label>
-              <input
-                type="text"
-                value={formData.position}
-                onChange={(e) => setFormData({ ...formData, position: e.target.value })}
-                className="w-full px-4 py-3 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] placeholder-[#F6E9E9]/50 focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter']"
-                required
-              />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
+                  Position
+                </label>
+                <input
+                  type="text"
+                  value={formData.position}
+                  onChange={(e) => setFormData({ ...formData, position: e.target.value })}
+                  className="w-full px-4 py-3 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] placeholder-[#F6E9E9]/50 focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter']"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
+                  Status
+                </label>
+                <select
+                  value={formData.status}
+                  onChange={(e) => setFormData({ ...formData, status: e.target.value as EmployeeStatus })}
+                  className="w-full px-4 py-3 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter']"
+                >
+                  {EMPLOYEE_STATUSES.map(status => (
+                    <option key={status} value={status} className="bg-[#272121]">
+                      {EMPLOYEE_STATUS_LABELS[status]}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             <div>
@@ -214,6 +292,7 @@ export const EmployeeModal: React.FC<EmployeeModalProps> = ({
               </button>
             </div>
           </form>
+          )}
         </div>
       </GlassCard>
     </div>
@@ -0,0 +1,500 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import jsPDF from 'jspdf';
+import { X, Wallet, Trash2, FileText, Check } from 'lucide-react';
+import { Employee, EmployeePayout, EmployeePayoutItem, PaymentMethod, Project } from '../types';
+import { GlassCard } from './GlassCard';
+import { PAYMENT_METHODS } from '../utils/payments';
+import { getPayableProjects, getUnpaidEarnings } from '../utils/payouts';
+import { getShare } from '../utils/assignees';
+import { addPdfFooter, addPdfHeader, PDF_MARGIN } from '../utils/pdf';
+
+interface EmployeePayoutsModalProps {
+  employee: Employee;
+  projects: Project[];
+  payouts: EmployeePayout[];
+  onClose: () => void;
+  onAddPayout: (
+    payout: Omit<EmployeePayout, 'id' | 'amount' | 'items'>,
+    items: Omit<EmployeePayoutItem, 'id' | 'payoutId'>[]
+  ) => Promise<boolean>;
+  onDeletePayout: (id: string) => Promise<void>;
+  error?: string | null;
+}
+
+export const EmployeePayoutsModal: React.FC<EmployeePayoutsModalProps> = ({
+  employee,
+  projects,
+  payouts,
+  onClose,
+  onAddPayout,
+  onDeletePayout,
+  error,
+}) => {
+  const today = new Date();
+  const [selectedAmounts, setSelectedAmounts] = useState<Record<string, number>>({});
+  const [payoutDate, setPayoutDate] = useState(today.toISOString().slice(0, 10));
+  const [method, setMethod] = useState<PaymentMethod>('Bank Transfer');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [deletingPayout, setDeletingPayout] = useState<EmployeePayout | null>(null);
+  const [payslipMonth, setPayslipMonth] = useState(today.getMonth());
+  const [payslipYear, setPayslipYear] = useState(today.getFullYear());
+
+  const employeePayouts = useMemo(
+    () => payouts.filter(payout => payout.employeeId === employee.id),
+    [payouts, employee.id]
+  );
+  const payableProjects = useMemo(
+    () => getPayableProjects(employee.id, projects, payouts),
+    [employee.id, projects, payouts]
+  );
+  const outstanding = payableProjects.reduce((sum, project) => sum + getUnpaidEarnings(project, employee.id, payouts), 0);
+  const selectedTotal = Object.values(selectedAmounts).reduce((sum, amount) => sum + amount, 0);
+  const years = Array.from(new Set([today.getFullYear(), ...employeePayouts.map(p => new Date(p.payoutDate).getFullYear())])).sort((a, b) => b - a);
+
+  // ESC key handler to close modal (or the delete confirmation first)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        if (deletingPayout) {
+          setDeletingPayout(null);
+        } else {
+          onClose();
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, deletingPayout]);
+
+  const projectLabel = (projectId: string) => {
+    const project = projects.find(p => p.id === projectId);
+    return project ? project.projectId : 'Deleted project';
+  };
+
+  const toggleProject = (project: Project) => {
+    setSelectedAmounts(prev => {
+      const next = { ...prev };
+      if (next[project.id] !== undefined) {
+        delete next[project.id];
+      } else {
+        next[project.id] = getUnpaidEarnings(project, employee.id, payouts);
+      }
+      return next;
+    });
+  };
+
+  const handleRecordPayout = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = Object.entries(selectedAmounts)
+      .filter(([, amount]) => amount > 0)
+      .map(([projectId, amount]) => ({ projectId, amount }));
+    if (items.length === 0) return;
+    setSaving(true);
+    // A failed payout keeps the selection so it can be sent again
+    if (await onAddPayout({ employeeId: employee.id, payoutDate, method, reference, notes }, items)) {
+      setSelectedAmounts({});
+      setReference('');
+      setNotes('');
+    }
+    setSaving(false);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deletingPayout) return;
+    setSaving(true);
+    await onDeletePayout(deletingPayout.id);
+    setDeletingPayout(null);
+    setSaving(false);
+  };
+
+  // Monthly payslip using the same PDF layout as the analytics report
+  const handleDownloadPayslip = async () => {
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const margin = PDF_MARGIN;
+    const monthName = new Date(payslipYear, payslipMonth).toLocaleString('default', { month: 'long' });
+
+    let yPosition = await addPdfHeader(pdf, margin);
+
+    // Title
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(16);
+    pdf.setTextColor(30, 30, 30);
+    pdf.text(`Payslip - ${monthName} ${payslipYear}`, pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 10;
+
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(11);
+    pdf.setTextColor(80, 80, 80);
+    pdf.text(`Generated: ${today.toLocaleDateString('en-GB')}`, pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 15;
+
+    // Employee details
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(14);
+    pdf.setTextColor(30, 30, 30);
+    pdf.text('EMPLOYEE', margin, yPosition);
+    yPosition += 8;
+
+    pdf.setFontSize(9);
+    const details = [
+      ['Name', `${employee.firstName} ${employee.lastName}`],
+      ['Employee ID', employee.employeeId],
+      ['Position', employee.position || '-'],
+      ['Email', employee.emailAddress || '-'],
+    ];
+    details.forEach(([label, value]) => {
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(60, 60, 60);
+      pdf.text(label, margin, yPosition);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(30, 30, 30);
+      pdf.text(value, margin + 40, yPosition);
+      yPosition += 5;
+    });
+    yPosition += 10;
+
+    // Payouts made during the month, one row per project settled
+    const monthPayouts = employeePayouts
+      .filter(payout => {
+        const date = new Date(payout.payoutDate);
+        return date.getMonth() === payslipMonth && date.getFullYear() === payslipYear;
+      })
+      .sort((a, b) => a.payoutDate.localeCompare(b.payoutDate));
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(14);
+    pdf.setTextColor(30, 30, 30);
+    pdf.text('PAYMENTS', margin, yPosition);
+    yPosition += 8;
+
+    pdf.setFontSize(10);
+    pdf.setTextColor(60, 60, 60);
+    const headers = ['Date', 'Project', 'Client', 'Method', 'Reference', 'Amount'];
+    const colWidths = [22, 22, 45, 25, 30, 26];
+    let xPos = margin;
+
+    pdf.setFillColor(240, 240, 240);
+    pdf.rect(margin, yPosition - 3, pageWidth - (margin * 2), 8, 'F');
+    headers.forEach((header, index) => {
+      pdf.text(header, xPos, yPosition);
+      xPos += colWidths[index];
+    });
+    yPosition += 8;
+
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    let rowIndex = 0;
+    monthPayouts.forEach(payout => {
+      payout.items.forEach(item => {
+        if (yPosition > pageHeight - 40) {
+          pdf.addPage();
+          yPosition = margin;
+        }
+
+        if (rowIndex % 2 === 0) {
+          pdf.setFillColor(248, 248, 248);
+          pdf.rect(margin, yPosition - 2, pageWidth - (margin * 2), 6, 'F');
+        }
+
+        const project = projects.find(p => p.id === item.projectId);
+        const rowData = [
+          new Date(payout.payoutDate).toLocaleDateString('en-GB'),
+          projectLabel(item.projectId),
+          (project?.clientName || '-').slice(0, 24),
+          payout.method,
+          (payout.reference || '-').slice(0, 16),
+          `LKR ${item.amount.toLocaleString()}`,
+        ];
+
+        xPos = margin;
+        rowData.forEach((cell, cellIndex) => {
+          pdf.setTextColor(30, 30, 30);
+          pdf.text(cell, xPos, yPosition);
+          xPos += colWidths[cellIndex];
+        });
+
+        yPosition += 6;
+        rowIndex++;
+      });
+    });
+
+    if (rowIndex === 0) {
+      pdf.setTextColor(100, 100, 100);
+      pdf.text('No payments were made during this month.', margin, yPosition);
+      yPosition += 6;
+    }
+    yPosition += 6;
+
+    // Totals
+    const monthTotal = monthPayouts.reduce((sum, payout) => sum + payout.amount, 0);
+    pdf.setDrawColor(200, 200, 200);
+    pdf.line(margin, yPosition - 4, pageWidth - margin, yPosition - 4);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(10);
+    pdf.setTextColor(30, 30, 30);
+    pdf.text('Total Paid', margin, yPosition);
+    pdf.text(`LKR ${monthTotal.toLocaleString()}`, pageWidth - margin, yPosition, { align: 'right' });
+    yPosition += 6;
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(80, 80, 80);
+    pdf.text('Outstanding Earnings (as of generation)', margin, yPosition);
+    pdf.text(`LKR ${outstanding.toLocaleString()}`, pageWidth - margin, yPosition, { align: 'right' });
+
+    addPdfFooter(pdf, 'Confidential Payslip - For Employee Use Only');
+
+    pdf.save(`OGO-Payslip-${employee.employeeId}-${monthName}-${payslipYear}.pdf`);
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] placeholder-[#F6E9E9]/50 focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter'] text-sm";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-xl flex items-center justify-center p-4 z-50 animate-fadeIn">
+      <GlassCard className="w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-2xl font-bold text-[#F6E9E9] font-['Playfair_Display']">
+                Payouts
+              </h2>
+              <p className="text-[#F6E9E9]/60 text-sm font-['Inter']">
+                {employee.employeeId} · {employee.firstName} {employee.lastName}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 bg-[#272121]/50 text-[#F6E9E9] rounded-lg hover:bg-[#E16428]/20 transition-all duration-300"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Summary */}
+          <div className="grid grid-cols-2 gap-3 mb-6">
+            <div className="p-3 rounded-lg bg-[#272121]/50 border border-[#E16428]/10">
+              <p className="text-[#F6E9E9]/60 text-xs">Outstanding Earnings</p>
+              <p className={`font-bold text-sm sm:text-base ${outstanding > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                LKR {outstanding.toLocaleString()}
+              </p>
+            </div>
+            <div className="p-3 rounded-lg bg-[#272121]/50 border border-[#E16428]/10">
+              <p className="text-[#F6E9E9]/60 text-xs">Total Paid Out</p>
+              <p className="text-green-400 font-bold text-sm sm:text-base">
+                LKR {employeePayouts.reduce((sum, payout) => sum + payout.amount, 0).toLocaleString()}
+              </p>
+            </div>
+          </div>
+
+          {/* Record payout */}
+          <form onSubmit={handleRecordPayout} className="space-y-3 mb-8">
+            <h3 className="text-[#F6E9E9] font-semibold font-['Poppins'] flex items-center gap-2">
+              <Wallet className="w-4 h-4 text-[#E16428]" /> Record Payout
+            </h3>
+            {payableProjects.length === 0 ? (
+              <p className="text-[#F6E9E9]/60 text-sm font-['Inter']">All delivered projects are settled.</p>
+            ) : (
+              <div className="space-y-2">
+                {payableProjects.map(project => {
+                  const isSelected = selectedAmounts[project.id] !== undefined;
+                  const unpaid = getUnpaidEarnings(project, employee.id, payouts);
+                  return (
+                    <div
+                      key={project.id}
+                      className={`flex items-center gap-3 p-2 rounded-lg border transition-all duration-200 ${
+                        isSelected ? 'border-[#E16428]/60 bg-[#E16428]/10' : 'border-[#E16428]/10 bg-[#272121]/40'
+                      }`}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => toggleProject(project)}
+                        className={`w-5 h-5 flex-shrink-0 rounded border flex items-center justify-center ${
+                          isSelected ? 'bg-[#E16428] border-[#E16428]' : 'border-[#E16428]/40'
+                        }`}
+                        title={isSelected ? 'Remove from payout' : 'Add to payout'}
+                      >
+                        {isSelected && <Check className="w-3 h-3 text-white" />}
+                      </button>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-[#F6E9E9] text-sm font-['Inter'] truncate">
+                          {project.projectId} · {project.clientName}
+                        </p>
+                        <p className="text-[#F6E9E9]/50 text-xs">
+                          unpaid LKR {unpaid.toLocaleString()} of {getShare(project, employee.id).toLocaleString()}
+                        </p>
+                      </div>
+                      {isSelected && (
+                        <input
+                          type="number"
+                          min="1"
+                          max={unpaid}
+                          value={selectedAmounts[project.id] || ''}
+                          onChange={e => setSelectedAmounts(prev => ({ ...prev, [project.id]: Math.min(Number(e.target.value), unpaid) }))}
+                          className={`${inputClass} w-32`}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <input
+                type="date"
+                value={payoutDate}
+                onChange={e => setPayoutDate(e.target.value)}
+                className={inputClass}
+                required
+              />
+              <select
+                value={method}
+                onChange={e => setMethod(e.target.value as PaymentMethod)}
+                className={inputClass}
+              >
+                {PAYMENT_METHODS.map(m => (
+                  <option key={m} value={m} className="bg-[#272121] text-[#F6E9E9]">{m}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={reference}
+                onChange={e => setReference(e.target.value)}
+                className={inputClass}
+                placeholder="Reference / transfer no."
+              />
+              <input
+                type="text"
+                value={notes}
+                onChange={e => setNotes(e.target.value)}
+                className={inputClass}
+                placeholder="Notes"
+              />
+            </div>
+            {error && <p className="text-red-400 text-sm font-['Inter']">{error}</p>}
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={saving || selectedTotal <= 0}
+                className="px-6 py-3 bg-gradient-to-r from-[#E16428] to-[#E16428]/80 text-white rounded-lg hover:scale-105 transition-all duration-300 shadow-lg font-['Poppins'] flex items-center gap-2 disabled:opacity-50 disabled:hover:scale-100"
+              >
+                <Wallet className="w-4 h-4" /> Pay LKR {selectedTotal.toLocaleString()}
+              </button>
+            </div>
+          </form>
+
+          {/* History */}
+          <h3 className="text-[#F6E9E9] font-semibold font-['Poppins'] mb-3">History</h3>
+          <div className="overflow-x-auto mb-8">
+            <table className="w-full min-w-[560px]">
+              <thead>
+                <tr className="border-b border-[#E16428]/20">
+                  <th className="text-left text-xs text-[#F6E9E9]/70 font-normal p-2 font-['Inter']">date</th>
+                  <th className="text-left text-xs text-[#F6E9E9]/70 font-normal p-2 font-['Inter']">projects</th>
+                  <th className="text-left text-xs text-[#F6E9E9]/70 font-normal p-2 font-['Inter']">method</th>
+                  <th className="text-left text-xs text-[#F6E9E9]/70 font-normal p-2 font-['Inter']">amount</th>
+                  <th className="text-left text-xs text-[#F6E9E9]/70 font-normal p-2 font-['Inter']">actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {employeePayouts.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="py-6 text-center text-[#F6E9E9]/60 text-sm font-['Inter']">
+                      No payouts recorded yet
+                    </td>
+                  </tr>
+                ) : (
+                  employeePayouts.map(payout => (
+                    <tr key={payout.id} className="border-b border-[#E16428]/10 text-sm">
+                      <td className="p-2 text-[#F6E9E9] font-['Inter']">{new Date(payout.payoutDate).toLocaleDateString()}</td>
+                      <td className="p-2 text-[#F6E9E9]/80 font-['Inter']">
+                        {payout.items.map(item => projectLabel(item.projectId)).join(', ')}
+                        {payout.reference && <span className="block text-xs text-[#F6E9E9]/50">{payout.reference}</span>}
+                      </td>
+                      <td className="p-2 text-[#F6E9E9]/80 font-['Inter']">{payout.method}</td>
+                      <td className="p-2 text-green-400 font-bold font-['Inter']">LKR {payout.amount.toLocaleString()}</td>
+                      <td className="p-2">
+                        <button onClick={() => setDeletingPayout(payout)} className="p-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-all duration-300" title="Delete payout">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Payslip */}
+          <h3 className="text-[#F6E9E9] font-semibold font-['Poppins'] mb-3 flex items-center gap-2">
+            <FileText className="w-4 h-4 text-[#E16428]" /> Monthly Payslip
+          </h3>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <select
+              value={payslipMonth}
+              onChange={e => setPayslipMonth(Number(e.target.value))}
+              className={inputClass}
+            >
+              {Array.from({ length: 12 }).map((_, i) => (
+                <option key={i} value={i} className="bg-[#272121] text-[#F6E9E9]">
+                  {new Date(0, i).toLocaleString('default', { month: 'long' })}
+                </option>
+              ))}
+            </select>
+            <select
+              value={payslipYear}
+              onChange={e => setPayslipYear(Number(e.target.value))}
+              className={inputClass}
+            >
+              {years.map(year => (
+                <option key={year} value={year} className="bg-[#272121] text-[#F6E9E9]">{year}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleDownloadPayslip}
+              className="px-6 py-2 bg-[#E16428]/20 text-[#E16428] rounded-lg hover:bg-[#E16428]/30 transition-all duration-300 font-['Poppins'] flex items-center justify-center gap-2 whitespace-nowrap"
+            >
+              <FileText className="w-4 h-4" /> Download PDF
+            </button>
+          </div>
+        </div>
+      </GlassCard>
+
+      {/* Delete Confirmation Modal */}
+      {deletingPayout && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60] animate-fadeIn">
+          <div className="bg-[#272121] rounded-2xl p-6 max-w-md w-full mx-4 border border-[#E16428]/20 shadow-2xl animate-scaleIn">
+            <div className="text-center">
+              <div className="w-16 h-16 bg-red-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Trash2 className="w-8 h-8 text-red-400" />
+              </div>
+              <h3 className="text-xl font-bold text-[#F6E9E9] mb-2 font-['Poppins']">
+                delete payout?
+              </h3>
+              <p className="text-[#F6E9E9]/70 mb-6 font-['Inter']">
+                LKR {deletingPayout.amount.toLocaleString()} on {new Date(deletingPayout.payoutDate).toLocaleDateString()} will be removed and its projects marked unpaid again.
+              </p>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setDeletingPayout(null)}
+                  className="flex-1 px-4 py-3 bg-[#363333] text-[#F6E9E9] rounded-lg hover:bg-[#363333]/80 transition-all duration-300 font-['Poppins']"
+                >
+                  cancel
+                </button>
+                <button
+                  onClick={handleConfirmDelete}
+                  disabled={saving}
+                  className="flex-1 px-4 py-3 bg-gradient-to-r from-red-500 to-red-600 text-white rounded-lg hover:scale-105 transition-all duration-300 shadow-lg font-['Poppins'] disabled:opacity-50"
+                >
+                  delete
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,9 @@
-import React, { useState, useRef } from 'react';
-import { Bell, Search, Menu, Wifi, WifiOff, Loader } from 'lucide-react';
-import { supabase } from '../supabaseClient';
-import { Project, Employee } from '../types';
-import { useSupabaseConnection } from '../hooks/useSupabaseConnection';
+import React, { useState, useRef, useMemo } from 'react';
+import { Bell, Search, Menu, Wifi, WifiOff, Loader, CloudOff, RefreshCw, X } from 'lucide-react';
+import { backend } from '../data';
+import { useConnectionStore, useEmployeeStore, useOutboxStore, useProjectStore } from '../store/context';
+import { useNotifications } from '../store/notifications';
+import { getAssigneeNames } from '../utils/assignees';
 
 interface HeaderProps {
   onMenuToggle: () => void;
@@ -10,50 +11,22 @@ interface HeaderProps {
 }
 
 export const Header: React.FC<HeaderProps> = ({ onMenuToggle }) => {
-  const { status, isConnected, lastPing } = useSupabaseConnection();
+  const { status, isConnected, lastPing } = useConnectionStore();
   const [searchOpen, setSearchOpen] = useState(false);
   const [searchValue, setSearchValue] = useState('');
-  const [searchResults, setSearchResults] = useState<Project[]>([]);
-  const [employees, setEmployees] = useState<Employee[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [noResults, setNoResults] = useState(false);
-  const [notifications, setNotifications] = useState<Array<{
-    id: string;
-    message: string;
-    type: 'success' | 'info' | 'warning' | 'error';
-    timestamp: Date;
-  }>>([]);
+  const { projects } = useProjectStore();
+  const { employees } = useEmployeeStore();
+  const { pending, syncing } = useOutboxStore();
+  const { notifications, notify: addNotification, dismissNotification, clearNotifications } = useNotifications();
+  const toasts = notifications.filter(notification => notification.toast);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Add notification function
-  const addNotification = (message: string, type: 'success' | 'info' | 'warning' | 'error' = 'info') => {
-    const id = Math.random().toString(36).substring(2, 15);
-    const notification = { id, message, type, timestamp: new Date() };
-    setNotifications(prev => [notification, ...prev.slice(0, 4)]); // Keep only last 5 notifications
-    
-    // Auto-remove notification after 5 seconds
-    setTimeout(() => {
-      setNotifications(prev => prev.filter(n => n.id !== id));
-    }, 5000);
-  };
-
   // Refresh function
   const refreshData = () => {
     // Trigger a page refresh to get latest data
     window.location.reload();
   };
 
-  // Handle search completion
-  const handleSearchComplete = () => {
-    if (searchResults.length > 0) {
-      addNotification(`Found ${searchResults.length} project(s)`, 'success');
-      // Auto-refresh after successful search
-      setTimeout(() => {
-        refreshData();
-      }, 2000); // Refresh after 2 seconds
-    }
-  };
-
   // Keyboard shortcuts
   React.useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -89,167 +62,51 @@ export const Header: React.FC<HeaderProps> = ({ onMenuToggle }) => {
 
   // Listen for real-time changes and show notifications
   React.useEffect(() => {
-    const projectsSubscription = supabase
-      .channel('header_notifications')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'projects'
-        },
-        (payload) => {
-          if (payload.eventType === 'INSERT') {
-            addNotification(`New project added: ${payload.new.client_name}`, 'success');
-          } else if (payload.eventType === 'UPDATE') {
-            addNotification(`Project updated: ${payload.new.client_name}`, 'info');
-          } else if (payload.eventType === 'DELETE') {
-            addNotification('Project deleted', 'warning');
-          }
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'employees'
-        },
-        (payload) => {
-          if (payload.eventType === 'INSERT') {
-            addNotification(`New employee added: ${payload.new.first_name} ${payload.new.last_name}`, 'success');
-          } else if (payload.eventType === 'UPDATE') {
-            addNotification(`Employee updated: ${payload.new.first_name} ${payload.new.last_name}`, 'info');
-          } else if (payload.eventType === 'DELETE') {
-            addNotification('Employee deleted', 'warning');
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      projectsSubscription.unsubscribe();
-    };
-  }, []);
-
-  // Fetch employees on mount (for name lookup)
-  React.useEffect(() => {
-    if (!searchOpen) return;
-    async function fetchEmployees() {
-      try {
-        const { data, error } = await supabase.from('employees').select('*');
-        if (error) {
-          console.error('Error fetching employees for search:', error);
-          return;
-        }
-        // Map database fields to camelCase for consistency
-        const mappedEmployees = (data || []).map(emp => ({
-          id: emp.id,
-          firstName: emp.first_name,
-          lastName: emp.last_name,
-          employeeId: emp.employee_id,
-          position: emp.position,
-          address: emp.address,
-          whatsappNumber: emp.whatsapp,
-          emailAddress: emp.email,
-          qualifications: emp.qualifications,
-          birthday: emp.birthday,
-          createdAt: emp.created_at,
-        }));
-        setEmployees(mappedEmployees);
-      } catch (error) {
-        console.error('Error in fetchEmployees:', error);
+    const stopProjects = backend.projects.subscribe(change => {
+      if (change.kind === 'delete') {
+        addNotification('Project deleted', 'warning');
+      } else if (change.record) {
+        // Changes to a project's payments or types come without the project and are not announced
+        addNotification(
+          change.kind === 'insert' ? `New project added: ${change.record.clientName}` : `Project updated: ${change.record.clientName}`,
+          change.kind === 'insert' ? 'success' : 'info'
+        );
       }
-    }
-    fetchEmployees();
-  }, [searchOpen]);
-
-  // Search projects as user types
-  React.useEffect(() => {
-    if (!searchOpen || !searchValue.trim()) {
-      setSearchResults([]);
-      setNoResults(false);
-      return;
-    }
-    setLoading(true);
-    const timeout = setTimeout(async () => {
-      try {
-        // Search by client name
-        const { data: projectsByName, error: nameError } = await supabase
-          .from('projects')
-          .select('*')
-          .ilike('client_name', `%${searchValue}%`);
-        
-        if (nameError) {
-          console.error('Error searching by client name:', nameError);
-        }
-
-        // Search by organization
-        const { data: projectsByOrg, error: orgError } = await supabase
-        .from('projects')
-        .select('*')
-          .ilike('client_uni_org', `%${searchValue}%`);
-        
-        if (orgError) {
-          console.error('Error searching by organization:', orgError);
-        }
-
-        // Search by project ID
-        const { data: projectsById, error: idError } = await supabase
-        .from('projects')
-        .select('*')
-          .ilike('project_id', `%${searchValue.toUpperCase()}%`);
-        
-        if (idError) {
-          console.error('Error searching by project ID:', idError);
-        }
+    });
 
-      // Employee name search
-      const matchedEmps = employees.filter(emp =>
-        `${emp.firstName} ${emp.lastName}`.toLowerCase().includes(searchValue.toLowerCase())
-      );
-        
-        let projectsByEmp: any[] = [];
-      if (matchedEmps.length > 0) {
-        const empIds = matchedEmps.map(e => e.id);
-          const { data: empProjects, error: empError } = await supabase
-          .from('projects')
-          .select('*')
-            .in('assigned_to', empIds);
-          
-          if (empError) {
-            console.error('Error searching by employee:', empError);
-          } else if (empProjects) {
-            projectsByEmp = empProjects;
+    const stopEmployees = backend.employees.subscribe(change => {
+      if (change.kind === 'delete') {
+        addNotification('Employee deleted', 'warning');
+      } else if (change.record) {
+        const name = `${change.record.firstName} ${change.record.lastName}`;
+        addNotification(
+          change.kind === 'insert' ? `New employee added: ${name}` : `Employee updated: ${name}`,
+          change.kind === 'insert' ? 'success' : 'info'
+        );
       }
-        }
+    });
 
-        // Merge and deduplicate all results
-        const all = [
-          ...(projectsByName || []), 
-          ...(projectsByOrg || []), 
-          ...(projectsById || []), 
-          ...projectsByEmp
-        ];
-      const unique = all.filter((p, i, arr) => arr.findIndex(x => x.id === p.id) === i);
-        
-      setSearchResults(unique);
-      setNoResults(unique.length === 0);
-        
-        // Trigger refresh if results found
-        if (unique.length > 0) {
-          handleSearchComplete();
-        }
-      } catch (error) {
-        console.error('Search error:', error);
-        setSearchResults([]);
-        setNoResults(true);
-      } finally {
-      setLoading(false);
-      }
-    }, 300);
-    return () => clearTimeout(timeout);
-  }, [searchValue, searchOpen, employees]);
+    return () => {
+      stopProjects();
+      stopEmployees();
+    };
+  }, [addNotification]);
+
+  // Search the loaded projects by client name, organization, project ID or employee
+  const searchResults = useMemo(() => {
+    const query = searchValue.trim().toLowerCase();
+    if (!searchOpen || !query) return [];
+    const matchedEmployeeIds = employees
+      .filter(emp => `${emp.firstName} ${emp.lastName}`.toLowerCase().includes(query))
+      .map(emp => emp.id);
+    return projects.filter(project =>
+      project.clientName.toLowerCase().includes(query) ||
+      (project.clientUniOrg || '').toLowerCase().includes(query) ||
+      project.projectId.toLowerCase().includes(query) ||
+      project.assignees.some(assignee => matchedEmployeeIds.includes(assignee.employeeId))
+    );
+  }, [searchValue, searchOpen, projects, employees]);
+  const noResults = searchValue.trim() !== '' && searchResults.length === 0;
 
   return (
     <>
@@ -304,6 +161,38 @@ export const Header: React.FC<HeaderProps> = ({ onMenuToggle }) => {
             <Search className="w-5 h-5 text-[#F6E9E9]" />
           </button>
 
+            {/* Changes waiting to be sent */}
+            {(pending.length > 0 || syncing) && (
+              <div className="relative p-2 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg hover:bg-[#E16428]/10 transition-all duration-300 flex items-center justify-center group">
+                {syncing ? (
+                  <RefreshCw className="w-5 h-5 text-[#F6E9E9] animate-spin" />
+                ) : (
+                  <CloudOff className="w-5 h-5 text-yellow-400" />
+                )}
+                {pending.length > 0 && (
+                  <span className="absolute -top-1 -right-1 w-5 h-5 bg-yellow-500 rounded-full text-xs text-[#272121] flex items-center justify-center font-bold">
+                    {pending.length > 9 ? '9+' : pending.length}
+                  </span>
+                )}
+                {/* Pending Changes Tooltip */}
+                <div className="absolute bottom-full right-0 mb-2 w-72 bg-[#272121] border border-[#E16428]/20 rounded-lg shadow-xl opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-50">
+                  <div className="p-3 border-b border-[#E16428]/10">
+                    <h3 className="text-[#F6E9E9] font-semibold text-sm">
+                      {syncing ? 'Sending changes...' : 'Waiting for connection'}
+                    </h3>
+                  </div>
+                  <div className="max-h-48 overflow-y-auto">
+                    {pending.map(change => (
+                      <div key={change.id} className="px-3 py-2 border-b border-[#E16428]/10 last:border-b-0">
+                        <p className="text-[#F6E9E9] text-sm">{change.label}</p>
+                        <p className="text-[#F6E9E9]/50 text-xs">{new Date(change.queuedAt).toLocaleTimeString()}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Database Connectivity Icon */}
             <div className="relative p-2 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg hover:bg-[#E16428]/10 transition-all duration-300 flex items-center justify-center group">
               {status === 'connecting' ? (
@@ -335,7 +224,7 @@ export const Header: React.FC<HeaderProps> = ({ onMenuToggle }) => {
 
           <button 
             className="relative p-2 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg hover:bg-[#E16428]/10 transition-all duration-300 group"
-            onClick={() => setNotifications([])} // Clear notifications when clicked
+            onClick={clearNotifications} // Clear notifications when clicked
           >
             <Bell className="w-5 h-5 text-[#F6E9E9]" />
             {notifications.length > 0 && (
@@ -375,6 +264,43 @@ export const Header: React.FC<HeaderProps> = ({ onMenuToggle }) => {
         </div>
       </div>
     </header>
+      {/* Toasts for the results of the user's own actions */}
+      {toasts.length > 0 && (
+        <div className="fixed bottom-4 right-4 z-[1000] flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]">
+          {toasts.map(toast => (
+            <div
+              key={toast.id}
+              className="flex items-start gap-2 p-3 bg-[#272121]/95 border border-[#E16428]/20 rounded-lg shadow-xl animate-fadeIn"
+            >
+              <div className={`w-2 h-2 rounded-full mt-2 flex-shrink-0 ${
+                toast.type === 'success' ? 'bg-green-500' :
+                toast.type === 'info' ? 'bg-blue-500' :
+                toast.type === 'warning' ? 'bg-yellow-500' :
+                'bg-red-500'
+              }`}></div>
+              <p className="flex-1 text-[#F6E9E9] text-sm">{toast.message}</p>
+              {toast.action && (
+                <button
+                  className="px-2 py-0.5 text-sm font-medium text-[#E16428] hover:text-[#F6E9E9] transition-colors duration-200"
+                  onClick={() => {
+                    toast.action?.run();
+                    dismissNotification(toast.id);
+                  }}
+                >
+                  {toast.action.label}
+                </button>
+              )}
+              <button
+                className="p-1 text-[#F6E9E9]/60 hover:text-[#F6E9E9] transition-colors duration-200"
+                onClick={() => dismissNotification(toast.id)}
+                aria-label="Dismiss"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
       {/* Fullscreen Glassy Search Modal */}
       {searchOpen && (
         <div
@@ -405,64 +331,43 @@ export const Header: React.FC<HeaderProps> = ({ onMenuToggle }) => {
               />
               {/* Results Dropdown */}
               <div className="w-full max-h-72 overflow-y-auto mt-2 rounded-xl bg-[#1a1818]/90 border border-[#E16428]/10 shadow-xl">
-                {loading ? (
-                  <div className="p-6 text-center text-[#E16428] font-bold animate-pulse">Searching...</div>
-                ) : noResults ? (
+                {noResults ? (
                   <div className="p-6 text-center text-[#F6E9E9]/60 font-['Inter']">No results found</div>
                 ) : (
-                  searchResults.map((project: any) => {
-                    // Map database fields to display format
-                    const mappedProject = {
-                      id: project.id,
-                      projectId: project.project_id,
-                      clientName: project.client_name,
-                      clientUniOrg: project.client_uni_org,
-                      projectDescription: project.project_description,
-                      deadlineDate: project.deadline_date,
-                      price: project.price,
-                      advance: project.advance,
-                      assignedTo: project.assigned_to,
-                      paymentOfEmp: project.payment_of_emp,
-                      status: project.status,
-                      fastDeliver: project.fast_deliver || false,
-                      createdAt: project.created_at,
-                      updatedAt: project.updated_at,
-                    };
-                    
-                    const emp = employees.find(e => e.id === mappedProject.assignedTo);
+                  searchResults.map(project => {
                     return (
                       <div
-                        key={mappedProject.id}
+                        key={project.id}
                         className="flex flex-col gap-1 px-6 py-3 border-b border-[#E16428]/10 hover:bg-[#E16428]/10 cursor-pointer transition-all duration-200 group"
                         onClick={() => {
                           setSearchOpen(false);
                           setSearchValue('');
                           // You can add navigation logic here if needed
-                          console.log('Selected project:', mappedProject);
+                          console.log('Selected project:', project);
                         }}
                       >
                         <div className="flex items-center gap-2">
                           <span className="font-bold text-[#F6E9E9] text-sm truncate max-w-[120px]">
-                            {mappedProject.clientName}
+                            {project.clientName}
                           </span>
                           <span className="ml-auto text-xs text-[#E16428] font-semibold">
-                            {mappedProject.projectId}
+                            {project.projectId}
                           </span>
                         </div>
                         <div className="flex items-center gap-2">
                           <span className="text-xs text-[#F6E9E9]/70">
-                            {emp ? `${emp.firstName} ${emp.lastName}` : 'Unassigned'}
+                            {getAssigneeNames(project, employees)}
                           </span>
                           <span className="ml-auto text-xs text-[#F6E9E9]/40">
-                            {new Date(mappedProject.deadlineDate).toLocaleDateString()}
+                            {new Date(project.deadlineDate).toLocaleDateString()}
                           </span>
                         </div>
                         <div className="flex items-center gap-2">
                           <span className="text-xs text-[#F6E9E9]/60">
-                            {mappedProject.clientUniOrg}
+                            {project.clientUniOrg}
                           </span>
                           <span className="ml-auto text-xs text-[#F6E9E9]/50">
-                            {mappedProject.status}
+                            {project.status}
                           </span>
                         </div>
                       </div>
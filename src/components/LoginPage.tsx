@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { supabase } from '../supabaseClient';
+import { signIn } from '../auth';
 import { Mail, Lock, LogIn, Triangle } from 'lucide-react';
 
 interface LoginPageProps {
@@ -18,36 +18,12 @@ export const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
     setError('');
 
     try {
-      // 1. Check if the user exists
-      const { data: admin, error: adminError } = await supabase
-        .from('admin')
-        .select('*')
-        .eq('email', email)
-        .single();
-
-      if (adminError || !admin) {
-        throw new Error('Invalid email or password.');
-      }
-
-      // 2. Check if the password matches (plain text comparison, not for production)
-      if (admin.password !== password) {
-        // Log failed login attempt
-        await supabase.from('log').insert({
-          admin_id: admin.id,
-          admin_email: email,
-          action: 'login_fail',
-        });
-        throw new Error('Invalid email or password.');
+      // Credentials are verified by Supabase Auth; the session is persisted by the client
+      const { error: signInError } = await signIn(email, password);
+      if (signInError) {
+        throw new Error(signInError);
       }
 
-      // 3. Log successful login
-      await supabase.from('log').insert({
-        admin_id: admin.id,
-        admin_email: email,
-        action: 'login_success',
-      });
-
-      // 4. Handle successful login
       onLoginSuccess(email);
     } catch (err: any) {
       setError(err.message);
@@ -1,9 +1,12 @@
 import React, { useEffect, useState } from 'react';
-import { Home, FolderOpen, Users, BarChart3, X, ChevronLeft, ChevronRight, Settings as SettingsIcon, LogOut, Keyboard } from 'lucide-react';
+import { Home, FolderOpen, Users, BarChart3, X, ChevronLeft, ChevronRight, Settings as SettingsIcon, LogOut, Keyboard, Wallet, Contact, Building2 } from 'lucide-react';
+import { Role } from '../types';
+import { canAccessTab } from '../permissions';
 
 interface NavigationProps {
   activeTab: string;
   setActiveTab: (tab: string) => void;
+  role: Role;
   collapsed: boolean;
   mobileOpen: boolean;
   onMobileClose: () => void;
@@ -14,6 +17,7 @@ interface NavigationProps {
 export const Navigation: React.FC<NavigationProps> = ({ 
   activeTab, 
   setActiveTab, 
+  role,
   collapsed, 
   mobileOpen, 
   onMobileClose, 
@@ -22,13 +26,17 @@ export const Navigation: React.FC<NavigationProps> = ({
 }) => {
   const [showShortcutsHelp, setShowShortcutsHelp] = useState(false);
   
-  const navItems = [
+  const allNavItems = [
     { id: 'dashboard', label: 'Dashboard', icon: Home, shortcut: 'Alt + 1' },
     { id: 'projects', label: 'Projects', icon: FolderOpen, shortcut: 'Alt + 2' },
+    { id: 'clients', label: 'Clients', icon: Contact, shortcut: 'Alt + 7' },
+    { id: 'organizations', label: 'Organizations', icon: Building2, shortcut: 'Alt + 8' },
     { id: 'employees', label: 'Employees', icon: Users, shortcut: 'Alt + 3' },
     { id: 'analytics', label: 'Analytics', icon: BarChart3, shortcut: 'Alt + 4' },
+    { id: 'receivables', label: 'Receivables', icon: Wallet, shortcut: 'Alt + 6' },
     { id: 'settings', label: 'Settings', icon: SettingsIcon, shortcut: 'Alt + 5' },
   ];
+  const navItems = allNavItems.filter(item => canAccessTab(role, item.id));
 
   // Keyboard shortcuts for navigation and help
   useEffect(() => {
@@ -38,12 +46,12 @@ export const Navigation: React.FC<NavigationProps> = ({
         return;
       }
 
-      // Alt + 1-5: Navigate to different tabs
-      if (event.altKey && /^[1-5]$/.test(event.key)) {
+      // Alt + 1-8: Navigate to different tabs (matched by shortcut so existing numbers stay put)
+      if (event.altKey && /^[1-8]$/.test(event.key)) {
         event.preventDefault();
-        const tabIndex = parseInt(event.key) - 1;
-        if (navItems[tabIndex]) {
-          setActiveTab(navItems[tabIndex].id);
+        const target = navItems.find(item => item.shortcut === `Alt + ${event.key}`);
+        if (target) {
+          setActiveTab(target.id);
           // Close mobile menu if open
           if (mobileOpen) {
             onMobileClose();
@@ -68,7 +76,7 @@ export const Navigation: React.FC<NavigationProps> = ({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [setActiveTab, mobileOpen, onMobileClose, showShortcutsHelp]);
+  }, [setActiveTab, mobileOpen, onMobileClose, showShortcutsHelp, role]);
 
   const handleItemClick = (itemId: string) => {
     setActiveTab(itemId);
@@ -310,14 +318,30 @@ export const Navigation: React.FC<NavigationProps> = ({
                   <span className="text-[#F6E9E9]">Employees</span>
                   <kbd className="px-1.5 py-0.5 bg-[#E16428]/20 text-[#E16428] rounded text-xs font-mono">Alt+3</kbd>
                 </div>
-                <div className="flex items-center justify-between p-2 bg-[#363333]/50 rounded-lg">
-                  <span className="text-[#F6E9E9]">Analytics</span>
-                  <kbd className="px-1.5 py-0.5 bg-[#E16428]/20 text-[#E16428] rounded text-xs font-mono">Alt+4</kbd>
-                </div>
+                {canAccessTab(role, 'analytics') && (
+                  <div className="flex items-center justify-between p-2 bg-[#363333]/50 rounded-lg">
+                    <span className="text-[#F6E9E9]">Analytics</span>
+                    <kbd className="px-1.5 py-0.5 bg-[#E16428]/20 text-[#E16428] rounded text-xs font-mono">Alt+4</kbd>
+                  </div>
+                )}
                 <div className="flex items-center justify-between p-2 bg-[#363333]/50 rounded-lg">
                   <span className="text-[#F6E9E9]">Settings</span>
                   <kbd className="px-1.5 py-0.5 bg-[#E16428]/20 text-[#E16428] rounded text-xs font-mono">Alt+5</kbd>
                 </div>
+                {canAccessTab(role, 'receivables') && (
+                  <div className="flex items-center justify-between p-2 bg-[#363333]/50 rounded-lg">
+                    <span className="text-[#F6E9E9]">Receivables</span>
+                    <kbd className="px-1.5 py-0.5 bg-[#E16428]/20 text-[#E16428] rounded text-xs font-mono">Alt+6</kbd>
+                  </div>
+                )}
+                <div className="flex items-center justify-between p-2 bg-[#363333]/50 rounded-lg">
+                  <span className="text-[#F6E9E9]">Clients</span>
+                  <kbd className="px-1.5 py-0.5 bg-[#E16428]/20 text-[#E16428] rounded text-xs font-mono">Alt+7</kbd>
+                </div>
+                <div className="flex items-center justify-between p-2 bg-[#363333]/50 rounded-lg">
+                  <span className="text-[#F6E9E9]">Organizations</span>
+                  <kbd className="px-1.5 py-0.5 bg-[#E16428]/20 text-[#E16428] rounded text-xs font-mono">Alt+8</kbd>
+                </div>
                 <div className="flex items-center justify-between p-2 bg-[#363333]/50 rounded-lg">
                   <span className="text-[#F6E9E9]">Add Project</span>
                   <kbd className="px-1.5 py-0.5 bg-[#E16428]/20 text-[#E16428] rounded text-xs font-mono">Alt+A</kbd>
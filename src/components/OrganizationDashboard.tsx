@@ -0,0 +1,380 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Building2, ArrowLeft, Search, AlertTriangle, GitMerge, Edit, Save, X, FolderOpen } from 'lucide-react';
+import { Organization, Project, Role } from '../types';
+import { GlassCard } from './GlassCard';
+import { useClientStore, useOrganizationStore, useProjectStore } from '../store/context';
+import { getMonthlyOrganizationStats, getOrganizationStats } from '../utils/organizations';
+import { can } from '../permissions';
+
+interface OrganizationDashboardProps {
+  role: Role;
+}
+
+export const OrganizationDashboard: React.FC<OrganizationDashboardProps> = ({ role }) => {
+  const { projects } = useProjectStore();
+  const { organizations, loading, error, renameOrganization, mergeOrganizations } = useOrganizationStore();
+  const { clients, refetch: refetchClients } = useClientStore();
+  const [search, setSearch] = useState('');
+  const [selectedOrgId, setSelectedOrgId] = useState<string | null>(null);
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [showMerge, setShowMerge] = useState(false);
+  const [mergeTargetId, setMergeTargetId] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState(false);
+  const [nameInput, setNameInput] = useState('');
+
+  const showFinancials = can(role, 'view_financials');
+  const canRename = can(role, 'edit_projects');
+  const canMerge = can(role, 'merge_organizations');
+
+  // Projects reach an organization through their client, so a merge shows up as soon as clients reload
+  const projectsByOrg = useMemo(() => {
+    const clientOrg: Record<string, string | null> = {};
+    clients.forEach(client => {
+      clientOrg[client.id] = client.organizationId;
+    });
+    const grouped: Record<string, Project[]> = {};
+    projects.forEach(project => {
+      const orgId = project.clientId ? clientOrg[project.clientId] : null;
+      if (!orgId) return;
+      if (!grouped[orgId]) grouped[orgId] = [];
+      grouped[orgId].push(project);
+    });
+    return grouped;
+  }, [clients, projects]);
+
+  const clientCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    clients.forEach(client => {
+      if (client.organizationId) counts[client.organizationId] = (counts[client.organizationId] || 0) + 1;
+    });
+    return counts;
+  }, [clients]);
+
+  const rows = useMemo(() => {
+    const searchLower = search.trim().toLowerCase();
+    return organizations
+      .filter(org => !searchLower || org.name.toLowerCase().includes(searchLower))
+      .map(org => ({ org, stats: getOrganizationStats(projectsByOrg[org.id] || []) }))
+      .sort((a, b) => (showFinancials ? b.stats.revenue - a.stats.revenue : b.stats.projects - a.stats.projects));
+  }, [organizations, projectsByOrg, search, showFinancials]);
+
+  const selectedOrg = organizations.find(o => o.id === selectedOrgId) || null;
+
+  const toggleMerge = (id: string) => {
+    setMergeIds(prev => (prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id]));
+  };
+
+  const openMerge = () => {
+    // Suggest keeping the organization with the most projects
+    const target = [...mergeIds].sort(
+      (a, b) => (projectsByOrg[b]?.length || 0) - (projectsByOrg[a]?.length || 0)
+    )[0];
+    setMergeTargetId(target);
+    setShowMerge(true);
+  };
+
+  const handleMerge = async () => {
+    if (!mergeTargetId) return;
+    await mergeOrganizations(mergeTargetId, mergeIds.filter(id => id !== mergeTargetId));
+    await refetchClients();
+    setShowMerge(false);
+    setMergeIds([]);
+  };
+
+  const handleRename = async (org: Organization) => {
+    if (!nameInput.trim()) return;
+    await renameOrganization(org.id, nameInput);
+    await refetchClients();
+    setRenaming(false);
+  };
+
+  // ESC closes the merge dialog, then the detail view
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      if (showMerge) {
+        setShowMerge(false);
+      } else if (renaming) {
+        setRenaming(false);
+      } else if (selectedOrgId) {
+        setSelectedOrgId(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [showMerge, renaming, selectedOrgId]);
+
+  const renderDetail = (org: Organization) => {
+    const orgProjects = projectsByOrg[org.id] || [];
+    const stats = getOrganizationStats(orgProjects);
+    const monthly = getMonthlyOrganizationStats(orgProjects);
+    const orgClients = clients.filter(c => c.organizationId === org.id);
+
+    return (
+      <div className="space-y-4 sm:space-y-6">
+        <button
+          onClick={() => { setSelectedOrgId(null); setRenaming(false); }}
+          className="flex items-center gap-2 text-[#F6E9E9]/70 hover:text-[#E16428] text-sm font-['Inter'] transition-colors duration-200"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          All organizations
+        </button>
+
+        <GlassCard className="p-4 sm:p-6">
+          {renaming ? (
+            <div className="flex items-center gap-2">
+              <input
+                value={nameInput}
+                onChange={e => setNameInput(e.target.value)}
+                className="flex-1 px-3 py-2 rounded bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] focus:outline-none text-sm"
+                autoFocus
+              />
+              <button onClick={() => handleRename(org)} className="text-green-500" title="Save"><Save className="w-5 h-5" /></button>
+              <button onClick={() => setRenaming(false)} className="text-red-500" title="Cancel"><X className="w-5 h-5" /></button>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between gap-4">
+              <h2 className="flex items-center gap-2 text-xl sm:text-2xl font-bold text-[#F6E9E9] font-['Playfair_Display'] truncate">
+                <Building2 className="w-6 h-6 text-[#E16428] flex-shrink-0" />
+                {org.name}
+              </h2>
+              {canRename && (
+                <button
+                  onClick={() => { setNameInput(org.name); setRenaming(true); }}
+                  className="p-2 bg-[#E16428]/20 text-[#E16428] rounded-lg hover:bg-[#E16428]/30 transition-all duration-300"
+                  title="Rename Organization"
+                >
+                  <Edit className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          )}
+          {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+          <p className="text-[#F6E9E9]/60 text-sm mt-2">
+            {orgClients.length > 0 ? orgClients.map(c => c.name).join(', ') : 'No clients'}
+          </p>
+        </GlassCard>
+
+        <div className={`grid grid-cols-2 ${showFinancials ? 'lg:grid-cols-4' : ''} gap-4`}>
+          <GlassCard className="p-4">
+            <p className="text-[#F6E9E9]/70 text-sm font-['Inter']">Projects</p>
+            <p className="text-xl sm:text-2xl font-bold text-[#F6E9E9] mt-1 font-['Poppins']">{stats.projects}</p>
+          </GlassCard>
+          <GlassCard className="p-4">
+            <p className="text-[#F6E9E9]/70 text-sm font-['Inter']">Delivery Rate</p>
+            <p className="text-xl sm:text-2xl font-bold text-green-300 mt-1 font-['Poppins']">{stats.deliveryRate.toFixed(1)}%</p>
+          </GlassCard>
+          {showFinancials && (
+            <>
+              <GlassCard className="p-4">
+                <p className="text-[#F6E9E9]/70 text-sm font-['Inter']">Revenue</p>
+                <p className="text-xl sm:text-2xl font-bold text-[#E16428] mt-1 font-['Poppins']">LKR {stats.revenue.toLocaleString()}</p>
+              </GlassCard>
+              <GlassCard className="p-4">
+                <p className="text-[#F6E9E9]/70 text-sm font-['Inter']">Average Value</p>
+                <p className="text-xl sm:text-2xl font-bold text-[#F6E9E9] mt-1 font-['Poppins']">LKR {Math.round(stats.avgValue).toLocaleString()}</p>
+              </GlassCard>
+            </>
+          )}
+        </div>
+
+        <GlassCard className="p-4 sm:p-6">
+          <h3 className="text-lg sm:text-xl font-semibold text-[#F6E9E9] mb-4 font-['Poppins']">Over Time</h3>
+          {monthly.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-[#F6E9E9]/50">
+              <FolderOpen className="w-8 h-8 mb-2 text-[#E16428]/50" />
+              <p className="text-sm font-['Inter'] lowercase">no projects for this organization yet</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[500px]">
+                <thead>
+                  <tr className="border-b border-[#E16428]/20">
+                    <th className="text-left text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Month</th>
+                    <th className="text-left text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Projects</th>
+                    <th className="text-left text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Delivery Rate</th>
+                    {showFinancials && (
+                      <>
+                        <th className="text-right text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Revenue</th>
+                        <th className="text-right text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Avg Value</th>
+                      </>
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {monthly.map(month => (
+                    <tr key={month.month} className="border-b border-[#E16428]/10 text-xs sm:text-sm">
+                      <td className="py-2 sm:py-3 px-1 text-[#F6E9E9] font-['Inter'] whitespace-nowrap">
+                        {new Date(month.month + '-01').toLocaleDateString('en-US', { year: 'numeric', month: 'long' })}
+                      </td>
+                      <td className="py-2 sm:py-3 px-1 text-[#F6E9E9] font-['Inter']">{month.projects}</td>
+                      <td className="py-2 sm:py-3 px-1 font-['Inter']">
+                        <div className="flex items-center gap-2">
+                          <div className="w-24 h-2 bg-[#272121] rounded-full overflow-hidden">
+                            <div className="h-full bg-green-400/70" style={{ width: `${month.deliveryRate}%` }} />
+                          </div>
+                          <span className="text-[#F6E9E9]/80">{month.deliveryRate.toFixed(0)}%</span>
+                        </div>
+                      </td>
+                      {showFinancials && (
+                        <>
+                          <td className="py-2 sm:py-3 px-1 text-right text-[#E16428] font-bold font-['Inter']">LKR {month.revenue.toLocaleString()}</td>
+                          <td className="py-2 sm:py-3 px-1 text-right text-[#F6E9E9]/80 font-['Inter']">LKR {Math.round(month.avgValue).toLocaleString()}</td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </GlassCard>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fadeIn">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <h1 className="text-2xl sm:text-3xl font-bold text-[#F6E9E9] font-['Playfair_Display']">
+          Organizations
+        </h1>
+        {canMerge && !selectedOrg && mergeIds.length >= 2 && (
+          <button
+            onClick={openMerge}
+            className="flex items-center space-x-2 bg-gradient-to-r from-[#E16428] to-[#E16428]/80 text-white px-4 sm:px-6 py-2 sm:py-3 rounded-lg hover:scale-105 transition-all duration-300 shadow-lg font-['Poppins']"
+          >
+            <GitMerge className="w-4 h-4 sm:w-5 sm:h-5" />
+            <span>Merge {mergeIds.length} Organizations</span>
+          </button>
+        )}
+      </div>
+
+      {selectedOrg ? (
+        renderDetail(selectedOrg)
+      ) : (
+        <>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <div className="relative max-w-md flex-1">
+              <Search className="w-4 h-4 text-[#F6E9E9]/50 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder="Search organizations"
+                className="w-full pl-9 pr-3 py-2 rounded-lg bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] placeholder-[#F6E9E9]/50 focus:outline-none focus:border-[#E16428] text-sm font-['Inter']"
+              />
+            </div>
+            {canMerge && (
+              <p className="text-[#F6E9E9]/50 text-xs font-['Inter']">Tick two or more spellings of the same organization to merge them</p>
+            )}
+          </div>
+
+          <GlassCard className="p-4 sm:p-6">
+            {loading ? (
+              <div className="text-center text-[#F6E9E9]/70">Loading organizations...</div>
+            ) : rows.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-[#F6E9E9]/50">
+                <AlertTriangle className="w-8 h-8 mb-2 text-[#E16428]/50" />
+                <p className="text-sm font-['Inter'] lowercase">no organizations found</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full min-w-[600px]">
+                  <thead>
+                    <tr className="border-b border-[#E16428]/20">
+                      {canMerge && <th className="pb-2 sm:pb-3 px-1 w-8"></th>}
+                      <th className="text-left text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Organization</th>
+                      <th className="text-left text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Clients</th>
+                      <th className="text-left text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Projects</th>
+                      {showFinancials && (
+                        <>
+                          <th className="text-right text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Revenue</th>
+                          <th className="text-right text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Avg Value</th>
+                        </>
+                      )}
+                      <th className="text-right text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Delivery Rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(({ org, stats }) => (
+                      <tr
+                        key={org.id}
+                        onClick={() => setSelectedOrgId(org.id)}
+                        className="border-b border-[#E16428]/10 text-xs sm:text-sm cursor-pointer hover:bg-[#E16428]/5 transition-colors duration-200"
+                      >
+                        {canMerge && (
+                          <td className="py-2 sm:py-3 px-1" onClick={e => e.stopPropagation()}>
+                            <input
+                              type="checkbox"
+                              checked={mergeIds.includes(org.id)}
+                              onChange={() => toggleMerge(org.id)}
+                              className="accent-[#E16428]"
+                            />
+                          </td>
+                        )}
+                        <td className="py-2 sm:py-3 px-1 text-[#F6E9E9] font-['Inter']">{org.name}</td>
+                        <td className="py-2 sm:py-3 px-1 text-[#F6E9E9]/80 font-['Inter']">{clientCounts[org.id] || 0}</td>
+                        <td className="py-2 sm:py-3 px-1 text-[#F6E9E9]/80 font-['Inter']">{stats.projects}</td>
+                        {showFinancials && (
+                          <>
+                            <td className="py-2 sm:py-3 px-1 text-right text-[#E16428] font-bold font-['Inter']">LKR {stats.revenue.toLocaleString()}</td>
+                            <td className="py-2 sm:py-3 px-1 text-right text-[#F6E9E9]/80 font-['Inter']">LKR {Math.round(stats.avgValue).toLocaleString()}</td>
+                          </>
+                        )}
+                        <td className="py-2 sm:py-3 px-1 text-right text-green-300 font-['Inter']">{stats.deliveryRate.toFixed(1)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </GlassCard>
+        </>
+      )}
+
+      {showMerge && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fadeIn p-4">
+          <div className="bg-[#272121] border border-[#E16428]/30 rounded-2xl shadow-2xl p-6 sm:p-8 max-w-md w-full">
+            <h3 className="text-lg font-bold text-[#F6E9E9] mb-2 font-['Poppins']">Merge Organizations?</h3>
+            <p className="text-[#F6E9E9]/70 text-sm mb-4 font-['Inter']">
+              Pick the name to keep. Every client and project of the others moves to it, and the others are deleted.
+            </p>
+            <div className="space-y-2 mb-6">
+              {organizations.filter(o => mergeIds.includes(o.id)).map(org => (
+                <label key={org.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-[#363333]/50 cursor-pointer">
+                  <span className="flex items-center gap-2 text-[#F6E9E9] text-sm">
+                    <input
+                      type="radio"
+                      name="merge-target"
+                      checked={mergeTargetId === org.id}
+                      onChange={() => setMergeTargetId(org.id)}
+                      className="accent-[#E16428]"
+                    />
+                    {org.name}
+                  </span>
+                  <span className="text-[#F6E9E9]/50 text-xs">{projectsByOrg[org.id]?.length || 0} projects</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end space-x-4">
+              <button
+                onClick={() => setShowMerge(false)}
+                className="px-5 py-2 rounded-lg bg-[#363333]/60 text-[#F6E9E9] hover:bg-[#E16428]/10 transition-all duration-300 font-['Poppins']"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleMerge}
+                className="px-5 py-2 rounded-lg bg-gradient-to-r from-[#E16428] to-[#E16428]/80 text-white shadow-lg hover:scale-105 transition-all duration-300 font-['Poppins']"
+              >
+                Merge
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
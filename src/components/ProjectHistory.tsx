@@ -0,0 +1,56 @@
+import React from 'react';
+import { ArchiveRestore, Banknote, CalendarClock, Flag, PlusCircle, Receipt, Trash2, Users, Wallet } from 'lucide-react';
+import { useProjectHistory } from '../hooks/useProjectHistory';
+import { getProjectHistory, ProjectHistoryKind } from '../utils/projectHistory';
+
+interface ProjectHistoryProps {
+  projectId: string; // projects.id
+  employeeName: (employeeId: string) => string;
+}
+
+const KIND_ICONS: Record<ProjectHistoryKind, typeof Flag> = {
+  created: PlusCircle,
+  status: Flag,
+  assignees: Users,
+  price: Banknote,
+  advance: Wallet,
+  deadline: CalendarClock,
+  payment: Receipt,
+  trashed: Trash2,
+  restored: ArchiveRestore,
+};
+
+// Timeline of a project's status, assignee, money and deadline changes, with who made each and when
+export const ProjectHistory: React.FC<ProjectHistoryProps> = ({ projectId, employeeName }) => {
+  const { entries, loading, error } = useProjectHistory(projectId);
+  const events = getProjectHistory(entries, employeeName);
+
+  if (loading) return <div className="text-[#F6E9E9]/70 font-['Inter']">Loading history...</div>;
+  if (error) return <div className="text-red-400 text-sm">{error}</div>;
+  if (events.length === 0) {
+    return (
+      <div className="text-[#F6E9E9]/50 text-sm font-['Inter']">
+        No changes recorded yet. Changes made before the audit log was set up are not shown.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-[#E16428]/30 ml-3 space-y-4">
+      {events.map(event => {
+        const Icon = KIND_ICONS[event.kind];
+        return (
+          <li key={event.id} className="ml-6">
+            <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-[#272121] border border-[#E16428]/40">
+              <Icon className="w-3 h-3 text-[#E16428]" />
+            </span>
+            <p className="text-[#F6E9E9] text-sm font-['Inter']">{event.description}</p>
+            <p className="text-[#F6E9E9]/50 text-xs font-['Inter']">
+              {event.adminEmail || 'Unknown'} · {new Date(event.createdAt).toLocaleString()}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
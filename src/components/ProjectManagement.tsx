@@ -1,36 +1,59 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Plus, Calendar, Loader2, Clock, ArrowUp } from 'lucide-react';
-import { Project, Employee } from '../types';
-import { ProjectModal } from './ProjectModal';
+import { Plus, Calendar, Loader2, Clock, ArrowUp, Wallet } from 'lucide-react';
+import { Project, ProjectPayment, Role, SaveResult } from '../types';
+import { ProjectModal, ProjectNumberStatus } from './ProjectModal';
 import { ProjectTable } from './ProjectTable';
-import { useProjects } from '../hooks/useProjects';
+import { useEmployeeStore, useProjectStore, useSettingsStore } from '../store/context';
 import { ProjectReceiptModal } from './ProjectReceiptModal';
-import { supabase } from '../supabaseClient';
+import { ProjectPaymentsModal } from './ProjectPaymentsModal';
+import { getBalanceDue } from '../utils/payments';
+import { getAssigneeNames } from '../utils/assignees';
+import { getNextLocalProjectNumber } from '../utils/projectNumbers';
+import { can } from '../permissions';
+import { useNotifications } from '../store/notifications';
 
 interface ProjectManagementProps {
-  employees: Employee[];
+  role: Role;
 }
 
-export const ProjectManagement: React.FC<ProjectManagementProps> = ({
-  employees,
-}) => {
-  const { projects, loading, error, addProject, updateProject, deleteProject } = useProjects();
+export const ProjectManagement: React.FC<ProjectManagementProps> = ({ role }) => {
+  const { employees } = useEmployeeStore();
+  const {
+    projects,
+    loading,
+    error,
+    reserveProjectNumber,
+    addProject,
+    updateProject,
+    deleteProject,
+    addPayment,
+    updatePayment,
+    voidPayment,
+  } = useProjectStore();
+  const { settings } = useSettingsStore();
+  const { notify } = useNotifications();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
   const [filter, setFilter] = useState<string>('all');
   const [nextProjectId, setNextProjectId] = useState('');
+  const [projectNumberStatus, setProjectNumberStatus] = useState<ProjectNumberStatus>('reserving');
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [search, setSearch] = useState('');
   const [sortBy, setSortBy] = useState<'deadline-asc' | 'deadline-desc' | 'projectId-asc' | 'projectId-desc'>('deadline-asc');
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
   const [receiptProject, setReceiptProject] = useState<Project | null>(null);
-  const [projectTypes, setProjectTypes] = useState<{ id: string; name: string }[]>([]);
+  const [paymentsProjectId, setPaymentsProjectId] = useState<string | null>(null);
   const [showScrollTop, setShowScrollTop] = useState(false);
 
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
+  const showFinancials = can(role, 'view_financials');
+  const canEdit = can(role, 'edit_projects');
+  const canDelete = can(role, 'delete_projects');
+  const canManagePayments = can(role, 'manage_payments');
+
   // Keyboard shortcuts handler
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -40,7 +63,7 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
       }
 
       // Alt + A: Open add project form
-      if (e.altKey && e.key === 'a') {
+      if (e.altKey && e.key === 'a' && canEdit) {
         e.preventDefault();
         handleAdd();
       }
@@ -79,7 +102,7 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isModalOpen, receiptProject, confirmDeleteId]);
+  }, [isModalOpen, receiptProject, confirmDeleteId, canEdit]);
 
   const handleScroll = () => {
     if (scrollContainerRef.current) {
@@ -123,15 +146,6 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
     };
   }, []);
 
-  // Fetch project types on mount
-  useEffect(() => {
-    async function fetchTypes() {
-      const { data } = await supabase.from('project_types').select('*');
-      if (data) setProjectTypes(data);
-    }
-    fetchTypes();
-  }, []);
-
   let filteredProjects = projects.filter(project => 
     filter === 'all' || project.status === filter
   );
@@ -143,12 +157,11 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
   if (search.trim()) {
     const searchLower = search.trim().toLowerCase();
     filteredProjects = filteredProjects.filter(project => {
-      const employee = employees.find(emp => emp.id === project.assignedTo);
-      const employeeName = employee ? `${employee.firstName} ${employee.lastName}`.toLowerCase() : '';
+      const employeeNames = getAssigneeNames(project, employees).toLowerCase();
       return (
         (project.clientName && project.clientName.toLowerCase().includes(searchLower)) ||
         (project.clientUniOrg && project.clientUniOrg.toLowerCase().includes(searchLower)) ||
-        employeeName.includes(searchLower)
+        employeeNames.includes(searchLower)
       );
     });
   }
@@ -172,22 +185,16 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
     setIsModalOpen(true);
   };
 
-  const handleAdd = () => {
-    // Find the highest projectId in the current projects
-    const projectIds = projects
-      .map(p => p.projectId)
-      .filter(pid => /^PJ\d{4,}$/.test(pid));
-    let nextIdNum = 1000;
-    if (projectIds.length > 0) {
-      const maxNum = Math.max(
-        ...projectIds.map(pid => parseInt(pid.replace('PJ', ''), 10))
-      );
-      nextIdNum = maxNum + 1;
-    }
-    const generatedProjectId = `PJ${nextIdNum}`;
-    setNextProjectId(generatedProjectId);
+  // Reserve the new project's number in the database; offline, continue from the projects on this device
+  const handleAdd = async () => {
+    setNextProjectId('');
+    setProjectNumberStatus('reserving');
     setEditingProject(null);
     setIsModalOpen(true);
+
+    const reserved = await reserveProjectNumber();
+    setNextProjectId(reserved ?? getNextLocalProjectNumber(settings, projects.map(p => p.projectId)));
+    setProjectNumberStatus(reserved ? 'reserved' : 'local');
   };
 
   const handleModalClose = () => {
@@ -195,19 +202,36 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
     setEditingProject(null);
   };
 
-  const handleSave = async (projectData: Omit<Project, 'id'>) => {
-    if (editingProject && editingProject.id) {
-      await updateProject(editingProject.id, projectData);
-    } else {
-      await addProject(projectData);
+  const handleSave = async (
+    projectData: Omit<Project, 'id'>,
+    initialPayment?: Omit<ProjectPayment, 'id' | 'projectId'>,
+    baseUpdatedAt?: string
+  ): Promise<SaveResult<Project>> => {
+    // A conflict stays in the modal for merging; a failed save keeps the form for another try
+    const result = editingProject && editingProject.id
+      ? await updateProject(editingProject.id, projectData, baseUpdatedAt)
+      : await addProject(projectData, initialPayment);
+    if (result.status === 'saved') handleModalClose();
+    return result;
+  };
+
+  // Quick status changes have no form to merge in; show the newer version and let the user pick again
+  const handleStatusChange = async (id: string, updates: Partial<Project>) => {
+    const result = await updateProject(id, updates);
+    if (result.status === 'conflict') {
+      notify(`Project ${result.current.projectId} was changed by someone else; its latest version is shown`, 'warning', { toast: true });
     }
-    handleModalClose();
   };
 
   const handleDelete = async (id: string) => {
     await deleteProject(id);
   };
 
+  // Always read the live project so the ledger reflects payments as they are recorded
+  const paymentsProject = paymentsProjectId
+    ? projects.find(p => p.id === paymentsProjectId) || null
+    : null;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -344,7 +368,6 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
           {/* Mobile: Cute row cards */}
           <div className="block sm:hidden space-y-3">
             {filteredProjects.map((project) => {
-              const employee = employees.find(emp => emp.id === project.assignedTo);
               const statusColors = {
                 'Running': 'bg-blue-500/20 text-blue-300 border-blue-500/30',
                 'Delivered': 'bg-green-500/20 text-green-300 border-green-500/30',
@@ -370,6 +393,7 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
                     
                     {/* Action buttons */}
                     <div className="flex items-center gap-1.5 ml-2">
+                      {canEdit && (
                       <button
                         onClick={() => handleEdit(project)}
                         className="p-2 bg-[#E16428]/20 text-[#E16428] rounded-xl hover:bg-[#E16428]/30 transition-all duration-200 hover:scale-110"
@@ -379,6 +403,8 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                         </svg>
                       </button>
+                      )}
+                      {showFinancials && (
                       <button
                         onClick={() => setReceiptProject(project)}
                         className="p-2 bg-blue-500/20 text-blue-400 rounded-xl hover:bg-blue-500/30 transition-all duration-200 hover:scale-110"
@@ -388,6 +414,17 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                         </svg>
                       </button>
+                      )}
+                      {canManagePayments && (
+                      <button
+                        onClick={() => setPaymentsProjectId(project.id)}
+                        className="p-2 bg-green-500/20 text-green-400 rounded-xl hover:bg-green-500/30 transition-all duration-200 hover:scale-110"
+                        title="Payments"
+                      >
+                        <Wallet className="w-4 h-4" />
+                      </button>
+                      )}
+                      {canDelete && (
                       <button
                         onClick={() => setConfirmDeleteId(project.id)}
                         className="p-2 bg-red-500/20 text-red-400 rounded-xl hover:bg-red-500/30 transition-all duration-200 hover:scale-110"
@@ -397,22 +434,20 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                         </svg>
                       </button>
+                      )}
                 </div>
                   </div>
 
                   {/* Project types with icons */}
                   <div className="flex flex-wrap gap-1.5 mb-3">
-                    {project.projectDescription.split(',').map((typeId, idx) => {
-                      const type = projectTypes.find(t => t.id === typeId.trim());
-                      return (
-                        <span key={idx} className="inline-flex items-center gap-1 bg-[#E16428]/15 text-[#E16428] rounded-full px-2.5 py-1 text-xs font-medium border border-[#E16428]/20">
-                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
-                          </svg>
-                          {type ? `${type.name} (${project.projectId})` : `${typeId.trim()} (${project.projectId})`}
-                        </span>
-                      );
-                    })}
+                    {project.projectTypes.map(type => (
+                      <span key={type.id} className="inline-flex items-center gap-1 bg-[#E16428]/15 text-[#E16428] rounded-full px-2.5 py-1 text-xs font-medium border border-[#E16428]/20">
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
+                        </svg>
+                        {`${type.name} (${project.projectId})`}
+                      </span>
+                    ))}
                     {project.fastDeliver && (
                       <span className="inline-flex items-center gap-1 bg-yellow-500/20 text-yellow-400 rounded-full px-2.5 py-1 text-xs font-medium border border-yellow-500/30">
                         <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -435,7 +470,7 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
                       <div className="min-w-0 flex-1">
                         <p className="text-[#F6E9E9]/60 text-xs">Assigned</p>
                         <p className="text-[#F6E9E9] text-sm font-medium truncate">
-                          {employee ? `${employee.firstName} ${employee.lastName}` : 'Unassigned'}
+                          {getAssigneeNames(project, employees)}
                         </p>
                       </div>
                     </div>
@@ -455,6 +490,8 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
                       </div>
                   </div>
 
+                    {showFinancials && (
+                    <>
                     {/* Price */}
                     <div className="flex items-center gap-2">
                       <div className="w-8 h-8 bg-green-500/20 rounded-full flex items-center justify-center">
@@ -467,6 +504,9 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
                         <p className="text-[#E16428] text-sm font-bold">
                           LKR {project.price.toLocaleString()}
                         </p>
+                        <p className={`text-xs ${getBalanceDue(project) > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                          due LKR {getBalanceDue(project).toLocaleString()}
+                        </p>
                       </div>
                     </div>
 
@@ -484,6 +524,8 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
                         </p>
                       </div>
                     </div>
+                    </>
+                    )}
                   </div>
 
                   {/* Status selector */}
@@ -494,7 +536,8 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
                     </div>
                     <select
                       value={project.status}
-                      onChange={(e) => updateProject(project.id, { status: e.target.value as Project['status'] })}
+                      onChange={(e) => handleStatusChange(project.id, { status: e.target.value as Project['status'] })}
+                      disabled={!canEdit}
                       className={`px-3 py-1.5 rounded-full text-xs font-medium border bg-transparent cursor-pointer transition-all duration-200 hover:scale-105 ${statusColors[project.status as keyof typeof statusColors] || 'bg-gray-500/20 text-gray-300 border-gray-500/30'}`}
                     >
                       {['Running', 'Pending', 'Delivered', 'Correction', 'Rejected'].map((status) => (
@@ -515,17 +558,28 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
               employees={employees}
               onEdit={handleEdit}
               onDelete={handleDelete}
-              onUpdateStatus={(id, updates) => updateProject(id, updates)}
+              onUpdateStatus={handleStatusChange}
+              onManagePayments={project => setPaymentsProjectId(project.id)}
+              role={role}
             />
         </div>
           {/* Receipt Modal (mobile and desktop) */}
-          {receiptProject && projectTypes.length > 0 && (
+          {receiptProject && (
             <ProjectReceiptModal
               project={receiptProject}
-              projectTypes={projectTypes}
               onClose={() => setReceiptProject(null)}
             />
           )}
+          {/* Payments Ledger Modal (mobile and desktop) */}
+          {paymentsProject && (
+            <ProjectPaymentsModal
+              project={paymentsProject}
+              onClose={() => setPaymentsProjectId(null)}
+              onAddPayment={addPayment}
+              onUpdatePayment={updatePayment}
+              onVoidPayment={voidPayment}
+            />
+          )}
           {/* Delete Confirmation Modal (mobile and desktop) */}
           {confirmDeleteId && (
             <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fadeIn">
@@ -546,7 +600,7 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
                     are you sure you want to delete this project?
                     <br />
                     <span className="text-xs text-[#F6E9E9]/50">
-                      this action cannot be undone.
+                      it moves to the trash, where it can be restored from settings.
                     </span>
                   </p>
                   {/* Buttons */}
@@ -574,10 +628,11 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
       {isModalOpen && (
         <ProjectModal
           project={editingProject}
-          employees={employees}
+          role={role}
           onClose={handleModalClose}
           onSave={handleSave}
           nextProjectId={nextProjectId}
+          projectNumberStatus={projectNumberStatus}
         />
       )}
 
@@ -594,6 +649,7 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
 
 
 
+      {canEdit && (
       <button
         onClick={handleAdd}
         className="fixed bottom-6 right-6 bg-gradient-to-r from-[#E16428] to-[#E16428]/80 text-white w-12 h-12 rounded-full flex items-center justify-center shadow-lg hover:scale-110 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#E16428] focus:ring-offset-[#272121] transition-all duration-300 z-40 animate-pulse group"
@@ -606,6 +662,7 @@ export const ProjectManagement: React.FC<ProjectManagementProps> = ({
           A
         </div>
       </button>
+      )}
     </div>
   );
 };
\ No newline at end of file
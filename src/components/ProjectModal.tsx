@@ -1,17 +1,41 @@
 import React, { useState, useEffect, useImperativeHandle, forwardRef, useRef } from 'react';
-import { X } from 'lucide-react';
-import { Project, Employee } from '../types';
+import { History, X } from 'lucide-react';
+import { Project, PaymentMethod, ProjectAssignee, ProjectPayment, Role, SaveResult } from '../types';
 import { GlassCard } from './GlassCard';
-import { supabase } from '../supabaseClient';
 import { Listbox } from '@headlessui/react';
 import { Check, ChevronDown } from 'lucide-react';
+import { PAYMENT_METHODS, getBalanceDue, getTotalPaid } from '../utils/payments';
+import { useClientStore, useEmployeeStore, useOrganizationStore, useProjectTypeStore, useSettingsStore } from '../store/context';
+import { formatProjectNumber, matchesProjectNumberFormat } from '../utils/projectNumbers';
+import { EMPLOYEE_STATUS_LABELS, getAssignableEmployees } from '../utils/employees';
+import { ASSIGNEE_ROLES, ASSIGNEE_ROLE_LABELS, getSharesError, splitShares } from '../utils/assignees';
+import { ClientPicker } from './ClientPicker';
+import { ConflictDiff, ConflictField } from './ConflictDiff';
+import { ProjectHistory } from './ProjectHistory';
+import { can } from '../permissions';
 
 interface ProjectModalProps {
   project: Project | null;
-  employees: Employee[];
+  role: Role;
   onClose: () => void;
-  onSave: (project: Omit<Project, 'id'>) => void;
+  // baseUpdatedAt is the version an edit was made against
+  onSave: (
+    project: Omit<Project, 'id'>,
+    initialPayment?: Omit<ProjectPayment, 'id' | 'projectId'>,
+    baseUpdatedAt?: string
+  ) => Promise<SaveResult<Project>>;
   nextProjectId?: string;
+  projectNumberStatus?: ProjectNumberStatus;
+}
+
+// Where a new project's number came from: the database, or the projects on this device when offline
+export type ProjectNumberStatus = 'reserving' | 'reserved' | 'local';
+
+interface ProjectConflictField {
+  key: string;
+  label: string;
+  copies: (keyof Project)[]; // taken from their version when the user keeps theirs
+  format: (project: Omit<Project, 'id'>) => string;
 }
 
 export interface ProjectModalRef {
@@ -20,31 +44,38 @@ export interface ProjectModalRef {
 
 export const ProjectModal = forwardRef<ProjectModalRef, ProjectModalProps>(({
   project,
-  employees: initialEmployees,
+  role,
   onClose,
   onSave,
   nextProjectId,
+  projectNumberStatus = 'reserved',
 }, ref) => {
-  const [projectTypes, setProjectTypes] = useState<{ id: string; name: string }[]>([]);
-  const [employees, setEmployees] = useState<Employee[]>(initialEmployees);
-  const [loading, setLoading] = useState(true);
+  const { projectTypes } = useProjectTypeStore();
+  const { employees, loading } = useEmployeeStore();
+  const { clients, loading: clientsLoading, addClient } = useClientStore();
+  const { organizations } = useOrganizationStore();
+  const { settings } = useSettingsStore();
+  const [clientError, setClientError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     projectId: project?.projectId || nextProjectId || '',
-    clientName: '',
-    clientUniOrg: '',
-    projectTypes: [] as string[],
+    clientId: '',
+    projectTypeIds: [] as string[],
     deadlineDate: '',
     price: 0,
     advance: 0,
-    assignedTo: '',
+    assignees: [] as ProjectAssignee[],
     paymentOfEmp: 0,
     status: 'Pending' as Project['status'],
     fastDeliver: false,
   });
-  const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(
-    employees.find(e => e.id === formData.assignedTo) || null
-  );
+  const [advanceMethod, setAdvanceMethod] = useState<PaymentMethod>('Cash');
+  // Inactive employees get no new work, but a project keeps showing the employees it is assigned to
+  const assignableEmployees = getAssignableEmployees(employees, project?.assignees.map(assignee => assignee.employeeId));
+  const sharesError = getSharesError(formData.assignees, formData.paymentOfEmp);
   const [projectIdError, setProjectIdError] = useState<string | null>(null);
+  const [baseUpdatedAt, setBaseUpdatedAt] = useState(project?.updatedAt);
+  const [conflict, setConflict] = useState<{ mine: Omit<Project, 'id'>; current: Project } | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
   const formRef = useRef<HTMLFormElement>(null);
 
   // Expose submit function to parent component
@@ -68,66 +99,16 @@ export const ProjectModal = forwardRef<ProjectModalRef, ProjectModalProps>(({
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [onClose]);
 
-  useEffect(() => {
-    async function fetchData() {
-      try {
-        setLoading(true);
-        
-        // Fetch project types
-        const { data: types, error: typesError } = await supabase.from('project_types').select('*');
-        if (typesError) {
-          console.error('Error fetching project types:', typesError);
-        } else {
-          setProjectTypes(types || []);
-        }
-        
-        // Fetch employees
-        const { data: emps, error: empsError } = await supabase.from('employees').select('*');
-        if (empsError) {
-          console.error('Error fetching employees:', empsError);
-        } else {
-          console.log('Fetched employees from database:', emps);
-          // Map snake_case to camelCase if needed
-          const mappedEmployees = (emps || []).map(emp => ({
-            id: emp.id,
-            employeeId: emp.employee_id || emp.employeeId,
-            birthday: emp.birthday,
-            firstName: emp.first_name || emp.firstName,
-            lastName: emp.last_name || emp.lastName,
-            position: emp.position,
-            address: emp.address,
-            whatsappNumber: emp.whatsapp_number || emp.whatsappNumber,
-            emailAddress: emp.email_address || emp.emailAddress,
-            qualifications: emp.qualifications,
-            createdAt: emp.created_at || emp.createdAt,
-          }));
-          setEmployees(mappedEmployees);
-          console.log('Mapped employees:', mappedEmployees);
-        }
-      } catch (error) {
-        console.error('Error in fetchData:', error);
-      } finally {
-        setLoading(false);
-      }
-    }
-    fetchData();
-  }, []);
-
   useEffect(() => {
     if (project) {
       setFormData({
         projectId: project.projectId || '',
-        clientName: project.clientName,
-        clientUniOrg: project.clientUniOrg,
-        projectTypes: Array.isArray(project.projectDescription)
-          ? project.projectDescription
-          : project.projectDescription
-          ? project.projectDescription.split(',')
-          : [],
+        clientId: project.clientId || '',
+        projectTypeIds: project.projectTypes.map(type => type.id),
         deadlineDate: project.deadlineDate,
         price: project.price,
         advance: project.advance,
-        assignedTo: project.assignedTo,
+        assignees: project.assignees,
         paymentOfEmp: project.paymentOfEmp,
         status: project.status,
         fastDeliver: (project as any).fastDeliver || false,
@@ -140,55 +121,191 @@ export const ProjectModal = forwardRef<ProjectModalRef, ProjectModalProps>(({
     }
   }, [project, nextProjectId]);
 
-  useEffect(() => {
-    if (project && employees.length > 0) {
-      const assigned = employees.find(e => e.id === project.assignedTo) || null;
-      setSelectedEmployee(assigned);
-    } else if (!project) {
-      setSelectedEmployee(null);
-    }
-  }, [project, employees]);
+  const selectedClient = clients.find(c => c.id === formData.clientId) || null;
 
-  // Sync selectedEmployee with formData.assignedTo
-  useEffect(() => {
+  const handleTypeChange = (id: string) => {
     setFormData(prev => ({
       ...prev,
-      assignedTo: selectedEmployee ? selectedEmployee.id : ''
+      projectTypeIds: prev.projectTypeIds.includes(id)
+        ? prev.projectTypeIds.filter(tid => tid !== id)
+        : [...prev.projectTypeIds, id],
     }));
-  }, [selectedEmployee]);
+  };
 
-  const handleTypeChange = (id: string) => {
+  const handleFastDeliver = () => {
+    setFormData(prev => ({ ...prev, fastDeliver: !prev.fastDeliver }));
+  };
+
+  const employeeName = (employeeId: string) => {
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Unknown employee';
+  };
+
+  // Picking assignees splits the employee payment evenly between them. Someone picked while nobody leads becomes the lead.
+  const handleAssigneesChange = (employeeIds: string[]) => {
+    setFormData(prev => {
+      const hasLead = prev.assignees.some(assignee => employeeIds.includes(assignee.employeeId) && assignee.role === 'lead');
+      const assignees = employeeIds.map(employeeId =>
+        prev.assignees.find(assignee => assignee.employeeId === employeeId) ??
+        { employeeId, role: hasLead ? 'writer' as const : 'lead' as const, share: 0 }
+      );
+      return { ...prev, assignees: splitShares(assignees, prev.paymentOfEmp) };
+    });
+  };
+
+  const handleAssigneeChange = (employeeId: string, changes: Partial<ProjectAssignee>) => {
     setFormData(prev => ({
       ...prev,
-      projectTypes: prev.projectTypes.includes(id)
-        ? prev.projectTypes.filter(tid => tid !== id)
-        : [...prev.projectTypes, id],
+      assignees: prev.assignees.map(assignee => (assignee.employeeId === employeeId ? { ...assignee, ...changes } : assignee)),
     }));
   };
 
-  const handleFastDeliver = () => {
-    setFormData(prev => ({ ...prev, fastDeliver: !prev.fastDeliver }));
+  // Shares left at an even split follow the employee payment; shares set by hand stay as they are
+  const handlePaymentOfEmpChange = (paymentOfEmp: number) => {
+    setFormData(prev => {
+      const evenSplit = splitShares(prev.assignees, prev.paymentOfEmp);
+      const isEven = prev.assignees.every((assignee, index) => assignee.share === evenSplit[index].share);
+      return { ...prev, paymentOfEmp, assignees: isEven ? splitShares(prev.assignees, paymentOfEmp) : prev.assignees };
+    });
+  };
+
+  // Fields compared when someone else saved the project first, in the order of the form
+  const conflictFieldDefs: ProjectConflictField[] = [
+    { key: 'projectId', label: 'Project ID', copies: ['projectId'], format: p => p.projectId },
+    {
+      key: 'client',
+      label: 'Client',
+      copies: ['clientId', 'clientName', 'clientUniOrg'],
+      format: p => (p.clientUniOrg ? `${p.clientName} (${p.clientUniOrg})` : p.clientName),
+    },
+    {
+      key: 'projectTypes',
+      label: 'Types',
+      copies: ['projectTypes'],
+      format: p => p.projectTypes.map(type => type.name).sort().join(', '),
+    },
+    { key: 'deadlineDate', label: 'Deadline', copies: ['deadlineDate'], format: p => p.deadlineDate },
+    {
+      key: 'assignees',
+      label: 'Assigned To',
+      copies: ['assignees'],
+      format: p =>
+        p.assignees
+          .map(assignee => `${employeeName(assignee.employeeId)} (${ASSIGNEE_ROLE_LABELS[assignee.role]}, ${assignee.share.toLocaleString()})`)
+          .join(', '),
+    },
+    { key: 'price', label: 'Price (LKR)', copies: ['price'], format: p => p.price.toLocaleString() },
+    // The shares are split from the payment, so taking their payment takes their shares with it
+    {
+      key: 'paymentOfEmp',
+      label: 'Employee Payment',
+      copies: ['paymentOfEmp', 'assignees'],
+      format: p => p.paymentOfEmp.toLocaleString(),
+    },
+    { key: 'status', label: 'Status', copies: ['status'], format: p => p.status },
+    { key: 'fastDeliver', label: 'Fast Deliver', copies: ['fastDeliver'], format: p => (p.fastDeliver ? 'Yes' : 'No') },
+  ];
+
+  // Fields where the user's save and the other one disagree
+  const getConflictFields = (mine: Omit<Project, 'id'>, current: Project): ConflictField[] =>
+    conflictFieldDefs
+      .map(({ key, label, format }) => ({
+        key,
+        label,
+        base: project ? format(project) : '',
+        mine: format(mine),
+        theirs: format(current),
+      }))
+      .filter(field => field.mine !== field.theirs);
+
+  const save = async (
+    projectData: Omit<Project, 'id'>,
+    initialPayment?: Omit<ProjectPayment, 'id' | 'projectId'>,
+    base?: string
+  ) => {
+    const result = await onSave(projectData, initialPayment, base);
+    if (result.status !== 'conflict') return;
+
+    // Nothing the two saves disagree on: write again on top of their version
+    if (getConflictFields(projectData, result.current).length === 0) {
+      await save(projectData, undefined, result.current.updatedAt);
+      return;
+    }
+    setConflict({ mine: projectData, current: result.current });
+  };
+
+  const handleResolve = (theirsKeys: string[]) => {
+    if (!conflict) return;
+    const merged: Omit<Project, 'id'> = { ...conflict.mine };
+    conflictFieldDefs
+      .filter(field => theirsKeys.includes(field.key))
+      .forEach(field => field.copies.forEach(key => Object.assign(merged, { [key]: conflict.current[key] })));
+
+    // Keep the form in step in case the merged save runs into yet another edit
+    setFormData(prev => ({
+      ...prev,
+      projectId: merged.projectId,
+      clientId: merged.clientId || '',
+      projectTypeIds: merged.projectTypes.map(type => type.id),
+      deadlineDate: merged.deadlineDate,
+      price: merged.price,
+      assignees: merged.assignees,
+      paymentOfEmp: merged.paymentOfEmp,
+      status: merged.status,
+      fastDeliver: merged.fastDeliver || false,
+    }));
+    setBaseUpdatedAt(conflict.current.updatedAt);
+    setConflict(null);
+    save(merged, undefined, conflict.current.updatedAt);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    // Validate projectId
-    if (!formData.projectId || !/^PJ\d{4,}$/.test(formData.projectId)) {
-      setProjectIdError('Project ID must start with PJ and be followed by at least 4 digits (e.g., PJ1000)');
+    if (!formData.projectId) {
+      setProjectIdError('Wait until the project number has been reserved');
       return;
-    } else {
-      setProjectIdError(null);
     }
+    // Numbers from before a format change are kept; a changed one has to follow the current format
+    if (formData.projectId !== project?.projectId && !matchesProjectNumberFormat(settings, formData.projectId)) {
+      const digits = settings.projectNumberPadding;
+      setProjectIdError(
+        `Project ID must start with ${settings.projectNumberPrefix} and be followed by at least ${digits} digit${digits === 1 ? '' : 's'} (e.g., ${formatProjectNumber(settings, 1000)})`
+      );
+      return;
+    }
+    setProjectIdError(null);
+
+    if (!selectedClient) {
+      setClientError('Select a client or create a new one');
+      return;
+    }
+    setClientError(null);
+
+    // The shares are shown with their problem next to them
+    if (sharesError) return;
+
+    // Debug: Log the assignees
+    console.log('Submitting project with assignees:', formData.assignees);
     
-    // Debug: Log the assignedTo field
-    console.log('Submitting project with assignedTo:', formData.assignedTo);
-    console.log('Selected employee:', selectedEmployee);
-    
-    // Join projectTypes as a comma-separated string for DB compatibility
-    onSave({
-      ...formData,
-      projectDescription: formData.projectTypes.join(','),
-    });
+    const { projectTypeIds, ...fields } = formData;
+    const projectData = {
+      ...fields,
+      clientName: selectedClient.name,
+      clientUniOrg: selectedClient.uniOrg,
+      projectTypes: projectTypes.filter(type => projectTypeIds.includes(type.id)),
+    };
+
+    // Payments on existing projects are managed through the ledger; only a new project's advance is recorded here
+    if (project) {
+      save(projectData, undefined, baseUpdatedAt);
+    } else {
+      save(projectData, {
+        paymentDate: new Date().toISOString().slice(0, 10),
+        amount: formData.advance,
+        method: advanceMethod,
+        reference: 'Advance',
+      });
+    }
   };
 
   const statuses: Project['status'][] = [
@@ -205,61 +322,100 @@ export const ProjectModal = forwardRef<ProjectModalRef, ProjectModalProps>(({
         <div className="p-6">
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-2xl font-bold text-[#F6E9E9] font-['Playfair_Display']">
-              {project ? 'Edit Project' : 'Add New Project'}
+              {project ? (showHistory ? 'Project History' : 'Edit Project') : 'Add New Project'}
             </h2>
-            <button
-              onClick={onClose}
-              className="p-2 bg-[#272121]/50 text-[#F6E9E9] rounded-lg hover:bg-[#E16428]/20 transition-all duration-300"
-            >
-              <X className="w-5 h-5" />
-            </button>
+            <div className="flex items-center gap-2">
+              {project && can(role, 'view_project_history') && !conflict && (
+                <button
+                  type="button"
+                  onClick={() => setShowHistory(prev => !prev)}
+                  className={`p-2 rounded-lg transition-all duration-300 ${
+                    showHistory ? 'bg-[#E16428] text-white' : 'bg-[#272121]/50 text-[#F6E9E9] hover:bg-[#E16428]/20'
+                  }`}
+                  title={showHistory ? 'Back to the project' : 'History'}
+                >
+                  <History className="w-5 h-5" />
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="p-2 bg-[#272121]/50 text-[#F6E9E9] rounded-lg hover:bg-[#E16428]/20 transition-all duration-300"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
           </div>
 
+          {conflict ? (
+            <ConflictDiff
+              fields={getConflictFields(conflict.mine, conflict.current)}
+              onSave={handleResolve}
+              onDiscard={onClose}
+            />
+          ) : showHistory && project ? (
+            <ProjectHistory projectId={project.id} employeeName={employeeName} />
+          ) : (
           <form onSubmit={handleSubmit} className="space-y-4" ref={formRef}>
             <div>
               <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
                 Project ID <span className="text-[#E16428]">*</span>
               </label>
-              <input
-                type="text"
-                value={formData.projectId}
-                onChange={e => setFormData({ ...formData, projectId: e.target.value.toUpperCase() })}
-                className="w-full px-4 py-3 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] placeholder-[#F6E9E9]/50 focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter']"
-                placeholder="PJ1000"
-                required
-                maxLength={16}
-              />
-              {projectIdError && (
-                <div className="text-red-400 text-xs mt-1">{projectIdError}</div>
-              )}
-            </div>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
-                  Client Name
-                </label>
+              {project ? (
                 <input
                   type="text"
-                  value={formData.clientName}
-                  onChange={(e) => setFormData({ ...formData, clientName: e.target.value })}
+                  value={formData.projectId}
+                  onChange={e => setFormData({ ...formData, projectId: e.target.value.toUpperCase() })}
                   className="w-full px-4 py-3 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] placeholder-[#F6E9E9]/50 focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter']"
+                  placeholder={formatProjectNumber(settings, 1000)}
                   required
+                  maxLength={21}
                 />
-              </div>
+              ) : (
+                <div className="flex items-center justify-between px-4 py-3 bg-[#272121]/30 border border-[#E16428]/20 rounded-lg font-['Inter']">
+                  <span className="text-[#F6E9E9] font-semibold tracking-wide">
+                    {projectNumberStatus === 'reserving' ? 'Reserving...' : formData.projectId}
+                  </span>
+                  {projectNumberStatus === 'reserved' && (
+                    <span className="text-green-400 text-xs">Reserved for this project</span>
+                  )}
+                  {projectNumberStatus === 'local' && (
+                    <span className="text-yellow-400 text-xs">Offline: not reserved yet</span>
+                  )}
+                </div>
+              )}
+              {!project && projectNumberStatus === 'local' && (
+                <div className="text-[#F6E9E9]/60 text-xs mt-1">
+                  Continues from the projects on this device and may clash with one added elsewhere in the meantime.
+                </div>
+              )}
+              {projectIdError && (
+                <div className="text-red-400 text-xs mt-1">{projectIdError}</div>
+              )}
+            </div>
 
-              <div>
-                <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
-                  Client University/Organization
-                </label>
-                <input
-                  type="text"
-                  value={formData.clientUniOrg}
-                  onChange={(e) => setFormData({ ...formData, clientUniOrg: e.target.value })}
-                  className="w-full px-4 py-3 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] placeholder-[#F6E9E9]/50 focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter']"
-                  required
-                />
-              </div>
+            <div>
+              <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
+                Client
+              </label>
+              <ClientPicker
+                clients={clients}
+                value={selectedClient}
+                onChange={client => setFormData({ ...formData, clientId: client.id })}
+                onCreate={addClient}
+                loading={clientsLoading}
+                organizations={organizations}
+              />
+              {selectedClient?.uniOrg && (
+                <div className="text-[#F6E9E9]/60 text-xs mt-1">{selectedClient.uniOrg}</div>
+              )}
+              {project && !project.clientId && !selectedClient && (
+                <div className="text-yellow-400 text-xs mt-1">
+                  Saved as "{project.clientName}" ({project.clientUniOrg}) before clients existed; pick or create the matching client.
+                </div>
+              )}
+              {clientError && (
+                <div className="text-red-400 text-xs mt-1">{clientError}</div>
+              )}
             </div>
 
             <div>
@@ -271,7 +427,7 @@ export const ProjectModal = forwardRef<ProjectModalRef, ProjectModalProps>(({
                   <label key={type.id} className="flex items-center space-x-2 cursor-pointer px-3 py-2 rounded-lg bg-[#272121]/40 border border-[#E16428]/20 hover:bg-[#E16428]/10 transition">
                     <input
                       type="checkbox"
-                      checked={formData.projectTypes.includes(type.id)}
+                      checked={formData.projectTypeIds.includes(type.id)}
                       onChange={() => handleTypeChange(type.id)}
                       className="accent-[#E16428] w-5 h-5 rounded border-2 border-[#E16428] focus:ring-2 focus:ring-[#E16428] transition"
                     />
@@ -299,30 +455,36 @@ export const ProjectModal = forwardRef<ProjectModalRef, ProjectModalProps>(({
                 <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
                   Assigned To
                 </label>
-                <Listbox value={selectedEmployee} onChange={setSelectedEmployee}>
+                <Listbox
+                  value={formData.assignees.map(assignee => assignee.employeeId)}
+                  onChange={handleAssigneesChange}
+                  multiple
+                >
                   <div className="relative">
                     <Listbox.Button className="w-full px-4 py-3 bg-[#363333] border border-[#E16428]/60 rounded-lg text-[#F6E9E9] flex justify-between items-center">
-                      {selectedEmployee
-                        ? `${selectedEmployee.firstName} ${selectedEmployee.lastName}`
-                        : loading
-                        ? 'Loading employees...'
-                        : 'Select employee'}
-                      <ChevronDown className="w-5 h-5 ml-2 text-[#E16428]" />
+                      <span className="truncate">
+                        {formData.assignees.length > 0
+                          ? formData.assignees.map(assignee => employeeName(assignee.employeeId)).join(', ')
+                          : loading
+                          ? 'Loading employees...'
+                          : 'Select employees'}
+                      </span>
+                      <ChevronDown className="w-5 h-5 ml-2 flex-shrink-0 text-[#E16428]" />
                     </Listbox.Button>
                     <Listbox.Options className="absolute z-10 mt-1 w-full bg-[#272121] border border-[#E16428]/40 rounded-lg shadow-lg max-h-60 overflow-auto">
                       {loading ? (
                         <div className="px-4 py-2 text-[#F6E9E9]/70 text-center">
                           Loading employees...
                         </div>
-                      ) : employees.length === 0 ? (
+                      ) : assignableEmployees.length === 0 ? (
                         <div className="px-4 py-2 text-[#F6E9E9]/70 text-center">
                           No employees found
                         </div>
                       ) : (
-                        employees.map(emp => (
+                        assignableEmployees.map(emp => (
                           <Listbox.Option
                             key={emp.id}
-                            value={emp}
+                            value={emp.id}
                             className={({ active, selected }: { active: boolean; selected: boolean }) =>
                               `cursor-pointer select-none px-4 py-2 ${
                                 active
@@ -336,6 +498,9 @@ export const ProjectModal = forwardRef<ProjectModalRef, ProjectModalProps>(({
                             {({ selected }: { selected: boolean }) => (
                               <span className="flex items-center">
                                 {emp.firstName} {emp.lastName}
+                                {emp.status !== 'active' && (
+                                  <span className="ml-2 text-xs text-[#F6E9E9]/50">{EMPLOYEE_STATUS_LABELS[emp.status]}</span>
+                                )}
                                 {selected && <Check className="w-4 h-4 ml-2 text-[#E16428]" />}
                               </span>
                             )}
@@ -363,19 +528,47 @@ export const ProjectModal = forwardRef<ProjectModalRef, ProjectModalProps>(({
                 />
               </div>
 
-              <div>
-                <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
-                  Advance (LKR)
-                </label>
-                <input
-                  type="number"
-                  value={formData.advance}
-                  onChange={(e) => setFormData({ ...formData, advance: Number(e.target.value) })}
-                  className="w-full px-4 py-3 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] placeholder-[#F6E9E9]/50 focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter']"
-                  required
-                  min="0"
-                />
-              </div>
+              {project ? (
+                <div>
+                  <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
+                    Paid / Balance Due (LKR)
+                  </label>
+                  <div className="w-full px-4 py-3 bg-[#272121]/30 border border-[#E16428]/10 rounded-lg font-['Inter'] text-sm">
+                    <span className="text-green-400">{getTotalPaid(project).toLocaleString()}</span>
+                    <span className="text-[#F6E9E9]/50"> / </span>
+                    <span className={getBalanceDue({ ...project, price: formData.price }) > 0 ? 'text-red-400' : 'text-green-400'}>
+                      {getBalanceDue({ ...project, price: formData.price }).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-[#F6E9E9]/50 text-xs mt-1">Record payments from the project's payment ledger</p>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
+                    Advance (LKR)
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      value={formData.advance}
+                      onChange={(e) => setFormData({ ...formData, advance: Number(e.target.value) })}
+                      className="w-full px-4 py-3 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] placeholder-[#F6E9E9]/50 focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter']"
+                      required
+                      min="0"
+                    />
+                    <select
+                      value={advanceMethod}
+                      onChange={(e) => setAdvanceMethod(e.target.value as PaymentMethod)}
+                      className="px-2 py-3 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter'] text-sm"
+                      title="Payment method"
+                    >
+                      {PAYMENT_METHODS.map(method => (
+                        <option key={method} value={method} className="bg-[#272121] text-[#F6E9E9]">{method}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )}
 
               <div>
                 <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
@@ -388,7 +581,7 @@ export const ProjectModal = forwardRef<ProjectModalRef, ProjectModalProps>(({
                     const val = e.target.value;
                     // Allow empty, minus, and numbers only
                     if (/^-?\d*$/.test(val)) {
-                      setFormData({ ...formData, paymentOfEmp: val === '' ? 0 : Number(val) });
+                      handlePaymentOfEmpChange(val === '' ? 0 : Number(val));
                     }
                   }}
                   className="w-full px-4 py-3 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] placeholder-[#F6E9E9]/50 focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter']"
@@ -404,6 +597,55 @@ export const ProjectModal = forwardRef<ProjectModalRef, ProjectModalProps>(({
               </div>
             </div>
 
+            {formData.assignees.length > 0 && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-[#F6E9E9] text-sm font-medium font-['Inter']">
+                    Shares of the Employee Payment (LKR)
+                  </label>
+                  {formData.assignees.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, assignees: splitShares(prev.assignees, prev.paymentOfEmp) }))}
+                      className="text-xs text-[#E16428] hover:underline font-['Inter']"
+                    >
+                      Split evenly
+                    </button>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  {formData.assignees.map(assignee => (
+                    <div key={assignee.employeeId} className="flex items-center gap-2">
+                      <span className="flex-1 min-w-0 truncate text-[#F6E9E9] text-sm font-['Inter']">
+                        {employeeName(assignee.employeeId)}
+                      </span>
+                      <select
+                        value={assignee.role}
+                        onChange={e => handleAssigneeChange(assignee.employeeId, { role: e.target.value as ProjectAssignee['role'] })}
+                        className="px-2 py-2 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter'] text-sm"
+                        title="Role"
+                      >
+                        {ASSIGNEE_ROLES.map(role => (
+                          <option key={role} value={role} className="bg-[#272121] text-[#F6E9E9]">{ASSIGNEE_ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={assignee.share}
+                        onChange={e => handleAssigneeChange(assignee.employeeId, { share: Number(e.target.value) })}
+                        className="w-32 px-3 py-2 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter'] text-sm"
+                        title="Share"
+                      />
+                    </div>
+                  ))}
+                </div>
+                {sharesError && (
+                  <div className="text-red-400 text-xs mt-1">{sharesError}</div>
+                )}
+              </div>
+            )}
+
             <div>
               <label className="block text-[#F6E9E9] text-sm font-medium mb-2 font-['Inter']">
                 Status
@@ -453,6 +695,7 @@ export const ProjectModal = forwardRef<ProjectModalRef, ProjectModalProps>(({
               </button>
             </div>
           </form>
+          )}
         </div>
       </GlassCard>
     </div>
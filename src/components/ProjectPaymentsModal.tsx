@@ -0,0 +1,337 @@
+import React, { useEffect, useState } from 'react';
+import { X, Plus, Edit, Save, Ban, Wallet } from 'lucide-react';
+import { PaymentMethod, Project, ProjectPayment } from '../types';
+import { GlassCard } from './GlassCard';
+import { PAYMENT_METHODS, getBalanceDue, getTotalPaid } from '../utils/payments';
+
+interface ProjectPaymentsModalProps {
+  project: Project;
+  onClose: () => void;
+  onAddPayment: (payment: Omit<ProjectPayment, 'id'>) => Promise<void>;
+  onUpdatePayment: (
+    projectId: string,
+    paymentId: string,
+    updates: Partial<Omit<ProjectPayment, 'id' | 'projectId'>>
+  ) => Promise<void>;
+  onVoidPayment: (projectId: string, paymentId: string, reason: string) => Promise<void>;
+}
+
+const emptyPayment = () => ({
+  paymentDate: new Date().toISOString().slice(0, 10),
+  amount: 0,
+  method: 'Cash' as PaymentMethod,
+  reference: '',
+});
+
+export const ProjectPaymentsModal: React.FC<ProjectPaymentsModalProps> = ({
+  project,
+  onClose,
+  onAddPayment,
+  onUpdatePayment,
+  onVoidPayment,
+}) => {
+  const [newPayment, setNewPayment] = useState(emptyPayment());
+  const [editingPaymentId, setEditingPaymentId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState(emptyPayment());
+  const [voidingPayment, setVoidingPayment] = useState<ProjectPayment | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const payments = project.payments || [];
+  const totalPaid = getTotalPaid(project);
+  const balanceDue = getBalanceDue(project);
+
+  // ESC key handler to close modal (or the void confirmation first)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        if (voidingPayment) {
+          setVoidingPayment(null);
+        } else {
+          onClose();
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, voidingPayment]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPayment.amount <= 0) return;
+    setSaving(true);
+    await onAddPayment({ ...newPayment, projectId: project.id });
+    setNewPayment(emptyPayment());
+    setSaving(false);
+  };
+
+  const startEdit = (payment: ProjectPayment) => {
+    setEditingPaymentId(payment.id);
+    setEditForm({
+      paymentDate: payment.paymentDate,
+      amount: payment.amount,
+      method: payment.method,
+      reference: payment.reference,
+    });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingPaymentId || editForm.amount <= 0) return;
+    setSaving(true);
+    await onUpdatePayment(project.id, editingPaymentId, editForm);
+    setEditingPaymentId(null);
+    setSaving(false);
+  };
+
+  const handleConfirmVoid = async () => {
+    if (!voidingPayment) return;
+    setSaving(true);
+    await onVoidPayment(project.id, voidingPayment.id, voidReason.trim());
+    setVoidingPayment(null);
+    setVoidReason('');
+    setSaving(false);
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] placeholder-[#F6E9E9]/50 focus:outline-none focus:border-[#E16428] transition-all duration-300 font-['Inter'] text-sm";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-xl flex items-center justify-center p-4 z-50 animate-fadeIn">
+      <GlassCard className="w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-2xl font-bold text-[#F6E9E9] font-['Playfair_Display']">
+                Payments
+              </h2>
+              <p className="text-[#F6E9E9]/60 text-sm font-['Inter']">
+                {project.projectId} · {project.clientName}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 bg-[#272121]/50 text-[#F6E9E9] rounded-lg hover:bg-[#E16428]/20 transition-all duration-300"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Summary */}
+          <div className="grid grid-cols-3 gap-3 mb-6">
+            <div className="p-3 rounded-lg bg-[#272121]/50 border border-[#E16428]/10">
+              <p className="text-[#F6E9E9]/60 text-xs">Price</p>
+              <p className="text-[#E16428] font-bold text-sm sm:text-base">LKR {project.price.toLocaleString()}</p>
+            </div>
+            <div className="p-3 rounded-lg bg-[#272121]/50 border border-[#E16428]/10">
+              <p className="text-[#F6E9E9]/60 text-xs">Paid</p>
+              <p className="text-green-400 font-bold text-sm sm:text-base">LKR {totalPaid.toLocaleString()}</p>
+            </div>
+            <div className="p-3 rounded-lg bg-[#272121]/50 border border-[#E16428]/10">
+              <p className="text-[#F6E9E9]/60 text-xs">Balance Due</p>
+              <p className={`font-bold text-sm sm:text-base ${balanceDue > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                LKR {balanceDue.toLocaleString()}
+              </p>
+            </div>
+          </div>
+
+          {/* Ledger */}
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full min-w-[560px]">
+              <thead>
+                <tr className="border-b border-[#E16428]/20">
+                  <th className="text-left text-xs text-[#F6E9E9]/70 font-normal p-2 font-['Inter']">date</th>
+                  <th className="text-left text-xs text-[#F6E9E9]/70 font-normal p-2 font-['Inter']">amount</th>
+                  <th className="text-left text-xs text-[#F6E9E9]/70 font-normal p-2 font-['Inter']">method</th>
+                  <th className="text-left text-xs text-[#F6E9E9]/70 font-normal p-2 font-['Inter']">reference</th>
+                  <th className="text-left text-xs text-[#F6E9E9]/70 font-normal p-2 font-['Inter']">actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {payments.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="py-6 text-center text-[#F6E9E9]/60 text-sm font-['Inter']">
+                      No payments recorded yet
+                    </td>
+                  </tr>
+                ) : (
+                  payments.map(payment =>
+                    editingPaymentId === payment.id ? (
+                      <tr key={payment.id} className="border-b border-[#E16428]/10 text-sm">
+                        <td className="p-2">
+                          <input
+                            type="date"
+                            value={editForm.paymentDate}
+                            onChange={e => setEditForm({ ...editForm, paymentDate: e.target.value })}
+                            className={inputClass}
+                          />
+                        </td>
+                        <td className="p-2">
+                          <input
+                            type="number"
+                            min="0"
+                            value={editForm.amount}
+                            onChange={e => setEditForm({ ...editForm, amount: Number(e.target.value) })}
+                            className={inputClass}
+                          />
+                        </td>
+                        <td className="p-2">
+                          <select
+                            value={editForm.method}
+                            onChange={e => setEditForm({ ...editForm, method: e.target.value as PaymentMethod })}
+                            className={inputClass}
+                          >
+                            {PAYMENT_METHODS.map(method => (
+                              <option key={method} value={method} className="bg-[#272121] text-[#F6E9E9]">{method}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="p-2">
+                          <input
+                            type="text"
+                            value={editForm.reference}
+                            onChange={e => setEditForm({ ...editForm, reference: e.target.value })}
+                            className={inputClass}
+                          />
+                        </td>
+                        <td className="p-2">
+                          <div className="flex space-x-2">
+                            <button onClick={handleSaveEdit} disabled={saving} className="p-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-all duration-300 disabled:opacity-50" title="Save">
+                              <Save className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => setEditingPaymentId(null)} className="p-2 bg-[#272121]/60 text-[#F6E9E9] rounded-lg hover:bg-[#E16428]/20 transition-all duration-300" title="Cancel">
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ) : (
+                      <tr key={payment.id} className={`border-b border-[#E16428]/10 text-sm ${payment.voidedAt ? 'opacity-50' : ''}`}>
+                        <td className="p-2 text-[#F6E9E9] font-['Inter']">{new Date(payment.paymentDate).toLocaleDateString()}</td>
+                        <td className={`p-2 font-bold font-['Inter'] ${payment.voidedAt ? 'line-through text-[#F6E9E9]/60' : 'text-green-400'}`}>
+                          LKR {payment.amount.toLocaleString()}
+                        </td>
+                        <td className="p-2 text-[#F6E9E9]/80 font-['Inter']">{payment.method}</td>
+                        <td className="p-2 text-[#F6E9E9]/80 font-['Inter']">
+                          {payment.reference || '-'}
+                          {payment.voidedAt && (
+                            <span className="block text-xs text-red-400">
+                              voided{payment.voidReason ? `: ${payment.voidReason}` : ''}
+                            </span>
+                          )}
+                        </td>
+                        <td className="p-2">
+                          {!payment.voidedAt && (
+                            <div className="flex space-x-2">
+                              <button onClick={() => startEdit(payment)} className="p-2 bg-[#E16428]/20 text-[#E16428] rounded-lg hover:bg-[#E16428]/30 transition-all duration-300" title="Edit payment">
+                                <Edit className="w-4 h-4" />
+                              </button>
+                              <button onClick={() => setVoidingPayment(payment)} className="p-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-all duration-300" title="Void payment">
+                                <Ban className="w-4 h-4" />
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  )
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Add payment */}
+          <form onSubmit={handleAdd} className="space-y-3">
+            <h3 className="text-[#F6E9E9] font-semibold font-['Poppins'] flex items-center gap-2">
+              <Wallet className="w-4 h-4 text-[#E16428]" /> Record Payment
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <input
+                type="date"
+                value={newPayment.paymentDate}
+                onChange={e => setNewPayment({ ...newPayment, paymentDate: e.target.value })}
+                className={inputClass}
+                required
+              />
+              <input
+                type="number"
+                min="1"
+                value={newPayment.amount || ''}
+                onChange={e => setNewPayment({ ...newPayment, amount: Number(e.target.value) })}
+                className={inputClass}
+                placeholder={balanceDue > 0 ? `Amount (due ${balanceDue.toLocaleString()})` : 'Amount'}
+                required
+              />
+              <select
+                value={newPayment.method}
+                onChange={e => setNewPayment({ ...newPayment, method: e.target.value as PaymentMethod })}
+                className={inputClass}
+              >
+                {PAYMENT_METHODS.map(method => (
+                  <option key={method} value={method} className="bg-[#272121] text-[#F6E9E9]">{method}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={newPayment.reference}
+                onChange={e => setNewPayment({ ...newPayment, reference: e.target.value })}
+                className={inputClass}
+                placeholder="Reference / receipt no."
+              />
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-6 py-3 bg-gradient-to-r from-[#E16428] to-[#E16428]/80 text-white rounded-lg hover:scale-105 transition-all duration-300 shadow-lg font-['Poppins'] flex items-center gap-2 disabled:opacity-50 disabled:hover:scale-100"
+              >
+                <Plus className="w-4 h-4" /> Add Payment
+              </button>
+            </div>
+          </form>
+        </div>
+      </GlassCard>
+
+      {/* Void Confirmation Modal */}
+      {voidingPayment && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60] animate-fadeIn">
+          <div className="bg-[#272121] rounded-2xl p-6 max-w-md w-full mx-4 border border-[#E16428]/20 shadow-2xl animate-scaleIn">
+            <div className="text-center">
+              <div className="w-16 h-16 bg-red-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Ban className="w-8 h-8 text-red-400" />
+              </div>
+              <h3 className="text-xl font-bold text-[#F6E9E9] mb-2 font-['Poppins']">
+                void payment?
+              </h3>
+              <p className="text-[#F6E9E9]/70 mb-4 font-['Inter']">
+                LKR {voidingPayment.amount.toLocaleString()} on {new Date(voidingPayment.paymentDate).toLocaleDateString()} will no longer count towards the balance.
+              </p>
+              <input
+                type="text"
+                value={voidReason}
+                onChange={e => setVoidReason(e.target.value)}
+                className={`${inputClass} mb-6`}
+                placeholder="Reason (optional)"
+                autoFocus
+              />
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setVoidingPayment(null)}
+                  className="flex-1 px-4 py-3 bg-[#363333] text-[#F6E9E9] rounded-lg hover:bg-[#363333]/80 transition-all duration-300 font-['Poppins']"
+                >
+                  cancel
+                </button>
+                <button
+                  onClick={handleConfirmVoid}
+                  disabled={saving}
+                  className="flex-1 px-4 py-3 bg-gradient-to-r from-red-500 to-red-600 text-white rounded-lg hover:scale-105 transition-all duration-300 shadow-lg font-['Poppins'] disabled:opacity-50"
+                >
+                  void
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,19 +3,15 @@ import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import { X, Download, Share2, Zap } from 'lucide-react';
 import { Project } from '../types';
-
-interface ProjectType {
-  id: string;
-  name: string;
-}
+import { getActivePayments, getBalanceDue, getTotalPaid } from '../utils/payments';
+import { getProjectTypeNames } from '../utils/projectTypes';
 
 interface ProjectReceiptModalProps {
   project: Project;
-  projectTypes: ProjectType[];
   onClose: () => void;
 }
 
-export const ProjectReceiptModal: React.FC<ProjectReceiptModalProps> = ({ project, projectTypes, onClose }) => {
+export const ProjectReceiptModal: React.FC<ProjectReceiptModalProps> = ({ project, onClose }) => {
   const receiptRef = useRef<HTMLDivElement>(null);
 
   // ESC key handler to close modal
@@ -30,16 +26,6 @@ export const ProjectReceiptModal: React.FC<ProjectReceiptModalProps> = ({ projec
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [onClose]);
 
-  const getProjectTypeNames = (projectDescription: string) => {
-    if (!projectDescription) return 'No types specified';
-    const typeIds = projectDescription.split(',').map((id: string) => id.trim());
-    const typeNames = typeIds.map((id: string) => {
-      const type = projectTypes.find((t: ProjectType) => t.id === id);
-      return type ? type.name : `Unknown Type (${id})`;
-    });
-    return typeNames.join(', ');
-  };
-
   const handleDownload = async () => {
     const element = receiptRef.current;
     if (!element) return;
@@ -112,7 +98,7 @@ export const ProjectReceiptModal: React.FC<ProjectReceiptModalProps> = ({ projec
               </div>
               <div className="flex justify-between py-2">
                 <span className="text-xs text-[#363333]/80 font-medium">Project Types</span>
-                <span className="text-xs text-[#363333] text-right">{getProjectTypeNames(project.projectDescription)}</span>
+                <span className="text-xs text-[#363333] text-right">{getProjectTypeNames(project)}</span>
               </div>
               <div className="flex justify-between py-2">
                 <span className="text-xs text-[#363333]/80 font-medium">Deadline</span>
@@ -122,13 +108,22 @@ export const ProjectReceiptModal: React.FC<ProjectReceiptModalProps> = ({ projec
                 <span className="text-xs text-[#363333]/80 font-medium">Price</span>
                 <span className="text-xs text-black font-bold text-right">LKR {project.price.toLocaleString()}</span>
               </div>
+              {getActivePayments(project).map(payment => (
+                <div key={payment.id} className="flex justify-between py-2">
+                  <span className="text-xs text-[#363333]/80 font-medium">
+                    {new Date(payment.paymentDate).toLocaleDateString()} · {payment.method}
+                    {payment.reference && <span className="text-[#363333]/50"> ({payment.reference})</span>}
+                  </span>
+                  <span className="text-xs text-green-600 text-right">LKR {payment.amount.toLocaleString()}</span>
+                </div>
+              ))}
               <div className="flex justify-between py-2">
-                <span className="text-xs text-[#363333]/80 font-medium">Advance</span>
-                <span className="text-xs text-green-600 font-bold text-right">LKR {project.advance.toLocaleString()}</span>
+                <span className="text-xs text-[#363333]/80 font-medium">Total Paid</span>
+                <span className="text-xs text-green-600 font-bold text-right">LKR {getTotalPaid(project).toLocaleString()}</span>
               </div>
               <div className="flex justify-between py-2">
-                <span className="text-xs text-[#363333]/80 font-medium">Balance</span>
-                <span className="text-xs text-red-600 font-bold text-right">LKR {(project.price - project.advance).toLocaleString()}</span>
+                <span className="text-xs text-[#363333]/80 font-medium">Balance Due</span>
+                <span className="text-xs text-red-600 font-bold text-right">LKR {getBalanceDue(project).toLocaleString()}</span>
               </div>
               <div className="flex justify-between py-2 items-center">
                 <span className="text-xs text-[#363333]/80 font-medium">Status</span>
@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { Edit, Trash2, Calendar, AlertTriangle, FileText } from 'lucide-react';
-import { Project, Employee } from '../types';
+import { Edit, Trash2, Calendar, AlertTriangle, FileText, Wallet, CloudOff } from 'lucide-react';
+import { Project, Employee, Role } from '../types';
 import { GlassCard } from './GlassCard';
-import { supabase } from '../supabaseClient';
 import { ProjectReceiptModal } from './ProjectReceiptModal';
+import { getBalanceDue } from '../utils/payments';
+import { getProjectTypeNames } from '../utils/projectTypes';
+import { getAssigneeNames } from '../utils/assignees';
+import { can } from '../permissions';
+import { useOutboxStore } from '../store/context';
 
 interface ProjectTableProps {
   projects: Project[];
@@ -11,11 +15,8 @@ interface ProjectTableProps {
   onEdit: (project: Project) => void;
   onDelete: (id: string) => void;
   onUpdateStatus: (id: string, updates: Partial<Project>) => void;
-}
-
-interface ProjectType {
-  id: string;
-  name: string;
+  onManagePayments: (project: Project) => void;
+  role: Role;
 }
 
 export const ProjectTable: React.FC<ProjectTableProps> = ({
@@ -24,8 +25,14 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
   onEdit,
   onDelete,
   onUpdateStatus,
+  onManagePayments,
+  role,
 }) => {
-  const [projectTypes, setProjectTypes] = useState<ProjectType[]>([]);
+  const showFinancials = can(role, 'view_financials');
+  const canEdit = can(role, 'edit_projects');
+  const canDelete = can(role, 'delete_projects');
+  const canManagePayments = can(role, 'manage_payments');
+  const { pendingIds } = useOutboxStore();
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
   const [deletingProject, setDeletingProject] = useState<Project | null>(null);
   const [receiptProject, setReceiptProject] = useState<Project | null>(null);
@@ -37,17 +44,6 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
     currentPage * recordsPerPage
   );
 
-  // Fetch project types from database
-  useEffect(() => {
-    async function fetchProjectTypes() {
-      const { data, error } = await supabase.from('project_types').select('*');
-      if (!error && data) {
-        setProjectTypes(data);
-      }
-    }
-    fetchProjectTypes();
-  }, []);
-
   // Debug employees array changes
   useEffect(() => {
     console.log('ProjectTable: Employees array updated:', employees);
@@ -75,42 +71,6 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [confirmDeleteId, receiptProject]);
 
-  const getEmployeeName = (employeeId: string) => {
-    if (!employeeId) return 'Unassigned';
-    
-    console.log('Looking for employee with ID:', employeeId);
-    console.log('Available employees:', employees);
-    
-    const employee = employees.find(emp => emp.id === employeeId);
-    
-    if (employee) {
-      console.log('Found employee:', employee);
-      return `${employee.firstName} ${employee.lastName}`;
-    } else {
-      console.log('Employee not found for ID:', employeeId);
-      // Try to find by employeeId field as well
-      const employeeByEmployeeId = employees.find(emp => emp.employeeId === employeeId);
-      if (employeeByEmployeeId) {
-        console.log('Found employee by employeeId:', employeeByEmployeeId);
-        return `${employeeByEmployeeId.firstName} ${employeeByEmployeeId.lastName}`;
-      }
-      return `Unassigned (ID: ${employeeId})`;
-    }
-  };
-
-  const getProjectTypeNames = (projectDescription: string) => {
-    if (!projectDescription) return 'No types specified';
-    
-    // Split comma-separated IDs and map to names
-    const typeIds = projectDescription.split(',').map(id => id.trim());
-    const typeNames = typeIds.map(id => {
-      const type = projectTypes.find(t => t.id === id);
-      return type ? type.name : `Unknown Type (${id})`;
-    });
-    
-    return typeNames.join(', ');
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Running':
@@ -190,6 +150,7 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                   
                   {/* Action buttons */}
                   <div className="flex items-center gap-1.5 ml-2">
+                  {canEdit && (
                   <button
                     onClick={() => onEdit(project)}
                       className="p-2 bg-[#E16428]/20 text-[#E16428] rounded-xl hover:bg-[#E16428]/30 transition-all duration-200 hover:scale-110"
@@ -199,6 +160,8 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                       </svg>
                   </button>
+                  )}
+                    {showFinancials && (
                     <button
                       onClick={() => setReceiptProject(project)}
                       className="p-2 bg-blue-500/20 text-blue-400 rounded-xl hover:bg-blue-500/30 transition-all duration-200 hover:scale-110"
@@ -208,6 +171,17 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                       </svg>
                     </button>
+                    )}
+                    {canManagePayments && (
+                    <button
+                      onClick={() => onManagePayments(project)}
+                      className="p-2 bg-green-500/20 text-green-400 rounded-xl hover:bg-green-500/30 transition-all duration-200 hover:scale-110"
+                      title="Payments"
+                    >
+                      <Wallet className="w-4 h-4" />
+                    </button>
+                    )}
+                    {canDelete && (
                     <button
                       onClick={() => handleDeleteClick(project)}
                       className="p-2 bg-red-500/20 text-red-400 rounded-xl hover:bg-red-500/30 transition-all duration-200 hover:scale-110"
@@ -217,22 +191,20 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                       </svg>
                     </button>
+                    )}
                 </div>
               </div>
               
                 {/* Project types with icons */}
                 <div className="flex flex-wrap gap-1.5 mb-3">
-                  {project.projectDescription.split(',').map((typeId, idx) => {
-                    const type = projectTypes.find(t => t.id === typeId.trim());
-                    return (
-                      <span key={idx} className="inline-flex items-center gap-1 bg-[#E16428]/15 text-[#E16428] rounded-full px-2.5 py-1 text-xs font-medium border border-[#E16428]/20">
-                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
-                        </svg>
-                        {type ? type.name : typeId.trim()}
-                      </span>
-                    );
-                  })}
+                  {project.projectTypes.map(type => (
+                    <span key={type.id} className="inline-flex items-center gap-1 bg-[#E16428]/15 text-[#E16428] rounded-full px-2.5 py-1 text-xs font-medium border border-[#E16428]/20">
+                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
+                      </svg>
+                      {type.name}
+                    </span>
+                  ))}
                   {project.fastDeliver && (
                     <span className="inline-flex items-center gap-1 bg-yellow-500/20 text-yellow-400 rounded-full px-2.5 py-1 text-xs font-medium border border-yellow-500/30">
                       <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -241,6 +213,12 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                       Fast
                       </span>
                   )}
+                  {pendingIds.has(project.id) && (
+                    <span className="inline-flex items-center gap-1 bg-[#F6E9E9]/10 text-[#F6E9E9]/70 rounded-full px-2.5 py-1 text-xs font-medium border border-[#F6E9E9]/20">
+                      <CloudOff className="w-3 h-3" />
+                      Not synced
+                    </span>
+                  )}
                 </div>
 
                 {/* Project details grid */}
@@ -255,7 +233,7 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                     <div className="min-w-0 flex-1">
                       <p className="text-[#F6E9E9]/60 text-xs">Assigned</p>
                       <p className="text-[#F6E9E9] text-sm font-medium truncate">
-                        {getEmployeeName(project.assignedTo)}
+                        {getAssigneeNames(project, employees)}
                       </p>
                     </div>
                   </div>
@@ -275,6 +253,8 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                     </div>
                   </div>
 
+                  {showFinancials && (
+                  <>
                   {/* Price */}
                   <div className="flex items-center gap-2">
                     <div className="w-8 h-8 bg-green-500/20 rounded-full flex items-center justify-center">
@@ -287,6 +267,9 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                       <p className="text-[#E16428] text-sm font-bold">
                         LKR {project.price.toLocaleString()}
                       </p>
+                      <p className={`text-xs ${getBalanceDue(project) > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                        due LKR {getBalanceDue(project).toLocaleString()}
+                      </p>
                 </div>
                   </div>
 
@@ -304,6 +287,8 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                       </p>
                     </div>
                   </div>
+                  </>
+                  )}
                 </div>
 
                 {/* Status selector */}
@@ -315,6 +300,7 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                   <select
                     value={project.status}
                     onChange={(e) => handleStatusChange(project.id, e.target.value as Project['status'])}
+                    disabled={!canEdit}
                     className={`px-3 py-1.5 rounded-full text-xs font-medium border bg-transparent cursor-pointer transition-all duration-200 hover:scale-105 ${statusColors[project.status as keyof typeof statusColors] || 'bg-gray-500/20 text-gray-300 border-gray-500/30'}`}
                   >
                     {statuses.map((status) => (
@@ -333,7 +319,7 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
       {/* Desktop Table View */}
       <div className="hidden lg:block overflow-x-auto">
           <div className="relative min-h-[434px] max-h-[434px] overflow-x-auto custom-scrollbar flex flex-col justify-start">
-            <table className="w-full min-w-[900px]">
+            <table className="w-full min-w-[1000px]">
               <thead className="sticky top-0 z-10 bg-[#272121]">
             <tr className="border-b border-[#E16428]/20">
                   <th className="text-left align-middle text-xs sm:text-sm text-[#F6E9E9]/70 font-normal p-2 sm:p-4 font-['Inter'] whitespace-nowrap min-w-[40px]">no.</th>
@@ -341,8 +327,13 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                   <th className="text-left align-middle text-xs sm:text-sm text-[#F6E9E9]/70 font-normal p-2 sm:p-4 font-['Inter'] whitespace-nowrap min-w-[140px]">project types</th>
                   <th className="text-left align-middle text-xs sm:text-sm text-[#F6E9E9]/70 font-normal p-2 sm:p-4 font-['Inter'] whitespace-nowrap min-w-[120px]">assigned to</th>
                   <th className="text-left align-middle text-xs sm:text-sm text-[#F6E9E9]/70 font-normal p-2 sm:p-4 font-['Inter'] whitespace-nowrap min-w-[100px]">deadline</th>
+                  {showFinancials && (
+                    <>
                   <th className="text-left align-middle text-xs sm:text-sm text-[#F6E9E9]/70 font-normal p-2 sm:p-4 font-['Inter'] whitespace-nowrap min-w-[100px]">price</th>
+                  <th className="text-left align-middle text-xs sm:text-sm text-[#F6E9E9]/70 font-normal p-2 sm:p-4 font-['Inter'] whitespace-nowrap min-w-[100px]">balance due</th>
                   <th className="text-left align-middle text-xs sm:text-sm text-[#F6E9E9]/70 font-normal p-2 sm:p-4 font-['Inter'] whitespace-nowrap min-w-[100px]">emp. payment</th>
+                    </>
+                  )}
                   <th className="text-left align-middle text-xs sm:text-sm text-[#F6E9E9]/70 font-normal p-2 sm:p-4 font-['Inter'] whitespace-nowrap min-w-[100px]">status</th>
                   <th className="text-left align-middle text-xs sm:text-sm text-[#F6E9E9]/70 font-normal p-2 sm:p-4 font-['Inter'] whitespace-nowrap min-w-[100px]">actions</th>
             </tr>
@@ -350,7 +341,15 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
           <tbody>
                 {paginatedProjects.map((project) => (
                   <tr key={project.id} className="border-b border-[#E16428]/10 hover:bg-[#272121]/20 transition-all duration-300 text-xs sm:text-sm">
-                    <td className="p-2 sm:p-4 align-middle min-w-[40px] font-bold text-[#E16428]">{project.projectId}</td>
+                    <td className="p-2 sm:p-4 align-middle min-w-[40px] font-bold text-[#E16428]">
+                      {project.projectId}
+                      {pendingIds.has(project.id) && (
+                        <span className="flex items-center gap-1 mt-1 text-[10px] font-medium text-[#F6E9E9]/60" title="Saved on this device; waiting for the connection">
+                          <CloudOff className="w-3 h-3" />
+                          not synced
+                        </span>
+                      )}
+                    </td>
                     <td className="p-2 sm:p-4 align-middle min-w-[120px]">
                   <div>
                         <p className="text-[#F6E9E9] font-medium font-['Inter'] text-xs sm:text-sm">{project.clientName}</p>
@@ -359,7 +358,7 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                 </td>
                     <td className="p-2 sm:p-4 align-middle min-w-[140px]">
                       <div>
-                        <span className="text-[#F6E9E9] font-['Inter'] text-xs sm:text-sm break-words">{getProjectTypeNames(project.projectDescription)}</span>
+                        <span className="text-[#F6E9E9] font-['Inter'] text-xs sm:text-sm break-words">{getProjectTypeNames(project)}</span>
                         {project.fastDeliver && (
                           <div className="mt-1">
                             <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-[#E16428]/20 text-[#E16428] border border-[#E16428]/30">
@@ -370,7 +369,7 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                       </div>
                 </td>
                     <td className="p-2 sm:p-4 align-middle min-w-[120px]">
-                      <span className="text-[#F6E9E9] font-['Inter'] text-xs sm:text-sm">{getEmployeeName(project.assignedTo)}</span>
+                      <span className="text-[#F6E9E9] font-['Inter'] text-xs sm:text-sm">{getAssigneeNames(project, employees)}</span>
                 </td>
                     <td className="p-2 sm:p-4 align-middle min-w-[100px]">
                       <div className="flex items-center space-x-1 text-[#F6E9E9]/70 text-xs sm:text-sm">
@@ -378,9 +377,16 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                     <span className="font-['Inter']">{new Date(project.deadlineDate).toLocaleDateString()}</span>
                   </div>
                 </td>
+                    {showFinancials && (
+                      <>
                     <td className="p-2 sm:p-4 align-middle min-w-[100px]">
                       <span className="text-[#E16428] font-bold font-['Inter'] text-xs sm:text-sm">LKR {project.price.toLocaleString()}</span>
                     </td>
+                    <td className="p-2 sm:p-4 align-middle min-w-[100px]">
+                      <span className={`font-bold font-['Inter'] text-xs sm:text-sm ${getBalanceDue(project) > 0 ? 'text-red-400' : 'text-green-400/80'}`}>
+                        LKR {getBalanceDue(project).toLocaleString()}
+                      </span>
+                    </td>
                     <td className="p-2 sm:p-4 align-middle min-w-[100px]">
                       <span className={`flex items-center gap-1 font-medium ${project.paymentOfEmp < 0 ? 'text-yellow-400' : 'text-green-400/80'}`}>
                         {project.paymentOfEmp < 0 && (
@@ -389,10 +395,13 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                         LKR {project.paymentOfEmp.toLocaleString()}
                       </span>
                 </td>
+                      </>
+                    )}
                     <td className="p-2 sm:p-4 align-middle min-w-[100px]">
                   <select
                     value={project.status}
                     onChange={(e) => handleStatusChange(project.id, e.target.value as Project['status'])}
+                    disabled={!canEdit}
                     className={`px-3 py-1 rounded-full text-xs font-medium border bg-transparent cursor-pointer transition-all duration-300 hover:scale-105 ${getStatusColor(project.status)}`}
                   >
                     {statuses.map((status) => (
@@ -404,18 +413,23 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                 </td>
                     <td className="p-2 sm:p-4 align-middle min-w-[100px]">
                       <div className="flex space-x-2 items-center">
+                    {canEdit && (
                     <button
                       onClick={() => onEdit(project)}
                       className="p-2 bg-[#E16428]/20 text-[#E16428] rounded-lg hover:bg-[#E16428]/30 transition-all duration-300"
                     >
                       <Edit className="w-4 h-4" />
                     </button>
+                    )}
+                    {canDelete && (
                     <button
                           onClick={() => handleDeleteClick(project)}
                       className="p-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-all duration-300"
                     >
                       <Trash2 className="w-4 h-4" />
                     </button>
+                    )}
+                        {showFinancials && (
                         <button
                           onClick={() => setReceiptProject(project)}
                           className="p-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-all duration-300"
@@ -423,6 +437,16 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                         >
                           <FileText className="w-4 h-4" />
                         </button>
+                        )}
+                        {canManagePayments && (
+                        <button
+                          onClick={() => onManagePayments(project)}
+                          className="p-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-all duration-300"
+                          title="Payments"
+                        >
+                          <Wallet className="w-4 h-4" />
+                        </button>
+                        )}
                   </div>
                 </td>
               </tr>
@@ -430,7 +454,7 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                 {/* Add empty rows if less than 7 projects on this page */}
                 {Array.from({ length: recordsPerPage - paginatedProjects.length }).map((_, i) => (
                   <tr key={`empty-row-${i}`} className="h-[62px]">
-                    <td colSpan={8}></td>
+                    <td colSpan={showFinancials ? 10 : 7}></td>
                   </tr>
                 ))}
           </tbody>
@@ -480,7 +504,7 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
                 <span className="text-[#E16428] font-semibold">{deletingProject.clientName}</span>?
                 <br />
                 <span className="text-xs text-[#F6E9E9]/50">
-                  this action cannot be undone.
+                  it moves to the trash, where it can be restored from settings.
                 </span>
               </p>
               
@@ -507,7 +531,6 @@ export const ProjectTable: React.FC<ProjectTableProps> = ({
       {receiptProject && (
         <ProjectReceiptModal
           project={receiptProject}
-          projectTypes={projectTypes}
           onClose={() => setReceiptProject(null)}
         />
       )}
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { X, ArrowRight, Check } from 'lucide-react';
+import { Employee, Project } from '../types';
+import { GlassCard } from './GlassCard';
+import { getAssignableEmployees, getOpenProjects } from '../utils/employees';
+
+interface ReassignProjectsModalProps {
+  employee: Employee;
+  projects: Project[];
+  employees: Employee[];
+  onClose: () => void;
+  // Resolves with the number of projects that were moved; whoever takes over gets the employee's role and share
+  onReassign: (assignments: { projectId: string; employeeId: string }[]) => Promise<number>;
+}
+
+const employeeName = (employee: Employee) => `${employee.firstName} ${employee.lastName}`;
+
+// Two steps: choose who takes over the employee's open projects, then check or change it per project
+export const ReassignProjectsModal: React.FC<ReassignProjectsModalProps> = ({
+  employee,
+  projects,
+  employees,
+  onClose,
+  onReassign,
+}) => {
+  const openProjects = getOpenProjects(employee.id, projects);
+  const candidates = getAssignableEmployees(employees).filter(other => other.id !== employee.id);
+  const [step, setStep] = useState<'choose' | 'review'>('choose');
+  const [takeOverId, setTakeOverId] = useState('');
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+
+  // ESC key handler to close modal
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !saving) {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, saving]);
+
+  const handleNext = () => {
+    setTargets(Object.fromEntries(openProjects.map(project => [project.id, takeOverId])));
+    setStep('review');
+  };
+
+  const assignments = openProjects
+    .filter(project => targets[project.id])
+    .map(project => ({ projectId: project.id, employeeId: targets[project.id] }));
+
+  const handleReassign = async () => {
+    setSaving(true);
+    const moved = await onReassign(assignments);
+    setSaving(false);
+    if (moved === assignments.length) {
+      onClose();
+    } else {
+      setResult(`Moved ${moved} of ${assignments.length} projects. The others are still assigned to ${employeeName(employee)}.`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fadeIn">
+      <GlassCard className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-2xl font-bold text-[#F6E9E9] font-['Playfair_Display']">
+                Reassign Open Projects
+              </h2>
+              <p className="text-[#F6E9E9]/60 text-sm font-['Inter']">
+                {employee.employeeId} · {employeeName(employee)} · step {step === 'choose' ? 1 : 2} of 2
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={saving}
+              className="p-2 bg-[#272121]/50 text-[#F6E9E9] rounded-lg hover:bg-[#E16428]/20 transition-all duration-300"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {openProjects.length === 0 ? (
+            <p className="text-[#F6E9E9]/70 text-sm font-['Inter']">
+              {employeeName(employee)} has no running, pending or correction projects.
+            </p>
+          ) : step === 'choose' ? (
+            <div className="space-y-4">
+              <p className="text-[#F6E9E9]/70 text-sm font-['Inter']">
+                {employeeName(employee)} has {openProjects.length} open project{openProjects.length === 1 ? '' : 's'}.
+                Who should take them over? You can change it for single projects in the next step.
+              </p>
+              <select
+                value={takeOverId}
+                onChange={e => setTakeOverId(e.target.value)}
+                className="w-full px-4 py-3 bg-[#272121]/50 border border-[#E16428]/20 rounded-lg text-[#F6E9E9] focus:outline-none focus:border-[#E16428] font-['Inter']"
+              >
+                <option value="" className="bg-[#272121]">Choose an employee</option>
+                {candidates.map(candidate => (
+                  <option key={candidate.id} value={candidate.id} className="bg-[#272121]">
+                    {employeeName(candidate)} · {candidate.position}
+                  </option>
+                ))}
+              </select>
+              {candidates.length === 0 && (
+                <p className="text-red-400 text-xs">There are no other active employees to give the projects to.</p>
+              )}
+              <div className="flex justify-end">
+                <button
+                  onClick={handleNext}
+                  disabled={!takeOverId}
+                  className="px-6 py-3 bg-gradient-to-r from-[#E16428] to-[#E16428]/80 text-white rounded-lg hover:scale-105 transition-all duration-300 shadow-lg font-['Poppins'] flex items-center gap-2 disabled:opacity-50 disabled:hover:scale-100"
+                >
+                  Next <ArrowRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                {openProjects.map(project => (
+                  <div
+                    key={project.id}
+                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 bg-[#272121]/70 border border-[#E16428]/20 rounded-lg px-3 sm:px-4 py-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-[#F6E9E9] font-medium text-sm truncate">
+                        {project.projectId} · {project.clientName}
+                      </p>
+                      <p className="text-[#F6E9E9]/50 text-xs">
+                        {project.status}
+                        {project.deadlineDate && ` · due ${project.deadlineDate}`}
+                      </p>
+                    </div>
+                    <select
+                      value={targets[project.id] ?? ''}
+                      onChange={e => setTargets(prev => ({ ...prev, [project.id]: e.target.value }))}
+                      className="sm:w-56 px-3 py-2 rounded bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] text-sm"
+                    >
+                      <option value="" className="bg-[#272121]">Keep with {employee.firstName}</option>
+                      {candidates.map(candidate => (
+                        <option key={candidate.id} value={candidate.id} className="bg-[#272121]">
+                          {employeeName(candidate)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {result && <div className="text-red-400 text-sm">{result}</div>}
+              <div className="flex justify-between gap-4 pt-2">
+                <button
+                  onClick={() => setStep('choose')}
+                  disabled={saving}
+                  className="px-6 py-3 bg-[#272121]/50 text-[#F6E9E9] rounded-lg hover:bg-[#272121]/70 transition-all duration-300 font-['Poppins']"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleReassign}
+                  disabled={saving || assignments.length === 0}
+                  className="px-6 py-3 bg-gradient-to-r from-[#E16428] to-[#E16428]/80 text-white rounded-lg hover:scale-105 transition-all duration-300 shadow-lg font-['Poppins'] flex items-center gap-2 disabled:opacity-50 disabled:hover:scale-100"
+                >
+                  <Check className="w-4 h-4" />
+                  {saving ? 'Moving...' : `Move ${assignments.length} project${assignments.length === 1 ? '' : 's'}`}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </GlassCard>
+    </div>
+  );
+};
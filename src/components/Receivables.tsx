@@ -0,0 +1,237 @@
+import React, { useMemo, useState } from 'react';
+import { Wallet, AlertTriangle, ChevronDown, ChevronRight, Users, Building2 } from 'lucide-react';
+import { Project } from '../types';
+import { GlassCard } from './GlassCard';
+import {
+  AGING_BUCKETS,
+  AGING_BUCKET_LABELS,
+  AgingBucket,
+  getAgingBucket,
+  getBalanceDue,
+  getDaysPastDue,
+  getDueDate,
+} from '../utils/payments';
+import { useProjectStore } from '../store/context';
+
+type GroupBy = 'client' | 'org';
+
+interface ReceivableItem {
+  project: Project;
+  balance: number;
+  daysPastDue: number;
+  bucket: AgingBucket;
+}
+
+interface ReceivableGroup {
+  key: string;
+  name: string;
+  items: ReceivableItem[];
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ current: 0, '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+const bucketColors: Record<AgingBucket, string> = {
+  current: 'text-[#F6E9E9]',
+  '0-30': 'text-green-300',
+  '31-60': 'text-yellow-300',
+  '61-90': 'text-orange-300',
+  '90+': 'text-red-400',
+};
+
+export const Receivables: React.FC = () => {
+  const { projects } = useProjectStore();
+  const [groupBy, setGroupBy] = useState<GroupBy>('client');
+  const [expandedGroup, setExpandedGroup] = useState<string | null>(null);
+
+  // Every project that still has money owed on it; rejected work is not chased
+  const receivables: ReceivableItem[] = useMemo(() => {
+    const today = new Date();
+    return projects
+      .filter(project => project.status !== 'Rejected')
+      .map(project => {
+        const daysPastDue = getDaysPastDue(project, today);
+        return {
+          project,
+          balance: getBalanceDue(project),
+          daysPastDue,
+          bucket: getAgingBucket(daysPastDue),
+        };
+      })
+      .filter(item => item.balance > 0);
+  }, [projects]);
+
+  const totals = useMemo(() => {
+    const buckets = emptyBuckets();
+    receivables.forEach(item => {
+      buckets[item.bucket] += item.balance;
+    });
+    return {
+      buckets,
+      total: receivables.reduce((sum, item) => sum + item.balance, 0),
+    };
+  }, [receivables]);
+
+  const groups: ReceivableGroup[] = useMemo(() => {
+    const grouped: Record<string, ReceivableGroup> = {};
+    receivables.forEach(item => {
+      const name = (groupBy === 'client' ? item.project.clientName : item.project.clientUniOrg) || 'Unknown';
+      // Clients are told apart by record, so two clients sharing a name stay separate
+      const key = (groupBy === 'client' && item.project.clientId) || name;
+      if (!grouped[key]) {
+        grouped[key] = { key, name, items: [], buckets: emptyBuckets(), total: 0 };
+      }
+      grouped[key].items.push(item);
+      grouped[key].buckets[item.bucket] += item.balance;
+      grouped[key].total += item.balance;
+    });
+    // Oldest money first within a group, largest debtors first overall
+    return Object.values(grouped)
+      .map(group => ({ ...group, items: group.items.sort((a, b) => b.daysPastDue - a.daysPastDue) }))
+      .sort((a, b) => b.total - a.total);
+  }, [receivables, groupBy]);
+
+  return (
+    <div className="space-y-8 animate-fadeIn">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <h1 className="text-2xl sm:text-3xl font-bold text-[#F6E9E9] font-['Playfair_Display']">
+          Receivables
+        </h1>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => { setGroupBy('client'); setExpandedGroup(null); }}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs sm:text-sm font-['Inter'] transition-all duration-200 ${
+              groupBy === 'client'
+                ? 'bg-[#E16428] text-white'
+                : 'bg-[#272121]/70 border border-[#E16428]/30 text-[#F6E9E9] hover:border-[#E16428]'
+            }`}
+          >
+            <Users className="w-4 h-4" />
+            By Client
+          </button>
+          <button
+            onClick={() => { setGroupBy('org'); setExpandedGroup(null); }}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs sm:text-sm font-['Inter'] transition-all duration-200 ${
+              groupBy === 'org'
+                ? 'bg-[#E16428] text-white'
+                : 'bg-[#272121]/70 border border-[#E16428]/30 text-[#F6E9E9] hover:border-[#E16428]'
+            }`}
+          >
+            <Building2 className="w-4 h-4" />
+            By University/Org
+          </button>
+        </div>
+      </div>
+
+      {/* Aging Overview */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4 sm:gap-6">
+        <GlassCard className="p-4 sm:p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-[#F6E9E9]/70 text-sm font-['Inter']">Total Outstanding</p>
+              <p className="text-xl sm:text-2xl font-bold text-[#F6E9E9] mt-1 font-['Poppins']">
+                LKR {totals.total.toLocaleString()}
+              </p>
+            </div>
+            <div className="p-2 sm:p-3 rounded-full bg-[#E16428]/20">
+              <Wallet className="w-5 h-5 sm:w-6 sm:h-6 text-[#E16428]" />
+            </div>
+          </div>
+        </GlassCard>
+        {AGING_BUCKETS.map(bucket => (
+          <GlassCard key={bucket} className="p-4 sm:p-6">
+            <p className="text-[#F6E9E9]/70 text-sm font-['Inter']">{AGING_BUCKET_LABELS[bucket]}</p>
+            <p className={`text-xl sm:text-2xl font-bold mt-1 font-['Poppins'] ${bucketColors[bucket]}`}>
+              LKR {totals.buckets[bucket].toLocaleString()}
+            </p>
+          </GlassCard>
+        ))}
+      </div>
+
+      {/* Aging by Group */}
+      <GlassCard className="p-4 sm:p-6">
+        <h2 className="text-lg sm:text-xl font-semibold text-[#F6E9E9] mb-1 font-['Poppins']">
+          Aging by {groupBy === 'client' ? 'Client' : 'University/Org'}
+        </h2>
+        <p className="text-[#F6E9E9]/50 text-xs mb-4 sm:mb-6 font-['Inter']">
+          Days past the delivery date, or the deadline for projects not yet delivered
+        </p>
+        {groups.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-[#F6E9E9]/50">
+            <AlertTriangle className="w-8 h-8 mb-2 text-[#E16428]/50" />
+            <p className="text-sm font-['Inter'] lowercase">no outstanding balances</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[800px]">
+              <thead>
+                <tr className="border-b border-[#E16428]/20">
+                  <th className="text-left text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">
+                    {groupBy === 'client' ? 'Client' : 'University/Org'}
+                  </th>
+                  <th className="text-left text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Projects</th>
+                  {AGING_BUCKETS.map(bucket => (
+                    <th key={bucket} className="text-right text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">{AGING_BUCKET_LABELS[bucket]}</th>
+                  ))}
+                  <th className="text-right text-[#F6E9E9]/70 font-medium pb-2 sm:pb-3 px-1 text-xs sm:text-sm font-['Inter']">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map(group => {
+                  const isExpanded = expandedGroup === group.key;
+                  return (
+                    <React.Fragment key={group.key}>
+                      <tr
+                        onClick={() => setExpandedGroup(isExpanded ? null : group.key)}
+                        className="border-b border-[#E16428]/10 text-xs sm:text-sm cursor-pointer hover:bg-[#E16428]/5 transition-colors duration-200"
+                      >
+                        <td className="py-2 sm:py-3 px-1 text-[#F6E9E9] font-['Inter']">
+                          <span className="inline-flex items-center gap-1">
+                            {isExpanded ? <ChevronDown className="w-4 h-4 text-[#E16428]" /> : <ChevronRight className="w-4 h-4 text-[#E16428]" />}
+                            {group.name}
+                          </span>
+                        </td>
+                        <td className="py-2 sm:py-3 px-1 text-[#F6E9E9] font-['Inter']">{group.items.length}</td>
+                        {AGING_BUCKETS.map(bucket => (
+                          <td key={bucket} className={`py-2 sm:py-3 px-1 text-right font-['Inter'] ${group.buckets[bucket] > 0 ? bucketColors[bucket] : 'text-[#F6E9E9]/30'}`}>
+                            {group.buckets[bucket] > 0 ? group.buckets[bucket].toLocaleString() : '-'}
+                          </td>
+                        ))}
+                        <td className="py-2 sm:py-3 px-1 text-right text-[#F6E9E9] font-semibold font-['Inter']">
+                          LKR {group.total.toLocaleString()}
+                        </td>
+                      </tr>
+                      {isExpanded && group.items.map(item => (
+                        <tr key={item.project.id} className="border-b border-[#E16428]/5 text-xs bg-[#272121]/40">
+                          <td className="py-2 pl-7 pr-1 text-[#F6E9E9]/80 font-['Inter']">
+                            {item.project.projectId}
+                            <span className="text-[#F6E9E9]/50"> · {groupBy === 'client' ? item.project.clientUniOrg : item.project.clientName}</span>
+                          </td>
+                          <td className="py-2 px-1 text-[#F6E9E9]/60 font-['Inter']">{item.project.status}</td>
+                          <td colSpan={AGING_BUCKETS.length} className="py-2 px-1 text-right text-[#F6E9E9]/60 font-['Inter']">
+                            due {new Date(getDueDate(item.project)).toLocaleDateString()}
+                            <span className={`ml-2 ${bucketColors[item.bucket]}`}>
+                              {item.daysPastDue > 0
+                                ? `${item.daysPastDue} days overdue`
+                                : item.daysPastDue === 0
+                                ? 'due today'
+                                : `due in ${-item.daysPastDue} days`}
+                            </span>
+                          </td>
+                          <td className="py-2 px-1 text-right text-[#F6E9E9] font-['Inter']">
+                            LKR {item.balance.toLocaleString()}
+                          </td>
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </GlassCard>
+    </div>
+  );
+};
@@ -1,9 +1,12 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef } from 'react';
 import { X } from 'lucide-react';
 import jsPDF from 'jspdf';
 import { Chart, ArcElement, BarElement, CategoryScale, LinearScale, Tooltip, Legend, PieController, LineElement, PointElement } from 'chart.js';
 import { Project, Employee } from '../types';
-import { supabase } from '../supabaseClient';
+import { getBalanceDue, getTotalPaid } from '../utils/payments';
+import { addPdfFooter, addPdfHeader } from '../utils/pdf';
+import { getRevenueShare, getShare, isAssignedTo } from '../utils/assignees';
+import { logAction, reauthenticate } from '../auth';
 
 Chart.register(ArcElement, BarElement, CategoryScale, LinearScale, Tooltip, Legend, PieController, LineElement, PointElement);
 
@@ -29,7 +32,6 @@ interface MonthlyData {
 
 export const ReportModal: React.FC<ReportModalProps> = ({ open, onClose, projects, employees, month, year }) => {
   const reportRef = useRef<HTMLDivElement>(null);
-  const [, setProjectTypes] = React.useState<{ id: string; name: string }[]>([]);
   const now = new Date();
   const monthName = month === 'all' ? 'All Months' : new Date(0, month as number).toLocaleString('default', { month: 'long' });
   const yearName = year === 'all' ? 'All Years' : year;
@@ -65,6 +67,8 @@ export const ReportModal: React.FC<ReportModalProps> = ({ open, onClose, project
   const completedProjects = projects.filter(p => p.status === 'Delivered').length;
   const completionRate = totalProjects > 0 ? (completedProjects / totalProjects) * 100 : 0;
   const averageProjectValue = totalProjects > 0 ? totalRevenue / totalProjects : 0;
+  const totalCollected = projects.reduce((sum, p) => sum + getTotalPaid(p), 0);
+  const totalOutstanding = projects.reduce((sum, p) => sum + Math.max(getBalanceDue(p), 0), 0);
 
   // Monthly performance data with enhanced calculations
   const monthlyData: MonthlyData[] = React.useMemo(() => {
@@ -111,9 +115,9 @@ export const ReportModal: React.FC<ReportModalProps> = ({ open, onClose, project
 
   // Enhanced employee performance analysis
   const employeeStats = employees.map(emp => {
-    const empProjects = projects.filter(p => p.assignedTo === emp.id);
-    const totalEarnings = empProjects.reduce((sum, p) => sum + p.paymentOfEmp, 0);
-    const revenue = empProjects.reduce((sum, p) => sum + p.price, 0);
+    const empProjects = projects.filter(p => isAssignedTo(p, emp.id));
+    const totalEarnings = empProjects.reduce((sum, p) => sum + getShare(p, emp.id), 0);
+    const revenue = empProjects.reduce((sum, p) => sum + getRevenueShare(p, emp.id), 0);
     const completed = empProjects.filter(p => p.status === 'Delivered').length;
     const isRanukaJayesh = `${emp.firstName} ${emp.lastName}`.toLowerCase() === 'ranuka jayesh';
     return {
@@ -146,53 +150,22 @@ export const ReportModal: React.FC<ReportModalProps> = ({ open, onClose, project
       setIsAuthenticating(true);
       setAuthError('');
       
-      const { data, error } = await supabase
-        .from('admin')
-        .select('id, email, password')
-        .eq('password', password)
-        .single();
-      
-      if (error || !data) {
-        // Log failed authentication attempt
-        await logAction(null, 'Unknown', 'export_auth_fail');
+      const isValid = await reauthenticate(password, {
+        success: 'export_auth_success',
+        fail: 'export_auth_fail',
+      });
+
+      if (!isValid) {
         setAuthError('Invalid password. Please try again.');
         return false;
       }
-      
-      // Log successful authentication
-      await logAction(data.id, data.email, 'export_auth_success');
-      
+
       return true;
-    } catch (error) {
-      console.error('Authentication error:', error);
-      // Log authentication error
-      await logAction(null, 'Unknown', 'export_auth_error');
-      setAuthError('Authentication failed. Please try again.');
-      return false;
     } finally {
       setIsAuthenticating(false);
     }
   };
 
-  // Log action to database
-  const logAction = async (adminId: string | null, adminEmail: string, action: string) => {
-    try {
-      const { error } = await supabase
-        .from('log')
-        .insert({
-          admin_id: adminId,
-          admin_email: adminEmail,
-          action: action
-        });
-      
-      if (error) {
-        console.error('Error logging action:', error);
-      }
-    } catch (error) {
-      console.error('Failed to log action:', error);
-    }
-  };
-
   // Handle authentication submit
   const handleAuthSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -221,44 +194,9 @@ export const ReportModal: React.FC<ReportModalProps> = ({ open, onClose, project
     const pageWidth = pdf.internal.pageSize.getWidth();
     const pageHeight = pdf.internal.pageSize.getHeight();
     const margin = 20;
-    let yPosition = margin;
     
     // Header Section with Logo and Company Details
-    const headerY = yPosition;
-    
-    // Add OGO logo (left side - smaller size)
-    const logoImg = new Image();
-    logoImg.src = '/Logo.jpg';
-    await new Promise(resolve => { logoImg.onload = resolve; });
-    pdf.addImage(logoImg, 'JPEG', margin, headerY, 15, 15);
-    
-    // Company info (right side - small font)
-    pdf.setFont('helvetica', 'bold');
-    pdf.setFontSize(9);
-    pdf.setTextColor(30, 30, 30);
-    const infoX = pageWidth - margin;
-    let infoY = headerY + 2;
-    pdf.text('OGO TECHNOLOGY', infoX, infoY, { align: 'right' });
-    
-    pdf.setFont('helvetica', 'normal');
-    pdf.setFontSize(7);
-    infoY += 4;
-    pdf.text('Department of Academic Services', infoX, infoY, { align: 'right' });
-    infoY += 3;
-    pdf.text('Galle, Sri Lanka', infoX, infoY, { align: 'right' });
-    infoY += 3;
-    pdf.text('+94 75 930 7059', infoX, infoY, { align: 'right' });
-    infoY += 3;
-    pdf.text('info@ogotechnology.com', infoX, infoY, { align: 'right' });
-    
-    // Add line separator
-    yPosition = headerY + 20;
-    pdf.setDrawColor(200, 200, 200);
-    pdf.setLineWidth(0.5);
-    pdf.line(margin, yPosition, pageWidth - margin, yPosition);
-    
-    // Add spacing after line
-    yPosition += 8;
+    let yPosition = await addPdfHeader(pdf, margin);
     
     // Report title (centered with proper spacing)
     pdf.setFont('helvetica', 'bold');
@@ -317,6 +255,8 @@ export const ReportModal: React.FC<ReportModalProps> = ({ open, onClose, project
     pdf.setFontSize(9);
     const summaryData = [
       { label: 'Total Revenue', value: `LKR ${totalRevenue.toLocaleString()}` },
+      { label: 'Total Collected', value: `LKR ${totalCollected.toLocaleString()}` },
+      { label: 'Balance Due', value: `LKR ${totalOutstanding.toLocaleString()}` },
       { label: 'Total Profit', value: `LKR ${profit.toLocaleString()}` },
       { label: 'Profit Margin', value: `${profitMargin.toFixed(1)}%` },
       { label: 'Total Projects', value: totalProjects.toString() },
@@ -652,20 +592,8 @@ export const ReportModal: React.FC<ReportModalProps> = ({ open, onClose, project
       yPosition += 6;
     });
     
-    // Add page numbers
-    const pageCount = (typeof pdf.getNumberOfPages === 'function') ? pdf.getNumberOfPages() : (pdf.internal.pages ? pdf.internal.pages.length : 1);
-    for (let i = 1; i <= pageCount; i++) {
-      pdf.setPage(Number(i));
-      pdf.setFontSize(10);
-      pdf.setTextColor(100, 100, 100);
-      pdf.text(`Page ${i} of ${pageCount}`, pageWidth / 2, pageHeight - 15, { align: 'center' });
-    }
-    
-    // Footer
-    pdf.setFontSize(8);
-    pdf.setTextColor(150, 150, 150);
-    pdf.text('OGO Technology - Professional Project Management System', pageWidth / 2, pageHeight - 8, { align: 'center' });
-    pdf.text('Confidential Business Report - For Internal Use Only', pageWidth / 2, pageHeight - 5, { align: 'center' });
+    // Page numbers and footer
+    addPdfFooter(pdf, 'Confidential Business Report - For Internal Use Only');
     
     // Generate filename
     let filename = 'OGO-Analytics-Report';
@@ -680,7 +608,7 @@ export const ReportModal: React.FC<ReportModalProps> = ({ open, onClose, project
     pdf.save(`${filename}.pdf`);
     
     // Log successful export
-    await logAction(null, 'Admin', 'export_success');
+    await logAction('export_success');
   };
 
   // Handle export button click (triggers authentication)
@@ -690,14 +618,6 @@ export const ReportModal: React.FC<ReportModalProps> = ({ open, onClose, project
     setAuthError('');
   };
 
-  useEffect(() => {
-    async function fetchProjectTypes() {
-      const { data, error } = await supabase.from('project_types').select('*');
-      if (!error && data) setProjectTypes(data);
-    }
-    fetchProjectTypes();
-  }, []);
-
   if (!open) return null;
 
   return (
@@ -725,6 +645,7 @@ export const ReportModal: React.FC<ReportModalProps> = ({ open, onClose, project
             <span className="text-[#fff]/80 text-sm font-['Inter']">Total Revenue</span>
             <span className="text-xl font-bold text-white font-['Poppins']">LKR {totalRevenue.toLocaleString()}</span>
             <span className="text-[#fff]/60 text-xs">Profit Margin: {profitMargin.toFixed(1)}%</span>
+            <span className="text-[#fff]/60 text-xs">Collected: LKR {totalCollected.toLocaleString()} · Due: LKR {totalOutstanding.toLocaleString()}</span>
           </div>
           <div className="bg-gradient-to-r from-green-500/80 to-green-500/40 rounded-xl p-4 flex flex-col gap-2 shadow">
             <span className="text-[#fff]/80 text-sm font-['Inter']">Total Profit</span>
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { KeyRound, Check } from 'lucide-react';
+import { GlassCard } from './GlassCard';
+import { getPasswordPolicyErrors, getPasswordPolicyRules, setPassword } from '../auth';
+
+interface SetPasswordModalProps {
+  email: string | null;
+  onDone: () => void;
+}
+
+// Shown after following an invite or password reset link; cannot be dismissed until a password is set
+export const SetPasswordModal: React.FC<SetPasswordModalProps> = ({ email, onDone }) => {
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const policyRules = getPasswordPolicyRules();
+  const unmetRules = getPasswordPolicyErrors(newPassword);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+    if (unmetRules.length > 0) {
+      setError('Password does not meet the password policy.');
+      return;
+    }
+
+    setSaving(true);
+    const { error: saveError } = await setPassword(newPassword);
+    setSaving(false);
+
+    if (saveError) {
+      setError(saveError);
+      return;
+    }
+    onDone();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[999] animate-fadeIn">
+      <GlassCard className="w-full max-w-md p-6 sm:p-8">
+        <div className="text-center mb-6">
+          <div className="inline-block p-4 bg-[#E16428]/20 rounded-full mb-4">
+            <KeyRound className="w-8 h-8 text-[#E16428]" />
+          </div>
+          <h3 className="text-xl font-bold text-[#F6E9E9] mb-2 font-['Playfair_Display']">
+            Set Your Password
+          </h3>
+          <p className="text-[#F6E9E9]/70 text-sm">
+            Choose a password{email ? ` for ${email}` : ''} to finish signing in.
+          </p>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <input
+            type="password"
+            value={newPassword}
+            onChange={e => setNewPassword(e.target.value)}
+            className="w-full px-3 py-2 rounded bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] text-sm"
+            placeholder="New password"
+            autoFocus
+            required
+          />
+          <ul className="space-y-1 text-xs">
+            {policyRules.map(rule => {
+              const isMet = newPassword !== '' && !unmetRules.includes(rule);
+              return (
+                <li key={rule} className={`flex items-center gap-2 ${isMet ? 'text-green-400' : 'text-[#F6E9E9]/50'}`}>
+                  <Check className="w-3 h-3" />
+                  {rule}
+                </li>
+              );
+            })}
+          </ul>
+          <input
+            type="password"
+            value={confirmPassword}
+            onChange={e => setConfirmPassword(e.target.value)}
+            className="w-full px-3 py-2 rounded bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] text-sm"
+            placeholder="Confirm new password"
+            required
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-[#E16428] text-white px-4 py-2 rounded hover:bg-[#d35400] w-full disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Set Password'}
+          </button>
+          {error && <div className="text-red-400 text-sm">{error}</div>}
+        </form>
+      </GlassCard>
+    </div>
+  );
+};
@@ -1,81 +1,139 @@
-import React, { useEffect, useState } from 'react';
-import { supabase } from '../supabaseClient';
-import { Edit, Trash2, Plus, Save, X, Lock, Layers } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Edit, Trash2, Plus, Save, X, Lock, Layers, Check, Users, Hash, ArchiveRestore, Activity } from 'lucide-react';
+import { changePassword, getPasswordPolicyErrors, getPasswordPolicyRules } from '../auth';
+import { Role } from '../types';
+import { can, Permission } from '../permissions';
+import { UserManagement } from './UserManagement';
+import { TrashBin } from './TrashBin';
+import { ActivityLog } from './ActivityLog';
+import { useProjectStore, useProjectTypeStore, useSettingsStore } from '../store/context';
+import { MAX_PROJECT_NUMBER_PADDING, formatProjectNumber, getProjectNumberSettingsError } from '../utils/projectNumbers';
 
-const TABS = [
-  { id: 'project-types', label: 'Project Types', icon: Layers },
+interface SettingsProps {
+  role: Role;
+}
+
+// Tabs without a permission are open to every signed-in user
+const TABS: { id: string; label: string; icon: typeof Lock; permission?: Permission }[] = [
+  { id: 'project-types', label: 'Project Types', icon: Layers, permission: 'manage_settings' },
+  { id: 'project-numbers', label: 'Project Numbers', icon: Hash, permission: 'manage_settings' },
+  { id: 'users', label: 'Users', icon: Users, permission: 'manage_users' },
+  { id: 'trash', label: 'Trash', icon: ArchiveRestore, permission: 'delete_projects' },
+  { id: 'activity', label: 'Activity', icon: Activity, permission: 'view_activity' },
   { id: 'admin-password', label: 'Admin Password', icon: Lock },
 ];
 
-export const Settings: React.FC = () => {
-  const [activeTab, setActiveTab] = useState('project-types');
+export const Settings: React.FC<SettingsProps> = ({ role }) => {
+  const tabs = TABS.filter(tab => !tab.permission || can(role, tab.permission));
+  const [activeTab, setActiveTab] = useState(tabs[0].id);
 
   // Project Types State
-  const [projectTypes, setProjectTypes] = useState<{ id: string; name: string }[]>([]);
+  const {
+    projectTypes: types,
+    loading,
+    error: typeError,
+    addProjectType,
+    updateProjectType,
+    deleteProjectType,
+  } = useProjectTypeStore();
+  const { projects } = useProjectStore();
   const [newType, setNewType] = useState('');
   const [editingType, setEditingType] = useState<{ id: string; name: string } | null>(null);
   const [typeInput, setTypeInput] = useState('');
-  const [loading, setLoading] = useState(false);
-  const [showDeleteModal, setShowDeleteModal] = useState<{ id: string, name: string } | null>(null);
+  const [showDeleteModal, setShowDeleteModal] = useState<{ id: string, name: string, projectCount: number } | null>(null);
+
+  // Project Numbers State
+  const { settings, error: settingsError, updateSettings } = useSettingsStore();
+  const [numberPrefix, setNumberPrefix] = useState(settings.projectNumberPrefix);
+  const [numberPadding, setNumberPadding] = useState(String(settings.projectNumberPadding));
+  const [numbersSaved, setNumbersSaved] = useState(false);
+  const [savingNumbers, setSavingNumbers] = useState(false);
 
   // Admin Password State
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [passwordMsg, setPasswordMsg] = useState('');
+  const [passwordChanged, setPasswordChanged] = useState(false);
+  const [changingPassword, setChangingPassword] = useState(false);
 
-  // Fetch project types
-  useEffect(() => {
-    if (activeTab === 'project-types') fetchTypes();
-    // eslint-disable-next-line
-  }, [activeTab]);
-
-  async function fetchTypes() {
-    setLoading(true);
-    const { data } = await supabase.from('project_types').select('*').order('created_at');
-    setProjectTypes(data || []);
-    setLoading(false);
-  }
+  // Number of projects using each type; the database also refuses to delete a type in use
+  const projectTypes = useMemo(
+    () =>
+      types.map(type => ({
+        ...type,
+        projectCount: projects.filter(project => project.projectTypes.some(t => t.id === type.id)).length,
+      })),
+    [types, projects]
+  );
 
   async function addType() {
     if (!newType.trim()) return;
-    const { error } = await supabase.from('project_types').insert({ name: newType.trim() });
-    if (!error) {
-      setNewType('');
-      fetchTypes();
-    }
+    if (await addProjectType(newType)) setNewType('');
   }
 
   async function updateType() {
     if (!editingType || !typeInput.trim()) return;
-    const { error } = await supabase
-      .from('project_types')
-      .update({ name: typeInput.trim() })
-      .eq('id', editingType.id);
-    if (!error) {
+    if (await updateProjectType(editingType.id, typeInput)) {
       setEditingType(null);
       setTypeInput('');
-      fetchTypes();
     }
   }
 
   async function handleDeleteType(id: string) {
-    await supabase.from('project_types').delete().eq('id', id);
-    setShowDeleteModal(null);
-    fetchTypes();
+    if (await deleteProjectType(id)) setShowDeleteModal(null);
+  }
+
+  // Show the saved format once it has loaded or been changed elsewhere
+  useEffect(() => {
+    setNumberPrefix(settings.projectNumberPrefix);
+    setNumberPadding(String(settings.projectNumberPadding));
+  }, [settings.projectNumberPrefix, settings.projectNumberPadding]);
+
+  const numberFormatError = getProjectNumberSettingsError(numberPrefix, Number(numberPadding));
+
+  async function handleSaveNumbers(e: React.FormEvent) {
+    e.preventDefault();
+    setNumbersSaved(false);
+    if (numberFormatError) return;
+
+    setSavingNumbers(true);
+    const saved = await updateSettings({ projectNumberPrefix: numberPrefix, projectNumberPadding: Number(numberPadding) });
+    setSavingNumbers(false);
+    setNumbersSaved(saved);
   }
 
-  // Dummy password change handler (replace with real auth logic)
-  function handleChangePassword(e: React.FormEvent) {
+  async function handleChangePassword(e: React.FormEvent) {
     e.preventDefault();
+    setPasswordChanged(false);
     if (newPassword !== confirmPassword) {
       setPasswordMsg('New passwords do not match.');
       return;
     }
-    // TODO: Implement real password change logic with Supabase Auth
-    setPasswordMsg('Password change feature not implemented in this demo.');
+    if (getPasswordPolicyErrors(newPassword).length > 0) {
+      setPasswordMsg('New password does not meet the password policy.');
+      return;
+    }
+
+    setChangingPassword(true);
+    const { error } = await changePassword(currentPassword, newPassword);
+    setChangingPassword(false);
+
+    if (error) {
+      setPasswordMsg(error);
+      return;
+    }
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setPasswordChanged(true);
+    setPasswordMsg('Password changed. All other sessions have been signed out.');
   }
 
+  // Policy rules shown as a checklist while typing the new password
+  const policyRules = getPasswordPolicyRules();
+  const unmetRules = getPasswordPolicyErrors(newPassword);
+
   // ESC key handler to close delete modal
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -91,8 +149,8 @@ export const Settings: React.FC = () => {
   return (
     <div className="max-w-2xl mx-auto py-4 sm:py-8 px-2 sm:px-4 animate-fadeIn">
       {/* Tabs */}
-      <div className="flex border-b border-[#E16428]/30 mb-6 sm:mb-8">
-        {TABS.map(tab => {
+      <div className="flex border-b border-[#E16428]/30 mb-6 sm:mb-8 overflow-x-auto">
+        {tabs.map(tab => {
           const Icon = tab.icon;
           const isActive = activeTab === tab.id;
           return (
@@ -115,7 +173,7 @@ export const Settings: React.FC = () => {
 
       {/* Tab Content */}
       <div className="bg-[#272121]/60 rounded-xl shadow-lg p-4 sm:p-6">
-        {activeTab === 'project-types' && (
+        {activeTab === 'project-types' && can(role, 'manage_settings') && (
           <section>
             <h2 className="text-lg sm:text-xl font-bold text-[#F6E9E9] mb-4">Project Types</h2>
             <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2 mb-4">
@@ -132,6 +190,7 @@ export const Settings: React.FC = () => {
                 <Plus className="w-4 h-4 mr-1" /> Add
               </button>
             </div>
+            {typeError && !showDeleteModal && <p className="text-red-400 text-xs mb-4">{typeError}</p>}
             {loading ? (
               <div className="text-[#F6E9E9]/70">Loading...</div>
             ) : (
@@ -151,6 +210,7 @@ export const Settings: React.FC = () => {
                     <div key={type.id} className="flex items-center bg-[#272121]/70 border border-[#E16428]/20 rounded-full px-3 sm:px-4 py-1.5 sm:py-2 space-x-2 shadow hover:scale-105 transition cursor-pointer">
                       <Layers className="w-3 h-3 sm:w-4 sm:h-4 text-[#E16428]" />
                       <span className="text-[#F6E9E9] font-medium text-xs sm:text-sm">{type.name}</span>
+                      <span className="text-[#F6E9E9]/50 text-xs" title="Projects using this type">{type.projectCount}</span>
                       <button onClick={() => { setEditingType(type); setTypeInput(type.name); }} className="text-blue-400 hover:scale-110 transition"><Edit className="w-4 h-4" /></button>
                       <button onClick={() => setShowDeleteModal(type)} className="text-red-400 hover:scale-110 transition"><Trash2 className="w-4 h-4" /></button>
                     </div>
@@ -161,6 +221,66 @@ export const Settings: React.FC = () => {
           </section>
         )}
 
+        {activeTab === 'project-numbers' && can(role, 'manage_settings') && (
+          <section>
+            <h2 className="text-lg sm:text-xl font-bold text-[#F6E9E9] mb-2">Project Numbers</h2>
+            <p className="text-[#F6E9E9]/60 text-xs sm:text-sm mb-4">
+              New projects get the next number from the database. Changing the format only affects new projects.
+            </p>
+            <form onSubmit={handleSaveNumbers} className="space-y-3 max-w-md">
+              <div className="flex flex-col sm:flex-row gap-2">
+                <label className="flex-1 text-[#F6E9E9]/70 text-xs">
+                  Prefix
+                  <input
+                    value={numberPrefix}
+                    onChange={e => { setNumberPrefix(e.target.value.toUpperCase()); setNumbersSaved(false); }}
+                    className="mt-1 w-full px-3 py-2 rounded bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] text-sm"
+                    maxLength={10}
+                    required
+                  />
+                </label>
+                <label className="sm:w-32 text-[#F6E9E9]/70 text-xs">
+                  Minimum digits
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_PROJECT_NUMBER_PADDING}
+                    value={numberPadding}
+                    onChange={e => { setNumberPadding(e.target.value); setNumbersSaved(false); }}
+                    className="mt-1 w-full px-3 py-2 rounded bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] text-sm"
+                    required
+                  />
+                </label>
+              </div>
+              {numberFormatError ? (
+                <div className="text-red-400 text-xs">{numberFormatError}</div>
+              ) : (
+                <div className="text-[#F6E9E9]/70 text-sm">
+                  Numbers will look like{' '}
+                  <span className="text-[#E16428] font-semibold">
+                    {formatProjectNumber({ projectNumberPrefix: numberPrefix, projectNumberPadding: Number(numberPadding) }, 1001)}
+                  </span>
+                </div>
+              )}
+              <button
+                type="submit"
+                disabled={savingNumbers || !!numberFormatError}
+                className="bg-[#E16428] text-white px-4 py-2 rounded hover:bg-[#d35400] w-full disabled:opacity-50"
+              >
+                {savingNumbers ? 'Saving...' : 'Save Format'}
+              </button>
+              {settingsError && <div className="text-red-400 text-xs">{settingsError}</div>}
+              {numbersSaved && <div className="text-green-400 text-xs">Saved. The next new project uses this format.</div>}
+            </form>
+          </section>
+        )}
+
+        {activeTab === 'users' && can(role, 'manage_users') && <UserManagement />}
+
+        {activeTab === 'trash' && can(role, 'delete_projects') && <TrashBin role={role} />}
+
+        {activeTab === 'activity' && can(role, 'view_activity') && <ActivityLog />}
+
         {activeTab === 'admin-password' && (
           <section>
             <h2 className="text-lg sm:text-xl font-bold text-[#F6E9E9] mb-4">Admin Password</h2>
@@ -181,6 +301,17 @@ export const Settings: React.FC = () => {
                 placeholder="New password"
                 required
               />
+              <ul className="space-y-1 text-xs">
+                {policyRules.map(rule => {
+                  const isMet = newPassword !== '' && !unmetRules.includes(rule);
+                  return (
+                    <li key={rule} className={`flex items-center gap-2 ${isMet ? 'text-green-400' : 'text-[#F6E9E9]/50'}`}>
+                      <Check className="w-3 h-3" />
+                      {rule}
+                    </li>
+                  );
+                })}
+              </ul>
               <input
                 type="password"
                 value={confirmPassword}
@@ -191,11 +322,12 @@ export const Settings: React.FC = () => {
               />
               <button
                 type="submit"
-                className="bg-[#E16428] text-white px-4 py-2 rounded hover:bg-[#d35400] w-full"
+                disabled={changingPassword}
+                className="bg-[#E16428] text-white px-4 py-2 rounded hover:bg-[#d35400] w-full disabled:opacity-50"
               >
-                Change Password
+                {changingPassword ? 'Changing...' : 'Change Password'}
               </button>
-              {passwordMsg && <div className="text-red-400">{passwordMsg}</div>}
+              {passwordMsg && <div className={passwordChanged ? 'text-green-400' : 'text-red-400'}>{passwordMsg}</div>}
             </form>
           </section>
         )}
@@ -208,22 +340,31 @@ export const Settings: React.FC = () => {
               <svg width="48" height="48" fill="none" viewBox="0 0 24 24"><circle cx="12" cy="12" r="12" fill="#E16428" opacity="0.15"/><path d="M15.535 8.465l-7.07 7.07M8.465 8.465l7.07 7.07" stroke="#E16428" strokeWidth="2" strokeLinecap="round"/></svg>
             </div>
             <h3 className="text-lg font-bold text-[#F6E9E9] mb-2 font-['Poppins']">Delete Project Type?</h3>
-            <p className="text-[#F6E9E9]/70 text-center mb-6 font-['Inter']">
-              Are you sure you want to delete <span className="text-[#E16428] font-bold">{showDeleteModal.name}</span>? This action cannot be undone.
-            </p>
+            {showDeleteModal.projectCount > 0 ? (
+              <p className="text-[#F6E9E9]/70 text-center mb-6 font-['Inter']">
+                <span className="text-[#E16428] font-bold">{showDeleteModal.name}</span> is used by {showDeleteModal.projectCount} project(s) and cannot be deleted. Rename it instead, or remove it from those projects first.
+              </p>
+            ) : (
+              <p className="text-[#F6E9E9]/70 text-center mb-6 font-['Inter']">
+                Are you sure you want to delete <span className="text-[#E16428] font-bold">{showDeleteModal.name}</span>? This action cannot be undone.
+              </p>
+            )}
+            {typeError && <p className="text-red-400 text-xs text-center -mt-4 mb-4">{typeError}</p>}
             <div className="flex space-x-4">
               <button
                 onClick={() => setShowDeleteModal(null)}
                 className="px-5 py-2 rounded-lg bg-[#363333]/60 text-[#F6E9E9] hover:bg-[#E16428]/10 transition-all duration-300 font-['Poppins']"
               >
-                Cancel
-              </button>
-              <button
-                onClick={() => handleDeleteType(showDeleteModal.id)}
-                className="px-5 py-2 rounded-lg bg-gradient-to-r from-[#E16428] to-[#E16428]/80 text-white shadow-lg hover:scale-105 transition-all duration-300 font-['Poppins']"
-              >
-                Yes, Delete
+                {showDeleteModal.projectCount > 0 ? 'Close' : 'Cancel'}
               </button>
+              {showDeleteModal.projectCount === 0 && (
+                <button
+                  onClick={() => handleDeleteType(showDeleteModal.id)}
+                  className="px-5 py-2 rounded-lg bg-gradient-to-r from-[#E16428] to-[#E16428]/80 text-white shadow-lg hover:scale-105 transition-all duration-300 font-['Poppins']"
+                >
+                  Yes, Delete
+                </button>
+              )}
             </div>
           </div>
         </div>
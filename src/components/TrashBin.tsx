@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw, Trash2, FolderOpen, User } from 'lucide-react';
+import { Role } from '../types';
+import { can } from '../permissions';
+import { useTrash } from '../hooks/useTrash';
+import { useEmployeeStore, useProjectStore } from '../store/context';
+
+interface TrashBinProps {
+  role: Role;
+}
+
+type TrashItem = { kind: 'project' | 'employee'; id: string; label: string };
+
+const formatDeletedAt = (deletedAt?: string | null) =>
+  deletedAt ? `Deleted ${new Date(deletedAt).toLocaleString()}` : '';
+
+// Trash tab of Settings: deleted projects and employees can be restored or deleted for good
+export const TrashBin: React.FC<TrashBinProps> = ({ role }) => {
+  const { projects, employees, loading, error, drop, purgeProject, purgeEmployee } = useTrash();
+  const { restoreDeletedProject } = useProjectStore();
+  const { restoreDeletedEmployee } = useEmployeeStore();
+  const [confirmPurge, setConfirmPurge] = useState<TrashItem | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const showProjects = can(role, 'delete_projects');
+  const showEmployees = can(role, 'delete_employees');
+
+  // ESC key handler to close the purge modal
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && confirmPurge) {
+        setConfirmPurge(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [confirmPurge]);
+
+  const handleRestore = async (id: string, restore: () => Promise<boolean>) => {
+    setBusyId(id);
+    if (await restore()) drop(id);
+    setBusyId(null);
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    setConfirmPurge(null);
+    setBusyId(item.id);
+    await (item.kind === 'project' ? purgeProject(item.id) : purgeEmployee(item.id));
+    setBusyId(null);
+  };
+
+  const renderRow = (item: TrashItem, detail: string, deletedAt: string | null | undefined, restore: () => Promise<boolean>) => {
+    const Icon = item.kind === 'project' ? FolderOpen : User;
+    return (
+      <div
+        key={item.id}
+        className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 bg-[#272121]/70 border border-[#E16428]/20 rounded-lg px-3 sm:px-4 py-2 sm:py-3 ${busyId === item.id ? 'opacity-60' : ''}`}
+      >
+        <div className="min-w-0 flex items-center gap-3">
+          <Icon className="w-4 h-4 text-[#E16428] flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-[#F6E9E9] font-medium text-sm truncate">{item.label}</p>
+            <p className="text-[#F6E9E9]/50 text-xs truncate">
+              {detail}
+              {detail && ' · '}
+              {formatDeletedAt(deletedAt)}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => handleRestore(item.id, restore)}
+            disabled={busyId === item.id}
+            className="p-1.5 rounded-lg bg-green-500/20 text-green-400 hover:bg-green-500/30 transition disabled:opacity-50"
+            title="Restore"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setConfirmPurge(item)}
+            disabled={busyId === item.id}
+            className="p-1.5 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 transition disabled:opacity-50"
+            title="Delete permanently"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const isEmpty = (!showProjects || projects.length === 0) && (!showEmployees || employees.length === 0);
+
+  return (
+    <section>
+      <h2 className="text-lg sm:text-xl font-bold text-[#F6E9E9] mb-2">Trash</h2>
+      <p className="text-[#F6E9E9]/60 text-xs sm:text-sm mb-4">
+        Deleted projects and employees stay here until they are restored or deleted permanently. They are left out of
+        every list, report and analytics figure.
+      </p>
+      {error && <div className="text-red-400 text-sm mb-4">{error}</div>}
+
+      {loading ? (
+        <div className="text-[#F6E9E9]/70">Loading...</div>
+      ) : isEmpty ? (
+        <div className="text-[#F6E9E9]/50 text-sm">The trash is empty.</div>
+      ) : (
+        <div className="space-y-6">
+          {showProjects && projects.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-[#F6E9E9]/80">Projects</h3>
+              {projects.map(project =>
+                renderRow(
+                  { kind: 'project', id: project.id, label: project.projectId },
+                  project.clientName,
+                  project.deletedAt,
+                  () => restoreDeletedProject(project)
+                )
+              )}
+            </div>
+          )}
+          {showEmployees && employees.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-[#F6E9E9]/80">Employees</h3>
+              {employees.map(employee =>
+                renderRow(
+                  { kind: 'employee', id: employee.id, label: `${employee.firstName} ${employee.lastName}` },
+                  employee.employeeId,
+                  employee.deletedAt,
+                  () => restoreDeletedEmployee(employee)
+                )
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {confirmPurge && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fadeIn p-4">
+          <div className="bg-[#272121] border border-[#E16428]/30 rounded-2xl shadow-2xl p-6 sm:p-8 max-w-xs w-full flex flex-col items-center scale-100 animate-popIn">
+            <div className="mb-4 p-3 rounded-full bg-red-500/15">
+              <Trash2 className="w-6 h-6 text-red-400" />
+            </div>
+            <h3 className="text-lg font-bold text-[#F6E9E9] mb-2 font-['Poppins']">Delete Permanently?</h3>
+            <p className="text-[#F6E9E9]/70 text-center mb-6 font-['Inter']">
+              <span className="text-[#E16428] font-bold">{confirmPurge.label}</span> will be deleted for good
+              {confirmPurge.kind === 'project' ? ' with its payments' : ' with their payouts'}. This cannot be undone.
+            </p>
+            <div className="flex space-x-4">
+              <button
+                onClick={() => setConfirmPurge(null)}
+                className="px-5 py-2 rounded-lg bg-[#363333]/60 text-[#F6E9E9] hover:bg-[#E16428]/10 transition-all duration-300 font-['Poppins']"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handlePurge(confirmPurge)}
+                className="px-5 py-2 rounded-lg bg-gradient-to-r from-red-500 to-red-600 text-white shadow-lg hover:scale-105 transition-all duration-300 font-['Poppins']"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
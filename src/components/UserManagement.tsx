@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from 'react';
+import { UserPlus, KeyRound, UserX, UserCheck, Clock, Check } from 'lucide-react';
+import { AdminUser, Role } from '../types';
+import { useAdminUsers } from '../hooks/useAdminUsers';
+import { getCurrentAdmin, getPasswordPolicyErrors, getPasswordPolicyRules } from '../auth';
+import { ROLES } from '../permissions';
+
+// Users tab of Settings: admins invite, deactivate and reset other admin accounts
+export const UserManagement: React.FC = () => {
+  const { users, loading, error, inviteUser, updateUser, resetPassword } = useAdminUsers();
+  const [currentAdminId, setCurrentAdminId] = useState<string | null>(null);
+
+  // Invite form
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('viewer');
+  const [withPassword, setWithPassword] = useState(false);
+  const [password, setPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [messageOk, setMessageOk] = useState(false);
+
+  const [confirmDeactivate, setConfirmDeactivate] = useState<AdminUser | null>(null);
+
+  useEffect(() => {
+    getCurrentAdmin().then(admin => setCurrentAdminId(admin?.id ?? null));
+  }, []);
+
+  // ESC key handler to close the deactivate modal
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && confirmDeactivate) {
+        setConfirmDeactivate(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [confirmDeactivate]);
+
+  const showMessage = (text: string, ok: boolean) => {
+    setMessage(text);
+    setMessageOk(ok);
+  };
+
+  async function handleInvite(e: React.FormEvent) {
+    e.preventDefault();
+    if (withPassword && getPasswordPolicyErrors(password).length > 0) {
+      showMessage('Password does not meet the password policy.', false);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await inviteUser(email.trim(), role, withPassword ? password : undefined);
+      showMessage(withPassword ? `${email.trim()} can now sign in.` : `Invite sent to ${email.trim()}.`, true);
+      setEmail('');
+      setPassword('');
+      setRole('viewer');
+    } catch (err) {
+      showMessage(err instanceof Error ? err.message : 'Failed to invite user.', false);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRoleChange(user: AdminUser, newRole: Role) {
+    try {
+      await updateUser(user.id, { role: newRole });
+      showMessage(`${user.email} is now a ${newRole}.`, true);
+    } catch {
+      showMessage('Failed to change role.', false);
+    }
+  }
+
+  async function handleSetActive(user: AdminUser, active: boolean) {
+    setConfirmDeactivate(null);
+    try {
+      await updateUser(user.id, { active });
+      showMessage(`${user.email} has been ${active ? 'reactivated' : 'deactivated'}.`, true);
+    } catch {
+      showMessage(`Failed to ${active ? 'reactivate' : 'deactivate'} user.`, false);
+    }
+  }
+
+  async function handleResetPassword(user: AdminUser) {
+    try {
+      await resetPassword(user.email);
+      showMessage(`Password reset link sent to ${user.email}.`, true);
+    } catch {
+      showMessage('Failed to send password reset.', false);
+    }
+  }
+
+  const policyRules = getPasswordPolicyRules();
+  const unmetRules = getPasswordPolicyErrors(password);
+
+  return (
+    <section>
+      <h2 className="text-lg sm:text-xl font-bold text-[#F6E9E9] mb-4">Users</h2>
+
+      <form onSubmit={handleInvite} className="space-y-3 mb-6">
+        <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
+          <input
+            type="email"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            className="w-full px-3 py-2 rounded bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] focus:outline-none text-sm"
+            placeholder="Email address"
+            required
+          />
+          <select
+            value={role}
+            onChange={e => setRole(e.target.value as Role)}
+            className="px-3 py-2 rounded bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] text-sm capitalize"
+          >
+            {ROLES.map(r => (
+              <option key={r} value={r} className="bg-[#272121]">{r}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-[#E16428] text-white px-4 py-2 rounded hover:bg-[#d35400] flex items-center justify-center sm:w-auto whitespace-nowrap disabled:opacity-50"
+          >
+            <UserPlus className="w-4 h-4 mr-1" /> {saving ? 'Saving...' : withPassword ? 'Create' : 'Invite'}
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-[#F6E9E9]/70">
+          <input
+            type="checkbox"
+            checked={withPassword}
+            onChange={e => setWithPassword(e.target.checked)}
+            className="accent-[#E16428]"
+          />
+          Set an initial password instead of emailing an invite
+        </label>
+        {withPassword && (
+          <>
+            <input
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              className="w-full px-3 py-2 rounded bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] text-sm"
+              placeholder="Initial password"
+              required
+            />
+            <ul className="space-y-1 text-xs">
+              {policyRules.map(rule => {
+                const isMet = password !== '' && !unmetRules.includes(rule);
+                return (
+                  <li key={rule} className={`flex items-center gap-2 ${isMet ? 'text-green-400' : 'text-[#F6E9E9]/50'}`}>
+                    <Check className="w-3 h-3" />
+                    {rule}
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+        {message && <div className={`text-sm ${messageOk ? 'text-green-400' : 'text-red-400'}`}>{message}</div>}
+      </form>
+
+      {loading ? (
+        <div className="text-[#F6E9E9]/70">Loading...</div>
+      ) : error && users.length === 0 ? (
+        <div className="text-red-400 text-sm">{error}</div>
+      ) : (
+        <div className="space-y-2">
+          {users.map(user => {
+            const isSelf = user.id === currentAdminId;
+            return (
+              <div
+                key={user.id}
+                className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 bg-[#272121]/70 border border-[#E16428]/20 rounded-lg px-3 sm:px-4 py-2 sm:py-3 ${user.active ? '' : 'opacity-60'}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-[#F6E9E9] font-medium text-sm truncate">
+                    {user.email}
+                    {isSelf && <span className="text-[#E16428] text-xs ml-2">(you)</span>}
+                    {!user.active && <span className="text-red-400 text-xs ml-2">deactivated</span>}
+                  </p>
+                  <p className="text-[#F6E9E9]/50 text-xs flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    {user.lastLogin ? `Last login ${new Date(user.lastLogin).toLocaleString()}` : 'Never logged in'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={user.role}
+                    onChange={e => handleRoleChange(user, e.target.value as Role)}
+                    disabled={isSelf}
+                    className="px-2 py-1 rounded bg-[#272121]/50 border border-[#E16428]/20 text-[#F6E9E9] text-xs capitalize disabled:opacity-50"
+                    title={isSelf ? 'You cannot change your own role' : 'Role'}
+                  >
+                    {ROLES.map(r => (
+                      <option key={r} value={r} className="bg-[#272121]">{r}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleResetPassword(user)}
+                    className="p-1.5 rounded-lg bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 transition"
+                    title="Send password reset link"
+                  >
+                    <KeyRound className="w-4 h-4" />
+                  </button>
+                  {user.active ? (
+                    <button
+                      onClick={() => setConfirmDeactivate(user)}
+                      disabled={isSelf}
+                      className="p-1.5 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      title={isSelf ? 'You cannot deactivate yourself' : 'Deactivate user'}
+                    >
+                      <UserX className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleSetActive(user, true)}
+                      className="p-1.5 rounded-lg bg-green-500/20 text-green-400 hover:bg-green-500/30 transition"
+                      title="Reactivate user"
+                    >
+                      <UserCheck className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {confirmDeactivate && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fadeIn p-4">
+          <div className="bg-[#272121] border border-[#E16428]/30 rounded-2xl shadow-2xl p-6 sm:p-8 max-w-xs w-full flex flex-col items-center scale-100 animate-popIn">
+            <div className="mb-4 p-3 rounded-full bg-red-500/15">
+              <UserX className="w-6 h-6 text-red-400" />
+            </div>
+            <h3 className="text-lg font-bold text-[#F6E9E9] mb-2 font-['Poppins']">Deactivate User?</h3>
+            <p className="text-[#F6E9E9]/70 text-center mb-6 font-['Inter']">
+              <span className="text-[#E16428] font-bold">{confirmDeactivate.email}</span> will lose access immediately. You can reactivate them later.
+            </p>
+            <div className="flex space-x-4">
+              <button
+                onClick={() => setConfirmDeactivate(null)}
+                className="px-5 py-2 rounded-lg bg-[#363333]/60 text-[#F6E9E9] hover:bg-[#E16428]/10 transition-all duration-300 font-['Poppins']"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleSetActive(confirmDeactivate, false)}
+                className="px-5 py-2 rounded-lg bg-gradient-to-r from-[#E16428] to-[#E16428]/80 text-white shadow-lg hover:scale-105 transition-all duration-300 font-['Poppins']"
+              >
+                Deactivate
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
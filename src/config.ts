@@ -0,0 +1,28 @@
+// App configuration read from Vite env variables (see .env.example)
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && !isNaN(parsed) ? parsed : fallback;
+};
+
+const readFlag = (value: string | undefined, fallback: boolean): boolean =>
+  value === undefined || value === '' ? fallback : value === 'true';
+
+// Rules a new admin password must meet. Keep the minimum length at or above the
+// one configured for Supabase Auth, which enforces its own minimum server-side.
+export const passwordPolicy = {
+  minLength: readNumber(import.meta.env.VITE_PASSWORD_MIN_LENGTH, 10),
+  requireUppercase: readFlag(import.meta.env.VITE_PASSWORD_REQUIRE_UPPERCASE, true),
+  requireLowercase: readFlag(import.meta.env.VITE_PASSWORD_REQUIRE_LOWERCASE, true),
+  requireNumber: readFlag(import.meta.env.VITE_PASSWORD_REQUIRE_NUMBER, true),
+  requireSymbol: readFlag(import.meta.env.VITE_PASSWORD_REQUIRE_SYMBOL, true),
+};
+
+// Where the data lives: the Supabase project (default), or 'local' for an in-memory copy of the
+// sample data that needs no server, for development and demos
+export const dataBackend: 'supabase' | 'local' = import.meta.env.VITE_DATA_BACKEND === 'local' ? 'local' : 'supabase';
+
+export const supabaseConfig = {
+  url: import.meta.env.VITE_SUPABASE_URL ?? '',
+  anonKey: import.meta.env.VITE_SUPABASE_ANON_KEY ?? '',
+};
@@ -0,0 +1,10 @@
+import { dataBackend, supabaseConfig } from '../config';
+import { createLocalBackend } from './local';
+import { createSupabaseBackend } from './supabase';
+import { DataBackend } from './types';
+
+// The backend every hook and auth call goes through, chosen by VITE_DATA_BACKEND
+export const backend: DataBackend =
+  dataBackend === 'local' ? createLocalBackend() : createSupabaseBackend(supabaseConfig.url, supabaseConfig.anonKey);
+
+export * from './types';
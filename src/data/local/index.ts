@@ -0,0 +1,391 @@
+import { AdminUser, AppSettings, Client, EmployeePayout, FieldChanges, LogEntry, ProjectPayment } from '../../types';
+import { isAssignedTo } from '../../utils/assignees';
+import { OPEN_PROJECT_STATUSES, getOpenProjects } from '../../utils/employees';
+import { DEFAULT_APP_SETTINGS, formatProjectNumber, getProjectNumberSettingsError } from '../../utils/projectNumbers';
+import { AuthEvent, AuthSession, DataBackend, DataError, LogFilter } from '../types';
+import { createSampleData } from './seed';
+import {
+  StoredRecord,
+  WriteTrigger,
+  checkForeignKey,
+  checkUnique,
+  createLocalRepository,
+  createLocalTable,
+  restrictDelete,
+  withTrash,
+} from './table';
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+const byCreatedAt = (a: { createdAt?: string }, b: { createdAt?: string }) =>
+  (a.createdAt ?? '').localeCompare(b.createdAt ?? '');
+
+// The conditions the Supabase log reads put in their query
+const matchesLogFilter = (entry: LogEntry, filter: LogFilter) =>
+  (!filter.action || entry.action === filter.action) &&
+  (!filter.actions || filter.actions.includes(entry.action)) &&
+  (!filter.adminId || entry.adminId === filter.adminId) &&
+  (!filter.entityType || entry.entityType === filter.entityType) &&
+  (!filter.entityId || entry.entityId === filter.entityId) &&
+  (!filter.adminEmail || entry.adminEmail.toLowerCase().includes(filter.adminEmail.toLowerCase())) &&
+  (!filter.from || entry.createdAt >= filter.from) &&
+  (!filter.before || entry.createdAt < filter.before);
+
+// In-memory backend seeded with the sample data, for development and demos without a Supabase project.
+// It applies the schema's constraints and triggers that the app relies on; everything resets on reload.
+export const createLocalBackend = (): DataBackend => {
+  const sample = createSampleData();
+  const log: LogEntry[] = [];
+  let settings: AppSettings = { ...DEFAULT_APP_SETTINGS, updatedAt: new Date().toISOString() };
+
+  // Sign-in state; each account signs in with any password until one is set
+  let session: AuthSession | null = null;
+  const passwords = new Map<string, string>();
+  const authListeners = new Set<(event: AuthEvent, session: AuthSession | null) => void>();
+  const announce = (event: AuthEvent) => authListeners.forEach(listener => listener(event, session));
+
+  // audit_row_change: log every write with the fields it changed, by the signed-in admin. Payments are logged
+  // against their project; the project's types and assignees are fields of the project here. The fields in keep
+  // are recorded even when unchanged.
+  const audit = <T extends StoredRecord>(
+    entityType: string,
+    prefix: string,
+    entityIdOf: (record: T) => string = record => record.id,
+    keep: string[] = []
+  ): WriteTrigger<T> => (saved, previous) => {
+    const before: Record<string, unknown> = { ...previous };
+    const after: Record<string, unknown> = { ...saved };
+    const changes: FieldChanges = Object.fromEntries(
+      [...new Set([...Object.keys(before), ...Object.keys(after)])]
+        .filter(field => field !== 'createdAt' && field !== 'updatedAt')
+        .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+        .map(field => [field, { old: before[field] ?? null, new: after[field] ?? null }])
+    );
+    if (saved && previous && Object.keys(changes).length === 0) return;
+
+    const verb = !previous
+      ? 'created'
+      : !saved
+      ? 'deleted'
+      : 'deletedAt' in changes
+      ? (after.deletedAt ? 'trashed' : 'restored')
+      : 'updated';
+    keep
+      .filter(field => !(field in changes))
+      .forEach(field => {
+        changes[field] = { old: before[field] ?? null, new: after[field] ?? null };
+      });
+    const admin = session && rowsOf(admins).find(other => other.userId === session?.userId);
+    log.unshift({
+      id: crypto.randomUUID(),
+      adminId: admin?.id ?? null,
+      adminEmail: admin?.email ?? 'system',
+      action: `${prefix}_${verb}`,
+      entityType,
+      entityId: entityIdOf((saved ?? previous) as T),
+      changes,
+      createdAt: new Date().toISOString(),
+    });
+  };
+
+  const projects = createLocalTable('projects', sample.projects, audit('project', 'project'));
+  const payments = createLocalTable('project_payments', sample.payments, audit<ProjectPayment>('project', 'payment', payment => payment.projectId, ['amount']));
+  const projectTypes = createLocalTable('project_types', sample.projectTypes, audit('project_type', 'project_type'));
+  const employees = createLocalTable('employees', sample.employees, audit('employee', 'employee'));
+  const clients = createLocalTable('clients', sample.clients);
+  const organizations = createLocalTable('organizations', sample.organizations);
+  const payouts = createLocalTable<EmployeePayout>('employee_payouts', []);
+  const admins = createLocalTable('admin', sample.admins);
+
+  // project_number_seq: continues after the highest number in use, whatever its prefix
+  let lastProjectNumber = [...projects.rows.values()].reduce((max, project) => {
+    const digits = /(\d+)$/.exec(project.projectId);
+    return digits ? Math.max(max, parseInt(digits[1], 10)) : max;
+  }, 999);
+
+  const rowsOf = <T extends { id: string }>(table: { rows: Map<string, T> }) => [...table.rows.values()];
+
+  // link_clients_to_organizations: link a client to the organization named in uniOrg, creating it on first use
+  const linkOrganization = (client: Client): Client => {
+    const name = client.uniOrg.trim();
+    if (!name) return { ...client, uniOrg: '', organizationId: null };
+
+    const organization =
+      rowsOf(organizations).find(other => other.name.toLowerCase() === name.toLowerCase()) ??
+      organizations.save({ id: crypto.randomUUID(), name }, 'insert');
+    return { ...client, uniOrg: organization.name, organizationId: organization.id };
+  };
+
+  // sync_clients_to_projects: copy a client's name and organization onto their projects
+  const syncClientProjects = (client: Client) => {
+    rowsOf(projects)
+      .filter(project => project.clientId === client.id)
+      .forEach(project => projects.save({ ...project, clientName: client.name, clientUniOrg: client.uniOrg }, 'update'));
+  };
+
+  const updateClient = (client: Client, changes: Partial<Client>) => {
+    const saved = clients.save(linkOrganization({ ...client, ...changes }), 'update');
+    syncClientProjects(saved);
+  };
+
+  const projectRepository = withTrash(createLocalRepository(projects, {
+    order: (a, b) => byCreatedAt(b, a),
+    prepare: project => {
+      checkUnique(projects, project, 'project_id', other => other.projectId);
+      // project_assignments_employee_id_fkey, check_assignment_employee and check_project_trash:
+      // open work in use cannot have an assignee who is missing or in the trash
+      const isOpenInUse = !project.deletedAt && OPEN_PROJECT_STATUSES.includes(project.status);
+      project.assignees.forEach(assignee => {
+        const employee = employees.rows.get(assignee.employeeId);
+        checkForeignKey('project_assignments', 'employee_id', !!employee && (!isOpenInUse || !employee.deletedAt));
+      });
+      // Payments are stored in their own table
+      const row = { ...project };
+      delete row.payments;
+      // set_projects_delivered_at: stamp the first delivery
+      if (row.status === 'Delivered' && !row.deliveredAt) row.deliveredAt = new Date().toISOString();
+      return row;
+    },
+    remove: project => {
+      rowsOf(payments).filter(payment => payment.projectId === project.id).forEach(payment => payments.delete(payment.id));
+      rowsOf(payouts)
+        .filter(payout => payout.items.some(item => item.projectId === project.id))
+        .forEach(payout =>
+          payouts.save({ ...payout, items: payout.items.filter(item => item.projectId !== project.id) }, 'update')
+        );
+    },
+    // Read the project with its payments and the current names of its types
+    view: project => ({
+      ...project,
+      projectTypes: project.projectTypes
+        .map(type => projectTypes.rows.get(type.id))
+        .filter((type): type is NonNullable<typeof type> => !!type)
+        .sort(byName),
+      payments: rowsOf(payments)
+        .filter(payment => payment.projectId === project.id)
+        .sort((a, b) => a.paymentDate.localeCompare(b.paymentDate)),
+    }),
+  }));
+
+  const paymentRepository = createLocalRepository<ProjectPayment>(payments, {
+    order: (a, b) => a.paymentDate.localeCompare(b.paymentDate),
+    prepare: payment => {
+      checkForeignKey('project_payments', 'project_id', projects.rows.has(payment.projectId));
+      return payment;
+    },
+    // A project's readers follow its payments through the project's own change events
+    afterSave: payment => projects.emit({ kind: 'update', id: payment.projectId }),
+  });
+
+  const organizationRepository = createLocalRepository(organizations, {
+    order: byName,
+    prepare: organization => {
+      checkUnique(organizations, organization, 'name', other => other.name.toLowerCase());
+      return organization;
+    },
+    // sync_organizations_to_clients: carry a new name onto the organization's clients
+    afterSave: (organization, previous) => {
+      if (!previous || previous.name === organization.name) return;
+      rowsOf(clients)
+        .filter(client => client.organizationId === organization.id)
+        .forEach(client => updateClient(client, { uniOrg: organization.name }));
+    },
+    remove: organization => {
+      rowsOf(clients)
+        .filter(client => client.organizationId === organization.id)
+        .forEach(client => clients.save({ ...client, organizationId: null }, 'update'));
+    },
+  });
+
+  const adminRepository = createLocalRepository<AdminUser>(admins, {
+    order: byCreatedAt,
+    prepare: admin => {
+      checkUnique(admins, admin, 'email', other => other.email.toLowerCase());
+      return admin;
+    },
+  });
+
+  return {
+    remote: false,
+
+    async ping() {},
+
+    projects: {
+      ...projectRepository,
+
+      // allocate_project_number: skip numbers that were typed in by hand
+      async allocateNumber() {
+        const taken = new Set(rowsOf(projects).map(project => project.projectId));
+        let projectId: string;
+        do {
+          lastProjectNumber += 1;
+          projectId = formatProjectNumber(settings, lastProjectNumber);
+        } while (taken.has(projectId));
+        return projectId;
+      },
+    },
+    payments: paymentRepository,
+
+    projectTypes: createLocalRepository(projectTypes, {
+      order: byCreatedAt,
+      prepare: type => {
+        const trimmed = { ...type, name: type.name.trim() };
+        checkUnique(projectTypes, trimmed, 'name', other => other.name);
+        return trimmed;
+      },
+      remove: type => {
+        const inUse = rowsOf(projects).some(project => project.projectTypes.some(other => other.id === type.id));
+        restrictDelete('project_types', 'project_project_types', inUse);
+      },
+    }),
+
+    employees: withTrash(createLocalRepository(employees, {
+      order: (a, b) => byCreatedAt(b, a),
+      prepare: (employee, previous) => {
+        checkUnique(employees, employee, 'employee_id', other => other.employeeId);
+        // check_employee_trash: reassign their open projects before moving them to the trash
+        if (employee.deletedAt && !previous?.deletedAt) {
+          const assigned = getOpenProjects(employee.id, rowsOf(projects)).some(project => !project.deletedAt);
+          restrictDelete('employees', 'project_assignments', assigned);
+        }
+        return employee;
+      },
+      remove: employee => {
+        restrictDelete('employees', 'project_assignments', rowsOf(projects).some(project => isAssignedTo(project, employee.id)));
+        rowsOf(payouts).filter(payout => payout.employeeId === employee.id).forEach(payout => payouts.delete(payout.id));
+      },
+    })),
+
+    clients: createLocalRepository(clients, {
+      order: byName,
+      prepare: client => linkOrganization({ ...client, name: client.name.trim() }),
+      afterSave: (client, previous) => {
+        if (previous && (previous.name !== client.name || previous.uniOrg !== client.uniOrg)) syncClientProjects(client);
+      },
+      // Projects keep the name and organization they were saved with
+      remove: client => {
+        rowsOf(projects)
+          .filter(project => project.clientId === client.id)
+          .forEach(project => projects.save({ ...project, clientId: null }, 'update'));
+      },
+    }),
+
+    organizations: {
+      ...organizationRepository,
+
+      async merge(targetId, sourceIds) {
+        const target = organizations.rows.get(targetId);
+        if (!target) throw new DataError(`Organization ${targetId} not found`);
+        const sources = sourceIds.filter(id => id !== targetId && organizations.rows.has(id));
+        const sourceNames = sources.map(id => organizations.rows.get(id)?.name.toLowerCase());
+
+        // Projects whose client was deleted still carry the old spelling
+        rowsOf(projects)
+          .filter(project => !project.clientId && sourceNames.includes(project.clientUniOrg.trim().toLowerCase()))
+          .forEach(project => projects.save({ ...project, clientUniOrg: target.name }, 'update'));
+        rowsOf(clients)
+          .filter(client => client.organizationId && sources.includes(client.organizationId))
+          .forEach(client => updateClient(client, { uniOrg: target.name }));
+        sources.forEach(id => organizations.delete(id));
+      },
+    },
+
+    payouts: createLocalRepository(payouts, {
+      order: (a, b) => b.payoutDate.localeCompare(a.payoutDate),
+      prepare: payout => {
+        checkForeignKey('employee_payouts', 'employee_id', employees.rows.has(payout.employeeId));
+        return { ...payout, items: payout.items.map(item => ({ ...item, payoutId: payout.id })) };
+      },
+    }),
+
+    settings: {
+      async get() {
+        return { ...settings };
+      },
+
+      async update(changes) {
+        const next = { ...settings, ...changes };
+        const problem = getProjectNumberSettingsError(next.projectNumberPrefix, next.projectNumberPadding);
+        if (problem) throw new DataError(problem, '23514');
+        settings = { ...next, updatedAt: new Date().toISOString() };
+        return { ...settings };
+      },
+    },
+
+    admin: {
+      async getSession() {
+        return session;
+      },
+
+      onAuthChange(listener) {
+        authListeners.add(listener);
+        return () => {
+          authListeners.delete(listener);
+        };
+      },
+
+      async signIn(email, password) {
+        const account = rowsOf(admins).find(admin => admin.email.toLowerCase() === email.trim().toLowerCase());
+        const userId = account?.userId;
+        if (!userId || !password || (passwords.has(userId) && passwords.get(userId) !== password)) return false;
+
+        session = { userId, email: account.email };
+        announce('SIGNED_IN');
+        return true;
+      },
+
+      // Other sessions do not exist locally, so signing them out changes nothing
+      async signOut(scope) {
+        if (scope === 'others') return;
+        session = null;
+        announce('SIGNED_OUT');
+      },
+
+      async updatePassword(password) {
+        if (!session) throw new DataError('Auth session missing!');
+        passwords.set(session.userId, password);
+        announce('USER_UPDATED');
+      },
+
+      // No email is sent locally; the password stays as it is
+      async sendPasswordReset() {},
+
+      async findActive(userId) {
+        const admin = rowsOf(admins).find(other => other.userId === userId && other.active);
+        return admin ? { id: admin.id, email: admin.email, role: admin.role || 'viewer' } : null;
+      },
+
+      list: adminRepository.list,
+
+      async update(id, changes) {
+        await adminRepository.update(id, changes);
+      },
+
+      async invite({ email, role, password }) {
+        const userId = crypto.randomUUID();
+        await adminRepository.insert({ id: crypto.randomUUID(), userId, email: email.trim(), role, active: true });
+        if (password) passwords.set(userId, password);
+      },
+    },
+
+    log: {
+      async insert(entry) {
+        log.unshift({ ...entry, id: crypto.randomUUID(), createdAt: new Date().toISOString() });
+      },
+
+      async list(filter = {}, limit) {
+        return log
+          .filter(entry => matchesLogFilter(entry, filter))
+          .slice(0, limit)
+          .map(entry => structuredClone(entry));
+      },
+
+      async listPage(filter, page, pageSize) {
+        const matching = log.filter(entry => matchesLogFilter(entry, filter));
+        return {
+          entries: matching.slice(page * pageSize, (page + 1) * pageSize).map(entry => structuredClone(entry)),
+          total: matching.length,
+        };
+      },
+    },
+  };
+};
@@ -0,0 +1,122 @@
+import {
+  AdminUser,
+  AssigneeRole,
+  Client,
+  Employee,
+  Organization,
+  PaymentMethod,
+  Project,
+  ProjectAssignee,
+  ProjectPayment,
+  ProjectType,
+} from '../../types';
+
+// The sample data of DB/seed.sql; keep the two in step
+export const createSampleData = () => {
+  const now = new Date().toISOString();
+  const stamps = { createdAt: now, updatedAt: now };
+  const id = () => crypto.randomUUID();
+
+  const projectTypes: ProjectType[] = [
+    'Web Development',
+    'Mobile App Development',
+    'UI/UX Design',
+    'Digital Marketing',
+    'SEO Optimization',
+    'Content Creation',
+    'Graphic Design',
+    'Video Production',
+  ].map(name => ({ id: id(), name, ...stamps }));
+
+  const employees: Employee[] = [
+    ['EMP001', 'John', 'Doe', '1990-05-15', 'Senior Developer', '123 Main St, Colombo', '+94751234567', 'john.doe@ogo.com', 'BSc Computer Science, 5 years experience'],
+    ['EMP002', 'Jane', 'Smith', '1988-08-22', 'UI/UX Designer', '456 Oak Ave, Kandy', '+94759876543', 'jane.smith@ogo.com', 'BDes Graphic Design, 3 years experience'],
+    ['EMP003', 'Mike', 'Johnson', '1992-03-10', 'Project Manager', '789 Pine Rd, Galle', '+94751122334', 'mike.johnson@ogo.com', 'MBA, PMP Certified, 4 years experience'],
+  ].map(([employeeId, firstName, lastName, birthday, position, address, whatsappNumber, emailAddress, qualifications]) => ({
+    id: id(),
+    employeeId,
+    firstName,
+    lastName,
+    birthday,
+    position,
+    address,
+    whatsappNumber,
+    emailAddress,
+    qualifications,
+    status: 'active' as const,
+    ...stamps,
+  }));
+
+  // Organizations are created by the trigger that links clients to them
+  const organizations: Organization[] = ['TechCorp Ltd', 'Green Energy Ltd', 'EduTech Foundation'].map(name => ({
+    id: id(),
+    name,
+    ...stamps,
+  }));
+
+  const clients: Client[] = [
+    ['TechCorp Solutions', 'contact@techcorp.lk', '+94771234567'],
+    ['Green Energy Co', 'info@greenenergy.lk', '+94772345678'],
+    ['EduTech Institute', 'admin@edutech.lk', '+94773456789'],
+  ].map(([name, email, whatsappNumber], index) => ({
+    id: id(),
+    name,
+    uniOrg: organizations[index].name,
+    organizationId: organizations[index].id,
+    email,
+    phone: '',
+    whatsappNumber,
+    notes: '',
+    ...stamps,
+  }));
+
+  const typesNamed = (...names: string[]) => projectTypes.filter(type => names.includes(type.name));
+
+  // Assignees are [employee index, role, share]; PRJ002 is shared between two employees
+  const team = (...members: [number, AssigneeRole, number][]): ProjectAssignee[] =>
+    members.map(([index, role, share]) => ({ employeeId: employees[index].id, role, share }));
+
+  const projects: Project[] = [
+    { projectId: 'PRJ001', deadlineDate: '2024-02-15', price: 50000, advance: 15000, paymentOfEmp: 8000, status: 'Running' as const, types: typesNamed('Web Development'), assignees: team([0, 'lead', 8000]) },
+    { projectId: 'PRJ002', deadlineDate: '2024-03-20', price: 75000, advance: 25000, paymentOfEmp: 12000, status: 'Pending' as const, types: typesNamed('Mobile App Development', 'UI/UX Design'), assignees: team([1, 'lead', 7000], [2, 'writer', 5000]) },
+    { projectId: 'PRJ003', deadlineDate: '2024-01-30', price: 100000, advance: 30000, paymentOfEmp: 15000, status: 'Delivered' as const, types: typesNamed('Web Development', 'Video Production'), assignees: team([2, 'lead', 15000]) },
+  ].map(({ types, ...project }, index) => ({
+    ...project,
+    id: id(),
+    clientId: clients[index].id,
+    clientName: clients[index].name,
+    clientUniOrg: clients[index].uniOrg,
+    projectTypes: types,
+    fastDeliver: false,
+    deliveredAt: project.status === 'Delivered' ? now : null,
+    ...stamps,
+  }));
+
+  // The advance is always the first payment
+  const payments: ProjectPayment[] = (
+    [
+      [0, '2024-01-05', 15000, 'Bank Transfer', 'Advance'],
+      [0, '2024-01-25', 10000, 'Cash', 'Second installment'],
+      [1, '2024-02-01', 25000, 'Online', 'Advance'],
+      [2, '2023-12-10', 30000, 'Bank Transfer', 'Advance'],
+      [2, '2024-01-30', 70000, 'Bank Transfer', 'Final payment'],
+    ] as Array<[number, string, number, PaymentMethod, string]>
+  ).map(([projectIndex, paymentDate, amount, method, reference]) => ({
+    id: id(),
+    projectId: projects[projectIndex].id,
+    paymentDate,
+    amount,
+    method,
+    reference,
+    voidedAt: null,
+    voidReason: null,
+    ...stamps,
+  }));
+
+  // Signs in with any password until one is set in Settings
+  const admins: AdminUser[] = [
+    { id: id(), userId: id(), email: 'admin@ogotechnology.com', role: 'admin', active: true, createdAt: now },
+  ];
+
+  return { projectTypes, employees, organizations, clients, projects, payments, admins };
+};
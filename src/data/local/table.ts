@@ -0,0 +1,171 @@
+import { DataError, RecordChange, Repository, TrashRepository, Unsubscribe } from '../types';
+
+export interface StoredRecord {
+  id: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+type TrashableRecord = StoredRecord & { deletedAt?: string | null };
+
+// One table of the local backend: records by id, with the change events Supabase realtime would send
+export interface LocalTable<T extends StoredRecord> {
+  name: string;
+  rows: Map<string, T>;
+  save(record: T, kind: 'insert' | 'update'): T;
+  delete(id: string): void;
+  emit(change: RecordChange<T>): void;
+  subscribe(listener: (change: RecordChange<T>) => void): Unsubscribe;
+}
+
+// Runs after every write of a table, like an AFTER row trigger; saved is null for deletes and previous unset for inserts
+export type WriteTrigger<T> = (saved: T | null, previous: T | undefined) => void;
+
+export const createLocalTable = <T extends StoredRecord>(name: string, seed: T[], afterWrite?: WriteTrigger<T>): LocalTable<T> => {
+  const rows = new Map(seed.map(record => [record.id, record]));
+  const listeners = new Set<(change: RecordChange<T>) => void>();
+
+  const emit = (change: RecordChange<T>) => {
+    // Like realtime events, changes arrive after the write has returned to the caller
+    setTimeout(() => listeners.forEach(listener => listener(structuredClone(change))), 0);
+  };
+
+  return {
+    name,
+    rows,
+    emit,
+
+    // Stamps the timestamps the database defaults and update triggers would set
+    save(record, kind) {
+      const now = new Date().toISOString();
+      const saved = { ...record, createdAt: record.createdAt ?? now, updatedAt: now };
+      const previous = rows.get(saved.id);
+      rows.set(saved.id, saved);
+      afterWrite?.(saved, previous);
+      emit({ kind, id: saved.id, record: saved });
+      return saved;
+    },
+
+    delete(id) {
+      const previous = rows.get(id);
+      rows.delete(id);
+      if (previous) afterWrite?.(null, previous);
+      emit({ kind: 'delete', id });
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+// Throw the error Postgres raises for a duplicate value of a unique column
+export const checkUnique = <T extends StoredRecord>(
+  table: LocalTable<T>,
+  record: T,
+  column: string,
+  value: (record: T) => string
+) => {
+  const key = value(record);
+  for (const other of table.rows.values()) {
+    if (other.id !== record.id && value(other) === key) {
+      throw new DataError(`duplicate key value violates unique constraint "${table.name}_${column}_key"`, '23505');
+    }
+  }
+};
+
+// Throw the error Postgres raises when a foreign key still points at the record being deleted
+export const restrictDelete = (table: string, referencedBy: string, inUse: boolean) => {
+  if (inUse) {
+    throw new DataError(
+      `update or delete on table "${table}" violates foreign key constraint on table "${referencedBy}"`,
+      '23503'
+    );
+  }
+};
+
+// Throw the error Postgres raises when a record points at one that does not exist
+export const checkForeignKey = (table: string, column: string, exists: boolean) => {
+  if (!exists) {
+    throw new DataError(`insert or update on table "${table}" violates foreign key constraint "${table}_${column}_fkey"`, '23503');
+  }
+};
+
+const definedFields = <T>(changes: Partial<T>) =>
+  Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+export interface LocalRepositoryOptions<T extends StoredRecord> {
+  order: (a: T, b: T) => number;
+  // Checks constraints (throwing a DataError) and fills in what the table's triggers would
+  prepare?: (record: T, previous?: T) => T;
+  // Runs after a save, for triggers that change other tables
+  afterSave?: (record: T, previous?: T) => void;
+  // Checks restricting foreign keys before a delete (throwing a DataError) and applies cascades
+  remove?: (record: T) => void;
+  // Joins related records into what reads return, like the Supabase selects do
+  view?: (record: T) => T;
+}
+
+export const createLocalRepository = <T extends StoredRecord>(
+  table: LocalTable<T>,
+  { order, prepare = record => record, afterSave, remove, view = record => record }: LocalRepositoryOptions<T>
+): Repository<T> => {
+  // Callers get copies, so they cannot change stored records by accident
+  const read = (record: T) => structuredClone(view(record));
+
+  return {
+    async list() {
+      return [...table.rows.values()].map(read).sort(order);
+    },
+
+    async get(id) {
+      const record = table.rows.get(id);
+      return record ? read(record) : null;
+    },
+
+    async insert(record) {
+      if (table.rows.has(record.id)) {
+        throw new DataError(`duplicate key value violates unique constraint "${table.name}_pkey"`, '23505');
+      }
+      const saved = table.save(prepare(structuredClone(definedFields(record)) as T), 'insert');
+      afterSave?.(saved);
+      return read(saved);
+    },
+
+    async update(id, changes, expectedUpdatedAt) {
+      const previous = table.rows.get(id);
+      if (!previous || (expectedUpdatedAt && previous.updatedAt !== expectedUpdatedAt)) return null;
+
+      const saved = table.save(prepare({ ...previous, ...structuredClone(definedFields(changes)), id }, previous), 'update');
+      afterSave?.(saved, previous);
+      return read(saved);
+    },
+
+    async remove(id) {
+      const record = table.rows.get(id);
+      if (!record) return;
+      remove?.(record);
+      table.delete(id);
+    },
+
+    subscribe: table.subscribe,
+  };
+};
+
+// Read only the records outside the trash, like the deleted_at filter of the Supabase reads
+export const withTrash = <T extends TrashableRecord>(repository: Repository<T>): TrashRepository<T> => ({
+  ...repository,
+
+  async list() {
+    return (await repository.list()).filter(record => !record.deletedAt);
+  },
+
+  async listDeleted() {
+    return (await repository.list())
+      .filter(record => !!record.deletedAt)
+      .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+  },
+});
@@ -0,0 +1,115 @@
+import { SupabaseClient, Session } from '@supabase/supabase-js';
+import { AdminRepository, AuthEvent, AuthSession, DataError, LogFilter, LogRepository } from '../types';
+import { mapAdminProfileFromDB, mapAdminUserFromDB, mapLogEntryFromDB } from './mappers';
+import { toDataError } from './tables';
+
+const toAuthSession = (session: Session | null): AuthSession | null =>
+  session ? { userId: session.user.id, email: session.user.email ?? null } : null;
+
+// Supabase Auth holds the accounts and password hashes; the admin table decides who may use the app
+export const createAdminRepository = (supabase: SupabaseClient): AdminRepository => ({
+  async getSession() {
+    const { data: { session } } = await supabase.auth.getSession();
+    return toAuthSession(session);
+  },
+
+  onAuthChange(listener) {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      listener(event as AuthEvent, toAuthSession(session));
+    });
+    return () => subscription.unsubscribe();
+  },
+
+  async signIn(email, password) {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    return !error;
+  },
+
+  async signOut(scope) {
+    const { error } = await supabase.auth.signOut(scope ? { scope } : undefined);
+    if (error) throw toDataError(error);
+  },
+
+  async updatePassword(password) {
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) throw toDataError(error);
+  },
+
+  async sendPasswordReset(email, redirectTo) {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo });
+    if (error) throw toDataError(error);
+  },
+
+  async findActive(userId) {
+    const { data, error } = await supabase
+      .from('admin')
+      .select('id, email, role')
+      .eq('user_id', userId)
+      .eq('active', true)
+      .maybeSingle();
+
+    if (error) throw toDataError(error);
+    return data ? mapAdminProfileFromDB(data) : null;
+  },
+
+  async list() {
+    const { data, error } = await supabase.from('admin').select('*').order('created_at', { ascending: true });
+    if (error) throw toDataError(error);
+    return (data || []).map(mapAdminUserFromDB);
+  },
+
+  async update(id, changes) {
+    const { error } = await supabase.from('admin').update(changes).eq('id', id);
+    if (error) throw toDataError(error);
+  },
+
+  // Creating auth users needs the service role key, so it goes through the admin-users edge function
+  async invite({ email, role, password, redirectTo }) {
+    const { data, error } = await supabase.functions.invoke('admin-users', {
+      body: { email, role, password: password || undefined, redirectTo },
+    });
+    if (error || data?.error) throw new DataError(data?.error || error?.message || 'Failed to invite user');
+  },
+});
+
+// The log entries matching a filter, newest first; count asks for the number of matches as well
+const selectLog = (supabase: SupabaseClient, filter: LogFilter, count?: 'exact') => {
+  let query = supabase.from('log').select('*', count ? { count } : undefined);
+  if (filter.action) query = query.eq('action', filter.action);
+  if (filter.actions) query = query.in('action', filter.actions);
+  if (filter.adminId) query = query.eq('admin_id', filter.adminId);
+  if (filter.entityType) query = query.eq('entity_type', filter.entityType);
+  if (filter.entityId) query = query.eq('entity_id', filter.entityId);
+  // % and _ typed into the search are matched as themselves
+  if (filter.adminEmail) query = query.ilike('admin_email', `%${filter.adminEmail.replace(/[\\%_]/g, '\\$&')}%`);
+  if (filter.from) query = query.gte('created_at', filter.from);
+  if (filter.before) query = query.lt('created_at', filter.before);
+  return query.order('created_at', { ascending: false });
+};
+
+export const createLogRepository = (supabase: SupabaseClient): LogRepository => ({
+  async insert(entry) {
+    const { error } = await supabase.from('log').insert({
+      admin_id: entry.adminId,
+      admin_email: entry.adminEmail,
+      action: entry.action,
+      changes: entry.changes ?? null,
+    });
+    if (error) throw toDataError(error);
+  },
+
+  async list(filter = {}, limit) {
+    let query = selectLog(supabase, filter);
+    if (limit !== undefined) query = query.limit(limit);
+    const { data, error } = await query;
+    if (error) throw toDataError(error);
+    return (data || []).map(mapLogEntryFromDB);
+  },
+
+  async listPage(filter, page, pageSize) {
+    const { data, error, count } = await selectLog(supabase, filter, 'exact')
+      .range(page * pageSize, (page + 1) * pageSize - 1);
+    if (error) throw toDataError(error);
+    return { entries: (data || []).map(mapLogEntryFromDB), total: count ?? 0 };
+  },
+});
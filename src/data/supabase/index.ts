@@ -0,0 +1,282 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ProjectAssignee, ProjectType } from '../../types';
+import { DataBackend, DataError, OrganizationRepository, PayoutRepository, ProjectRepository, SettingsRepository } from '../types';
+import { createAdminRepository, createLogRepository } from './admin';
+import {
+  mapAppSettingsFromDB,
+  mapAssigneesToDB,
+  mapAppSettingsToDB,
+  mapClientFromDB,
+  mapClientToDB,
+  mapEmployeeFromDB,
+  mapEmployeeToDB,
+  mapOrganizationFromDB,
+  mapOrganizationToDB,
+  mapPaymentFromDB,
+  mapPaymentToDB,
+  mapPayoutFromDB,
+  mapPayoutItemFromDB,
+  mapProjectFromDB,
+  mapProjectToDB,
+  mapProjectTypeFromDB,
+  mapProjectTypeToDB,
+} from './mappers';
+import { createTableRepository, createTrashRepository, toDataError, toRecordChange, watchTables } from './tables';
+
+// Projects are always loaded with their payments, client, project types and assignees
+const PROJECT_SELECT = '*, project_payments(*), clients(*), project_project_types(project_types(*)), project_assignments(*)';
+
+const createProjectRepository = (supabase: SupabaseClient): ProjectRepository => {
+  const table = createTrashRepository(supabase, {
+    table: 'projects',
+    select: PROJECT_SELECT,
+    order: { column: 'created_at', ascending: false },
+    fromRow: mapProjectFromDB,
+    toRow: mapProjectToDB,
+  });
+
+  // Bring the project's types in the project_project_types join table in line with projectTypes. Only the
+  // links that changed are written, so the audit log shows what was really added and removed.
+  const saveProjectTypes = async (projectId: string, projectTypes: ProjectType[]) => {
+    const typeIds = projectTypes.map(type => type.id);
+    let removal = supabase
+      .from('project_project_types')
+      .delete()
+      .eq('project_id', projectId);
+    if (typeIds.length > 0) removal = removal.not('project_type_id', 'in', `(${typeIds.join(',')})`);
+
+    const { error: deleteError } = await removal;
+    if (deleteError) throw toDataError(deleteError);
+    if (typeIds.length === 0) return;
+
+    const { error: insertError } = await supabase
+      .from('project_project_types')
+      .upsert(
+        typeIds.map(typeId => ({ project_id: projectId, project_type_id: typeId })),
+        { onConflict: 'project_id,project_type_id', ignoreDuplicates: true }
+      );
+
+    if (insertError) throw toDataError(insertError);
+  };
+
+  // Bring the project's rows in the project_assignments table in line with assignees, writing only the
+  // changes like saveProjectTypes; rows that stay the same are left out of the audit log by its trigger
+  const saveAssignees = async (projectId: string, assignees: ProjectAssignee[]) => {
+    const employeeIds = assignees.map(assignee => assignee.employeeId);
+    let removal = supabase
+      .from('project_assignments')
+      .delete()
+      .eq('project_id', projectId);
+    if (employeeIds.length > 0) removal = removal.not('employee_id', 'in', `(${employeeIds.join(',')})`);
+
+    const { error: deleteError } = await removal;
+    if (deleteError) throw toDataError(deleteError);
+    if (assignees.length === 0) return;
+
+    const { error: upsertError } = await supabase
+      .from('project_assignments')
+      .upsert(mapAssigneesToDB(projectId, assignees), { onConflict: 'project_id,employee_id' });
+
+    if (upsertError) throw toDataError(upsertError);
+  };
+
+  // Update only updated_at (update_projects_updated_at sets it to NOW()); null when the project changed since expectedUpdatedAt
+  const touch = async (id: string, expectedUpdatedAt?: string) => {
+    let query = supabase.from('projects').update({ updated_at: new Date().toISOString() }).eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select(PROJECT_SELECT).maybeSingle();
+    if (error) throw toDataError(error);
+    return data ? mapProjectFromDB(data) : null;
+  };
+
+  return {
+    ...table,
+
+    async insert(project) {
+      const saved = await table.insert(project);
+      await saveProjectTypes(saved.id, project.projectTypes);
+      await saveAssignees(saved.id, project.assignees);
+      // Saving the links moved updated_at on (touch_project_on_link_change)
+      return (await table.get(saved.id)) ?? { ...saved, projectTypes: project.projectTypes, assignees: project.assignees };
+    },
+
+    async update(id, changes, expectedUpdatedAt) {
+      const row = mapProjectToDB(changes);
+      delete row.id;
+      const savesLinks = changes.projectTypes !== undefined || changes.assignees !== undefined;
+
+      // PostgREST returns no row for an empty update, so a change of only types or assignees touches
+      // updated_at instead; that still fails when someone else saved the project first
+      const saved =
+        Object.keys(row).length > 0 || !savesLinks
+          ? await table.update(id, changes, expectedUpdatedAt)
+          : await touch(id, expectedUpdatedAt);
+      if (!saved || !savesLinks) return saved;
+
+      if (changes.projectTypes !== undefined) await saveProjectTypes(id, changes.projectTypes);
+      if (changes.assignees !== undefined) await saveAssignees(id, changes.assignees);
+      // Saving the links moved updated_at on again; the next save is checked against that version
+      return (await table.get(id)) ?? {
+        ...saved,
+        projectTypes: changes.projectTypes ?? saved.projectTypes,
+        assignees: changes.assignees ?? saved.assignees,
+      };
+    },
+
+    async allocateNumber() {
+      const { data, error } = await supabase.rpc('allocate_project_number');
+      if (error) throw toDataError(error);
+      if (typeof data !== 'string') throw new DataError('allocate_project_number returned no project number');
+      return data;
+    },
+
+    // Row payloads carry no joined data, so payment, type and assignee changes only name the project
+    subscribe(listener) {
+      return watchTables(supabase, 'projects', {
+        projects: payload => listener(toRecordChange(payload, mapProjectFromDB)),
+        project_payments: payload => {
+          // Payments are voided rather than deleted, so deletes only come from a cascade
+          if (payload.eventType !== 'DELETE' && payload.new.project_id) listener({ kind: 'update', id: payload.new.project_id });
+        },
+        project_project_types: payload => {
+          const projectId = payload.eventType === 'DELETE' ? payload.old.project_id : payload.new.project_id;
+          if (projectId) listener({ kind: 'update', id: projectId });
+        },
+        project_assignments: payload => {
+          const projectId = payload.eventType === 'DELETE' ? payload.old.project_id : payload.new.project_id;
+          if (projectId) listener({ kind: 'update', id: projectId });
+        },
+      });
+    },
+  };
+};
+
+const createOrganizationRepository = (supabase: SupabaseClient): OrganizationRepository => ({
+  ...createTableRepository(supabase, {
+    table: 'organizations',
+    order: { column: 'name', ascending: true },
+    fromRow: mapOrganizationFromDB,
+    toRow: mapOrganizationToDB,
+  }),
+
+  async merge(targetId, sourceIds) {
+    const { error } = await supabase.rpc('merge_organizations', {
+      target_id: targetId,
+      source_ids: sourceIds,
+    });
+    if (error) throw toDataError(error);
+  },
+});
+
+const createPayoutRepository = (supabase: SupabaseClient): PayoutRepository => {
+  const table = createTableRepository(supabase, {
+    table: 'employee_payouts',
+    select: '*, employee_payout_items(*)',
+    order: { column: 'payout_date', ascending: false },
+    fromRow: mapPayoutFromDB,
+    toRow: payout => ({
+      id: payout.id,
+      employee_id: payout.employeeId,
+      payout_date: payout.payoutDate,
+      amount: payout.amount,
+      method: payout.method,
+      reference: payout.reference || null,
+      notes: payout.notes || null,
+    }),
+  });
+
+  return {
+    list: table.list,
+    remove: table.remove,
+
+    // Save a payout and the project amounts it covers
+    async insert(payout) {
+      const saved = await table.insert(payout);
+
+      const { data: items, error: itemsError } = await supabase
+        .from('employee_payout_items')
+        .insert(payout.items.map(item => ({
+          id: item.id,
+          payout_id: saved.id,
+          project_id: item.projectId,
+          amount: item.amount,
+        })))
+        .select();
+
+      if (itemsError) {
+        // Don't leave a payout behind that settles nothing
+        await supabase.from('employee_payouts').delete().eq('id', saved.id);
+        throw toDataError(itemsError);
+      }
+
+      return { ...saved, items: (items || []).map(mapPayoutItemFromDB) };
+    },
+  };
+};
+
+// The single app_settings row
+const createSettingsRepository = (supabase: SupabaseClient): SettingsRepository => ({
+  async get() {
+    const { data, error } = await supabase.from('app_settings').select('*').single();
+    if (error) throw toDataError(error);
+    return mapAppSettingsFromDB(data);
+  },
+
+  async update(changes) {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .update(mapAppSettingsToDB(changes))
+      .eq('id', true)
+      .select()
+      .single();
+    if (error) throw toDataError(error);
+    return mapAppSettingsFromDB(data);
+  },
+});
+
+export const createSupabaseBackend = (url: string, anonKey: string): DataBackend => {
+  if (!url || !anonKey) {
+    throw new Error('Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY, or VITE_DATA_BACKEND=local to run without Supabase');
+  }
+  const supabase = createClient(url, anonKey);
+
+  return {
+    remote: true,
+
+    async ping() {
+      const { error } = await supabase.from('employees').select('id').limit(1);
+      if (error) throw toDataError(error);
+    },
+
+    projects: createProjectRepository(supabase),
+    payments: createTableRepository(supabase, {
+      table: 'project_payments',
+      order: { column: 'payment_date', ascending: true },
+      fromRow: mapPaymentFromDB,
+      toRow: mapPaymentToDB,
+    }),
+    projectTypes: createTableRepository(supabase, {
+      table: 'project_types',
+      order: { column: 'created_at', ascending: true },
+      fromRow: mapProjectTypeFromDB,
+      toRow: mapProjectTypeToDB,
+    }),
+    employees: createTrashRepository(supabase, {
+      table: 'employees',
+      order: { column: 'created_at', ascending: false },
+      fromRow: mapEmployeeFromDB,
+      toRow: mapEmployeeToDB,
+    }),
+    clients: createTableRepository(supabase, {
+      table: 'clients',
+      order: { column: 'name', ascending: true },
+      fromRow: mapClientFromDB,
+      toRow: mapClientToDB,
+    }),
+    organizations: createOrganizationRepository(supabase),
+    payouts: createPayoutRepository(supabase),
+    settings: createSettingsRepository(supabase),
+    admin: createAdminRepository(supabase),
+    log: createLogRepository(supabase),
+  };
+};
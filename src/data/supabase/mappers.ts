@@ -0,0 +1,326 @@
+import { z } from 'zod';
+import {
+  AdminProfile,
+  AdminUser,
+  AppSettings,
+  Client,
+  Employee,
+  EmployeePayout,
+  EmployeePayoutItem,
+  LogEntry,
+  Organization,
+  Project,
+  ProjectAssignee,
+  ProjectPayment,
+  ProjectType,
+} from '../../types';
+import {
+  AdminRow,
+  ClientRow,
+  PaymentRow,
+  PayoutItemRow,
+  ProjectAssignmentRow,
+  ProjectTypeRow,
+  ASSIGNEE_ROLES,
+  adminRowSchema,
+  appSettingsRowSchema,
+  clientRowSchema,
+  employeeRowSchema,
+  logRowSchema,
+  organizationRowSchema,
+  paymentRowSchema,
+  payoutItemRowSchema,
+  payoutRowSchema,
+  projectRowSchema,
+  projectTypeRowSchema,
+} from '../../types/database';
+import { DataError } from '../types';
+
+// Row mappers between the snake_case tables and the app's types. The ...FromDB mappers validate the
+// row against its schema first; the ...ToDB mappers take partial records and only write the fields
+// that are set, so they serve inserts and updates alike.
+
+// Check a row against its table's schema; a malformed row is reported rather than shown with gaps
+const parseRow = <S extends z.ZodTypeAny>(schema: S, table: string, row: unknown): z.output<S> => {
+  const result = schema.safeParse(row);
+  if (result.success) return result.data;
+
+  const problems = result.error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`).join('; ');
+  console.error(`Malformed ${table} row:`, row, result.error.issues);
+  throw new DataError(`Malformed ${table} row (${problems})`, 'malformed_row');
+};
+
+// Map database row to ProjectType object
+const toProjectType = (type: ProjectTypeRow): ProjectType => ({
+  id: type.id,
+  name: type.name,
+  createdAt: type.created_at ?? undefined,
+  updatedAt: type.updated_at ?? undefined,
+});
+
+export const mapProjectTypeFromDB = (row: unknown) => toProjectType(parseRow(projectTypeRowSchema, 'project_types', row));
+
+export const mapProjectTypeToDB = (type: Partial<ProjectType>) => {
+  const row: Record<string, unknown> = {};
+  if (type.id !== undefined) row.id = type.id;
+  if (type.name !== undefined) row.name = type.name.trim();
+  return row;
+};
+
+// Map database row to ProjectPayment object
+const toPayment = (payment: PaymentRow): ProjectPayment => ({
+  id: payment.id,
+  projectId: payment.project_id,
+  paymentDate: payment.payment_date,
+  amount: payment.amount,
+  method: payment.method,
+  reference: payment.reference || '',
+  voidedAt: payment.voided_at,
+  voidReason: payment.void_reason,
+  createdAt: payment.created_at ?? undefined,
+  updatedAt: payment.updated_at ?? undefined,
+});
+
+export const mapPaymentFromDB = (row: unknown) => toPayment(parseRow(paymentRowSchema, 'project_payments', row));
+
+export const mapPaymentToDB = (payment: Partial<ProjectPayment>) => {
+  const row: Record<string, unknown> = {};
+  if (payment.id !== undefined) row.id = payment.id;
+  if (payment.projectId !== undefined) row.project_id = payment.projectId;
+  if (payment.paymentDate !== undefined) row.payment_date = payment.paymentDate;
+  if (payment.amount !== undefined) row.amount = payment.amount;
+  if (payment.method !== undefined) row.method = payment.method;
+  if (payment.reference !== undefined) row.reference = payment.reference || null;
+  if (payment.voidedAt !== undefined) row.voided_at = payment.voidedAt;
+  if (payment.voidReason !== undefined) row.void_reason = payment.voidReason || null;
+  return row;
+};
+
+// Map project_assignments row to ProjectAssignee object
+const toAssignee = (assignment: ProjectAssignmentRow): ProjectAssignee => ({
+  employeeId: assignment.employee_id,
+  role: assignment.role,
+  share: assignment.share,
+});
+
+// Rows for the project_assignments table; the project's assignees replace whatever was there
+export const mapAssigneesToDB = (projectId: string, assignees: ProjectAssignee[]) =>
+  assignees.map(assignee => ({
+    project_id: projectId,
+    employee_id: assignee.employeeId,
+    role: assignee.role,
+    share: assignee.share,
+  }));
+
+// Map database row to Project object; rows from realtime events carry no payments, client or types
+export const mapProjectFromDB = (row: unknown): Project => {
+  const project = parseRow(projectRowSchema, 'projects', row);
+  return {
+    id: project.id,
+    projectId: project.project_id,
+    clientId: project.client_id,
+    clientName: project.clients?.name ?? project.client_name,
+    clientUniOrg: project.clients?.uni_org ?? project.client_uni_org ?? '',
+    projectTypes: (project.project_project_types || [])
+      .map(link => toProjectType(link.project_types))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    deadlineDate: project.deadline_date ?? '',
+    price: project.price,
+    advance: project.advance,
+    assignees: (project.project_assignments || [])
+      .sort((a, b) => ASSIGNEE_ROLES.indexOf(a.role) - ASSIGNEE_ROLES.indexOf(b.role) || (a.created_at ?? '').localeCompare(b.created_at ?? ''))
+      .map(toAssignee),
+    paymentOfEmp: project.payment_of_emp,
+    status: project.status,
+    fastDeliver: project.fast_deliver,
+    deliveredAt: project.delivered_at,
+    deletedAt: project.deleted_at,
+    payments: (project.project_payments || []).map(toPayment).sort((a, b) => a.paymentDate.localeCompare(b.paymentDate)),
+    createdAt: project.created_at ?? undefined,
+    updatedAt: project.updated_at ?? undefined,
+  };
+};
+
+// Project types live in the project_project_types join table, assignees in project_assignments and payments in their own table
+export const mapProjectToDB = (project: Partial<Project>) => {
+  const row: Record<string, unknown> = {};
+  if (project.id !== undefined) row.id = project.id;
+  if (project.projectId !== undefined) row.project_id = project.projectId;
+  if (project.clientId !== undefined) row.client_id = project.clientId || null;
+  if (project.clientName !== undefined) row.client_name = project.clientName;
+  if (project.clientUniOrg !== undefined) row.client_uni_org = project.clientUniOrg;
+  if (project.deadlineDate !== undefined) row.deadline_date = project.deadlineDate || null;
+  if (project.price !== undefined) row.price = project.price;
+  if (project.advance !== undefined) row.advance = project.advance;
+  if (project.paymentOfEmp !== undefined) row.payment_of_emp = project.paymentOfEmp;
+  if (project.status !== undefined) row.status = project.status;
+  if (project.fastDeliver !== undefined) row.fast_deliver = project.fastDeliver;
+  if (project.deletedAt !== undefined) row.deleted_at = project.deletedAt;
+  return row;
+};
+
+// Map database row to Employee object
+export const mapEmployeeFromDB = (row: unknown): Employee => {
+  const employee = parseRow(employeeRowSchema, 'employees', row);
+  return {
+    id: employee.id,
+    employeeId: employee.employee_id,
+    birthday: employee.birthday ?? '',
+    firstName: employee.first_name,
+    lastName: employee.last_name,
+    position: employee.position ?? '',
+    address: employee.address ?? '',
+    whatsappNumber: employee.whatsapp ?? '',
+    emailAddress: employee.email ?? '',
+    qualifications: employee.qualifications ?? '',
+    status: employee.status,
+    deletedAt: employee.deleted_at,
+    createdAt: employee.created_at ?? undefined,
+    updatedAt: employee.updated_at ?? undefined,
+  };
+};
+
+export const mapEmployeeToDB = (employee: Partial<Employee>) => {
+  const row: Record<string, unknown> = {};
+  if (employee.id !== undefined) row.id = employee.id;
+  if (employee.employeeId !== undefined) row.employee_id = employee.employeeId;
+  if (employee.birthday !== undefined) row.birthday = employee.birthday;
+  if (employee.firstName !== undefined) row.first_name = employee.firstName;
+  if (employee.lastName !== undefined) row.last_name = employee.lastName;
+  if (employee.position !== undefined) row.position = employee.position;
+  if (employee.address !== undefined) row.address = employee.address;
+  if (employee.whatsappNumber !== undefined) row.whatsapp = employee.whatsappNumber;
+  if (employee.emailAddress !== undefined) row.email = employee.emailAddress;
+  if (employee.qualifications !== undefined) row.qualifications = employee.qualifications;
+  if (employee.status !== undefined) row.status = employee.status;
+  if (employee.deletedAt !== undefined) row.deleted_at = employee.deletedAt;
+  return row;
+};
+
+// Map database row to Client object
+const toClient = (client: ClientRow): Client => ({
+  id: client.id,
+  name: client.name,
+  uniOrg: client.uni_org || '',
+  organizationId: client.organization_id || null,
+  email: client.email || '',
+  phone: client.phone || '',
+  whatsappNumber: client.whatsapp_number || '',
+  notes: client.notes || '',
+  createdAt: client.created_at ?? undefined,
+  updatedAt: client.updated_at ?? undefined,
+});
+
+export const mapClientFromDB = (row: unknown) => toClient(parseRow(clientRowSchema, 'clients', row));
+
+// A trigger sets organization_id from uni_org, so it is never written directly
+export const mapClientToDB = (client: Partial<Client>) => {
+  const row: Record<string, unknown> = {};
+  if (client.id !== undefined) row.id = client.id;
+  if (client.name !== undefined) row.name = client.name.trim();
+  if (client.uniOrg !== undefined) row.uni_org = client.uniOrg.trim() || null;
+  if (client.email !== undefined) row.email = client.email.trim() || null;
+  if (client.phone !== undefined) row.phone = client.phone.trim() || null;
+  if (client.whatsappNumber !== undefined) row.whatsapp_number = client.whatsappNumber.trim() || null;
+  if (client.notes !== undefined) row.notes = client.notes.trim() || null;
+  return row;
+};
+
+// Map database row to Organization object
+export const mapOrganizationFromDB = (row: unknown): Organization => {
+  const organization = parseRow(organizationRowSchema, 'organizations', row);
+  return {
+    id: organization.id,
+    name: organization.name,
+    createdAt: organization.created_at ?? undefined,
+    updatedAt: organization.updated_at ?? undefined,
+  };
+};
+
+export const mapOrganizationToDB = (organization: Partial<Organization>) => {
+  const row: Record<string, unknown> = {};
+  if (organization.id !== undefined) row.id = organization.id;
+  if (organization.name !== undefined) row.name = organization.name.trim();
+  return row;
+};
+
+// Map database row to EmployeePayoutItem object
+const toPayoutItem = (item: PayoutItemRow): EmployeePayoutItem => ({
+  id: item.id,
+  payoutId: item.payout_id,
+  projectId: item.project_id,
+  amount: item.amount,
+});
+
+export const mapPayoutItemFromDB = (row: unknown) => toPayoutItem(parseRow(payoutItemRowSchema, 'employee_payout_items', row));
+
+// Map database row to EmployeePayout object
+export const mapPayoutFromDB = (row: unknown): EmployeePayout => {
+  const payout = parseRow(payoutRowSchema, 'employee_payouts', row);
+  return {
+    id: payout.id,
+    employeeId: payout.employee_id,
+    payoutDate: payout.payout_date,
+    amount: payout.amount,
+    method: payout.method,
+    reference: payout.reference || '',
+    notes: payout.notes || '',
+    items: (payout.employee_payout_items || []).map(toPayoutItem),
+    createdAt: payout.created_at ?? undefined,
+    updatedAt: payout.updated_at ?? undefined,
+  };
+};
+
+// Map database row to AdminUser object; lastLogin comes from the log table
+const toAdminUser = (user: AdminRow): AdminUser => ({
+  id: user.id,
+  userId: user.user_id,
+  email: user.email,
+  role: user.role,
+  active: user.active,
+  createdAt: user.created_at ?? undefined,
+});
+
+export const mapAdminUserFromDB = (row: unknown) => toAdminUser(parseRow(adminRowSchema, 'admin', row));
+
+// Map the id, email and role selected for the signed-in admin to AdminProfile
+export const mapAdminProfileFromDB = (row: unknown): AdminProfile =>
+  parseRow(adminRowSchema.pick({ id: true, email: true, role: true }), 'admin', row);
+
+const toCamelCase = (column: string) => column.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+// Map database row to LogEntry object; changed columns are named like the app's fields
+export const mapLogEntryFromDB = (row: unknown): LogEntry => {
+  const entry = parseRow(logRowSchema, 'log', row);
+  return {
+    id: entry.id,
+    adminId: entry.admin_id,
+    adminEmail: entry.admin_email ?? '',
+    action: entry.action,
+    entityType: entry.entity_type,
+    entityId: entry.entity_id,
+    changes: entry.changes
+      ? Object.fromEntries(
+          Object.entries(entry.changes).map(([column, change]) => [toCamelCase(column), { old: change.old ?? null, new: change.new ?? null }])
+        )
+      : null,
+    createdAt: entry.created_at,
+  };
+};
+
+// Map the app_settings row to AppSettings object
+export const mapAppSettingsFromDB = (row: unknown): AppSettings => {
+  const settings = parseRow(appSettingsRowSchema, 'app_settings', row);
+  return {
+    projectNumberPrefix: settings.project_number_prefix,
+    projectNumberPadding: settings.project_number_padding,
+    updatedAt: settings.updated_at ?? undefined,
+  };
+};
+
+export const mapAppSettingsToDB = (settings: Partial<AppSettings>) => {
+  const row: Record<string, unknown> = {};
+  if (settings.projectNumberPrefix !== undefined) row.project_number_prefix = settings.projectNumberPrefix.trim();
+  if (settings.projectNumberPadding !== undefined) row.project_number_padding = settings.projectNumberPadding;
+  return row;
+};
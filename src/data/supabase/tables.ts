@@ -0,0 +1,123 @@
+import { RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
+import { DataError, RecordChange, Repository, TrashRepository, Unsubscribe } from '../types';
+
+// Rows are checked by the table's mapper; only the keys are read before that
+type ChangePayload = RealtimePostgresChangesPayload<{ id: string; project_id?: string; [column: string]: unknown }>;
+
+export const toDataError = (error: { message: string; code?: string }) => new DataError(error.message, error.code);
+
+// Listen to changes of one or more tables on a channel of its own; supabase.channel() returns the
+// existing channel for a name already in use, so every subscriber gets a unique one
+export const watchTables = (
+  supabase: SupabaseClient,
+  name: string,
+  handlers: Record<string, (payload: ChangePayload) => void>
+): Unsubscribe => {
+  const channel = supabase.channel(`${name}_changes_${crypto.randomUUID()}`);
+  Object.entries(handlers).forEach(([table, handler]) => {
+    channel.on('postgres_changes', { event: '*', schema: 'public', table }, handler);
+  });
+  channel.subscribe();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// Deleted rows only carry their primary key. A row the mapper rejects is reported and the change passed on
+// without it, like the changes of joined tables: subscribers that reload the record get the error from get()
+export const toRecordChange = <T>(payload: ChangePayload, fromRow: (row: unknown) => T): RecordChange<T> => {
+  if (payload.eventType === 'DELETE') return { kind: 'delete', id: payload.old.id ?? '' };
+
+  const kind = payload.eventType === 'INSERT' ? 'insert' : 'update';
+  try {
+    return { kind, id: payload.new.id, record: fromRow(payload.new) };
+  } catch (err) {
+    console.error('Error in realtime change:', err);
+    return { kind, id: payload.new.id };
+  }
+};
+
+export interface TableOptions<T> {
+  table: string;
+  select?: string;
+  order: { column: string; ascending: boolean };
+  fromRow: (row: unknown) => T;
+  toRow: (record: Partial<T>) => Record<string, unknown>;
+}
+
+// Repository over a single table with an id primary key and an updated_at column
+export const createTableRepository = <T extends { id: string }>(
+  supabase: SupabaseClient,
+  { table, select = '*', order, fromRow, toRow }: TableOptions<T>
+): Repository<T> => ({
+  async list() {
+    const { data, error } = await supabase.from(table).select(select).order(order.column, { ascending: order.ascending });
+    if (error) throw toDataError(error);
+    return (data || []).map(fromRow);
+  },
+
+  async get(id) {
+    const { data, error } = await supabase.from(table).select(select).eq('id', id).maybeSingle();
+    if (error) throw toDataError(error);
+    return data ? fromRow(data) : null;
+  },
+
+  async insert(record) {
+    const { data, error } = await supabase.from(table).insert([toRow(record)]).select(select).single();
+    if (error) throw toDataError(error);
+    return fromRow(data);
+  },
+
+  async update(id, changes, expectedUpdatedAt) {
+    const row = toRow(changes);
+    delete row.id;
+
+    // Records created offline have no updated_at yet and are saved unconditionally
+    let query = supabase.from(table).update(row).eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select(select).maybeSingle();
+    if (error) throw toDataError(error);
+    return data ? fromRow(data) : null;
+  },
+
+  async remove(id) {
+    const { error } = await supabase.from(table).delete().eq('id', id);
+    if (error) throw toDataError(error);
+  },
+
+  subscribe(listener) {
+    return watchTables(supabase, table, { [table]: payload => listener(toRecordChange(payload, fromRow)) });
+  },
+});
+
+// Repository over a table with a deleted_at column; list() reads the rows outside the trash
+export const createTrashRepository = <T extends { id: string; deletedAt?: string | null }>(
+  supabase: SupabaseClient,
+  options: TableOptions<T>
+): TrashRepository<T> => {
+  const { table, select = '*', order, fromRow } = options;
+
+  return {
+    ...createTableRepository(supabase, options),
+
+    async list() {
+      const { data, error } = await supabase
+        .from(table)
+        .select(select)
+        .is('deleted_at', null)
+        .order(order.column, { ascending: order.ascending });
+      if (error) throw toDataError(error);
+      return (data || []).map(fromRow);
+    },
+
+    async listDeleted() {
+      const { data, error } = await supabase
+        .from(table)
+        .select(select)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+      if (error) throw toDataError(error);
+      return (data || []).map(fromRow);
+    },
+  };
+};
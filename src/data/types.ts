@@ -0,0 +1,145 @@
+import {
+  AdminProfile,
+  AppSettings,
+  AdminUser,
+  Client,
+  Employee,
+  EmployeePayout,
+  LogEntry,
+  Organization,
+  Project,
+  ProjectPayment,
+  ProjectType,
+  Role,
+} from '../types';
+
+// Failed reads and writes; code is the Postgres error code where there is one (23505 unique, 23503 foreign key)
+export class DataError extends Error {
+  code?: string;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = 'DataError';
+    this.code = code;
+  }
+}
+
+export const errorCode = (error: unknown) => (error instanceof DataError ? error.code : undefined);
+
+// A change saved by anyone, delivered like a Supabase realtime event: after the write has returned
+export interface RecordChange<T> {
+  kind: 'insert' | 'update' | 'delete';
+  id: string;
+  record?: T; // the saved record, when the backend sends it along
+}
+
+export type Unsubscribe = () => void;
+
+// A table of records whose IDs are chosen by the caller, so queued offline inserts and later edits agree
+export interface Repository<T extends { id: string }> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  insert(record: T): Promise<T>;
+  // Resolves null when no record matched: it was deleted, or saved by someone else after expectedUpdatedAt
+  update(id: string, changes: Partial<T>, expectedUpdatedAt?: string): Promise<T | null>;
+  remove(id: string): Promise<void>;
+  subscribe(listener: (change: RecordChange<T>) => void): Unsubscribe;
+}
+
+// Records are moved to the trash by setting deletedAt with update(); list() leaves them out and
+// remove() deletes them for good
+export interface TrashRepository<T extends { id: string; deletedAt?: string | null }> extends Repository<T> {
+  // Records in the trash, most recently deleted first
+  listDeleted(): Promise<T[]>;
+}
+
+// Projects are read with their payments and types; insert and update also save projectTypes.
+// Changes to a project's payments or types are reported as updates without a record.
+export interface ProjectRepository extends TrashRepository<Project> {
+  // Reserve the next project number in the configured format; a number is never handed out twice
+  allocateNumber(): Promise<string>;
+}
+
+export interface OrganizationRepository extends Repository<Organization> {
+  // Move every client of the source organizations to the target and delete the sources
+  merge(targetId: string, sourceIds: string[]): Promise<void>;
+}
+
+// Payouts are saved together with their items and never edited
+export type PayoutRepository = Pick<Repository<EmployeePayout>, 'list' | 'insert' | 'remove'>;
+
+export interface SettingsRepository {
+  get(): Promise<AppSettings>;
+  update(changes: Partial<Omit<AppSettings, 'updatedAt'>>): Promise<AppSettings>;
+}
+
+export interface AuthSession {
+  userId: string;
+  email: string | null;
+}
+
+export type AuthEvent = 'SIGNED_IN' | 'SIGNED_OUT' | 'PASSWORD_RECOVERY' | 'TOKEN_REFRESHED' | 'USER_UPDATED';
+
+export interface AdminInvite {
+  email: string;
+  role: Role;
+  password?: string; // without one the user is emailed an invite link
+  redirectTo: string;
+}
+
+// Sign-in sessions and the admin rows that decide who may use the app
+export interface AdminRepository {
+  getSession(): Promise<AuthSession | null>;
+  onAuthChange(listener: (event: AuthEvent, session: AuthSession | null) => void): Unsubscribe;
+  // Resolves false when the email and password do not match an account
+  signIn(email: string, password: string): Promise<boolean>;
+  signOut(scope?: 'others'): Promise<void>;
+  updatePassword(password: string): Promise<void>;
+  sendPasswordReset(email: string, redirectTo: string): Promise<void>;
+  // Active admin row linked to a signed-in user
+  findActive(userId: string): Promise<AdminProfile | null>;
+  list(): Promise<AdminUser[]>;
+  update(id: string, changes: Partial<Pick<AdminUser, 'role' | 'active'>>): Promise<void>;
+  invite(invite: AdminInvite): Promise<void>;
+}
+
+// Entries have to match every field that is set
+export interface LogFilter {
+  action?: string;
+  actions?: string[]; // any of these
+  adminId?: string;
+  entityType?: string;
+  entityId?: string;
+  adminEmail?: string; // part of the email, in any case
+  from?: string; // ISO timestamp, inclusive
+  before?: string; // ISO timestamp, exclusive
+}
+
+export interface LogPage {
+  entries: LogEntry[];
+  total: number; // entries matching the filter on all pages
+}
+
+export interface LogRepository {
+  insert(entry: Omit<LogEntry, 'id' | 'createdAt'>): Promise<void>;
+  // Newest first; only the first limit entries when a limit is given
+  list(filter?: LogFilter, limit?: number): Promise<LogEntry[]>;
+  // Page numbers start at 0
+  listPage(filter: LogFilter, page: number, pageSize: number): Promise<LogPage>;
+}
+
+export interface DataBackend {
+  remote: boolean; // reached over the network, so it can be offline
+  // Throws when the backend cannot be reached
+  ping(): Promise<void>;
+  projects: ProjectRepository;
+  payments: Repository<ProjectPayment>;
+  projectTypes: Repository<ProjectType>;
+  employees: TrashRepository<Employee>;
+  clients: Repository<Client>;
+  organizations: OrganizationRepository;
+  payouts: PayoutRepository;
+  settings: SettingsRepository;
+  admin: AdminRepository;
+  log: LogRepository;
+}
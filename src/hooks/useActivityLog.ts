@@ -0,0 +1,74 @@
+import { useState, useEffect } from 'react';
+import { LogEntry } from '../types';
+import { backend, LogFilter } from '../data';
+
+export const ACTIVITY_PAGE_SIZE = 25;
+
+// Entries asked for per request when exporting; PostgREST may return fewer (its max-rows setting)
+const EXPORT_BATCH_SIZE = 1000;
+
+// One page of the log table for Settings > Activity, newest first. Pass a memoized filter: a new
+// object loads the page again.
+export const useActivityLog = (filter: LogFilter, page: number) => {
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloads, setReloads] = useState(0);
+
+  useEffect(() => {
+    // A slower answer for an earlier filter or page must not replace the current one
+    let current = true;
+
+    const fetchPage = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await backend.log.listPage(filter, page, ACTIVITY_PAGE_SIZE);
+        if (!current) return;
+        setEntries(result.entries);
+        setTotal(result.total);
+        console.log('Fetched activity page:', page, result);
+      } catch (err) {
+        console.error('Error in fetchActivityPage:', err);
+        if (current) setError('Failed to fetch the activity log');
+      } finally {
+        if (current) setLoading(false);
+      }
+    };
+
+    fetchPage();
+    return () => {
+      current = false;
+    };
+  }, [filter, page, reloads]);
+
+  // Every entry matching the filter, for the CSV export; null when they could not be loaded
+  const fetchAll = async (): Promise<LogEntry[] | null> => {
+    try {
+      const all: LogEntry[] = [];
+      let batchSize = EXPORT_BATCH_SIZE;
+      for (;;) {
+        const result = await backend.log.listPage(filter, all.length / batchSize, batchSize);
+        all.push(...result.entries);
+        if (result.entries.length === 0 || all.length >= result.total) return all;
+        // A short first batch is the server's row cap; ask for that many from then on so the pages line up
+        if (all.length === result.entries.length) batchSize = result.entries.length;
+      }
+    } catch (err) {
+      console.error('Error in fetchAll:', err);
+      setError('Failed to export the activity log');
+      return null;
+    }
+  };
+
+  return {
+    entries,
+    total,
+    loading,
+    error,
+    fetchAll,
+    refetch: () => setReloads(count => count + 1),
+  };
+};
@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AdminUser, FieldChanges, Role } from '../types';
+import { backend } from '../data';
+import { logAction, SET_PASSWORD_REDIRECT } from '../auth';
+
+export const useAdminUsers = () => {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch all admin rows together with each one's latest successful login. One newest entry per admin:
+  // all sign-ins together would run past the server's row limit and miss the older accounts.
+  const fetchUsers = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const admins = await backend.admin.list();
+      const lastLogins = await Promise.all(
+        admins.map(user => backend.log.list({ action: 'login_success', adminId: user.id }, 1))
+      );
+
+      const fetchedUsers = admins.map((user, index) => ({ ...user, lastLogin: lastLogins[index][0]?.createdAt ?? null }));
+      setUsers(fetchedUsers);
+      console.log('Fetched users:', fetchedUsers);
+    } catch (err) {
+      console.error('Error in fetchUsers:', err);
+      setError('Failed to fetch users');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Without a password the user is emailed an invite link; with one the account is ready to use
+  const inviteUser = async (email: string, role: Role, password?: string) => {
+    try {
+      setError(null);
+
+      await backend.admin.invite({ email, role, password, redirectTo: SET_PASSWORD_REDIRECT });
+      await logAction(password ? 'user_created' : 'user_invited');
+      await fetchUsers();
+    } catch (err) {
+      console.error('Error in inviteUser:', err);
+      setError('Failed to invite user');
+      throw err;
+    }
+  };
+
+  // Change a user's role or (de)activate them; the log entries name the account and its old and new values
+  const updateUser = async (id: string, updates: Partial<Pick<AdminUser, 'role' | 'active'>>) => {
+    try {
+      setError(null);
+
+      const previous = users.find(user => user.id === id);
+      await backend.admin.update(id, updates);
+      setUsers(prev => prev.map(user => (user.id === id ? { ...user, ...updates } : user)));
+
+      const account: FieldChanges = {
+        id: { old: id, new: id },
+        email: { old: previous?.email ?? null, new: previous?.email ?? null },
+      };
+      if (updates.role !== undefined) {
+        await logAction('user_role_changed', undefined, { ...account, role: { old: previous?.role ?? null, new: updates.role } });
+      }
+      if (updates.active !== undefined) {
+        await logAction(updates.active ? 'user_reactivated' : 'user_deactivated', undefined, {
+          ...account,
+          active: { old: previous?.active ?? null, new: updates.active },
+        });
+      }
+    } catch (err) {
+      console.error('Error in updateUser:', err);
+      setError('Failed to update user');
+      throw err;
+    }
+  };
+
+  // Email the user a link that signs them in and asks for a new password
+  const resetPassword = async (email: string) => {
+    try {
+      setError(null);
+
+      await backend.admin.sendPasswordReset(email, SET_PASSWORD_REDIRECT);
+      await logAction('password_reset_sent');
+    } catch (err) {
+      console.error('Error in resetPassword:', err);
+      setError('Failed to send password reset');
+      throw err;
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  return {
+    users,
+    loading,
+    error,
+    inviteUser,
+    updateUser,
+    resetPassword,
+    refetch: fetchUsers,
+  };
+};
@@ -0,0 +1,60 @@
+import { useState, useEffect } from 'react';
+import { AppSettings } from '../types';
+import { backend, errorCode } from '../data';
+import { readCache, writeCache } from '../store/offline';
+import { DEFAULT_APP_SETTINGS } from '../utils/projectNumbers';
+
+export const useAppSettings = () => {
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_APP_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the settings row; offline, the copy saved on this device is used
+  const fetchSettings = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const fetchedSettings = await backend.settings.get();
+      setSettings(fetchedSettings);
+      writeCache('app_settings', fetchedSettings);
+      console.log('Fetched settings:', fetchedSettings);
+    } catch (err) {
+      console.error('Error in fetchSettings:', err);
+      const cached = await readCache<AppSettings>('app_settings');
+      if (cached) setSettings(cached);
+      else setError('Failed to fetch settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Save changed settings; returns whether they were saved
+  const updateSettings = async (changes: Partial<Omit<AppSettings, 'updatedAt'>>): Promise<boolean> => {
+    try {
+      setError(null);
+
+      const updatedSettings = await backend.settings.update(changes);
+      setSettings(updatedSettings);
+      writeCache('app_settings', updatedSettings);
+      console.log('Updated settings:', updatedSettings);
+      return true;
+    } catch (err) {
+      console.error('Error in updateSettings:', err);
+      setError(errorCode(err) === '23514' ? 'The database refused these settings' : 'Failed to save settings');
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  return {
+    settings,
+    loading,
+    error,
+    updateSettings,
+    refetch: fetchSettings,
+  };
+};
@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import { Client } from '../types';
+import { backend } from '../data';
+
+export const useClients = () => {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch all clients
+  const fetchClients = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const fetchedClients = await backend.clients.list();
+      setClients(fetchedClients);
+      console.log('Fetched clients:', fetchedClients);
+    } catch (err) {
+      console.error('Error in fetchClients:', err);
+      setError('Failed to fetch clients');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Add new client; returns it so a picker can select it straight away
+  const addClient = async (client: Omit<Client, 'id' | 'organizationId'>): Promise<Client | null> => {
+    try {
+      setError(null);
+
+      // The backend links the client to the organization named in uniOrg
+      const newClient = await backend.clients.insert({ ...client, id: crypto.randomUUID(), organizationId: null });
+      setClients(prev => [...prev, newClient].sort((a, b) => a.name.localeCompare(b.name)));
+      console.log('Added new client:', newClient);
+      return newClient;
+    } catch (err) {
+      console.error('Error in addClient:', err);
+      setError('Failed to add client');
+      return null;
+    }
+  };
+
+  // Update client; a database trigger copies name and organization onto the client's projects
+  const updateClient = async (id: string, client: Omit<Client, 'id' | 'organizationId'>) => {
+    try {
+      setError(null);
+
+      const updatedClient = await backend.clients.update(id, client);
+      if (!updatedClient) {
+        setClients(prev => prev.filter(c => c.id !== id));
+        setError('This client was deleted by someone else');
+        return;
+      }
+
+      setClients(prev => prev.map(c => (c.id === id ? updatedClient : c)));
+      console.log('Updated client:', updatedClient);
+    } catch (err) {
+      console.error('Error in updateClient:', err);
+      setError('Failed to update client');
+    }
+  };
+
+  // Delete client; their projects keep the name and organization they were saved with
+  const deleteClient = async (id: string) => {
+    try {
+      setError(null);
+
+      await backend.clients.remove(id);
+      setClients(prev => prev.filter(c => c.id !== id));
+      console.log('Deleted client with ID:', id);
+    } catch (err) {
+      console.error('Error in deleteClient:', err);
+      setError('Failed to delete client');
+    }
+  };
+
+  useEffect(() => {
+    fetchClients();
+  }, []);
+
+  return {
+    clients,
+    loading,
+    error,
+    addClient,
+    updateClient,
+    deleteClient,
+    refetch: fetchClients,
+  };
+};
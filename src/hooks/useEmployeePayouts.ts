@@ -0,0 +1,78 @@
+import { useState, useEffect } from 'react';
+import { EmployeePayout, EmployeePayoutItem } from '../types';
+import { backend } from '../data';
+
+export const useEmployeePayouts = () => {
+  const [payouts, setPayouts] = useState<EmployeePayout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch all payouts together with the projects they settle
+  const fetchPayouts = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const fetchedPayouts = await backend.payouts.list();
+      setPayouts(fetchedPayouts);
+      console.log('Fetched payouts:', fetchedPayouts);
+    } catch (err) {
+      console.error('Error in fetchPayouts:', err);
+      setError('Failed to fetch payouts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Record a payout and the project amounts it covers; returns whether it was saved
+  const addPayout = async (
+    payout: Omit<EmployeePayout, 'id' | 'amount' | 'items'>,
+    items: Omit<EmployeePayoutItem, 'id' | 'payoutId'>[]
+  ): Promise<boolean> => {
+    try {
+      setError(null);
+
+      const id = crypto.randomUUID();
+      const newPayout = await backend.payouts.insert({
+        ...payout,
+        id,
+        amount: items.reduce((sum, item) => sum + item.amount, 0),
+        items: items.map(item => ({ ...item, id: crypto.randomUUID(), payoutId: id })),
+      });
+      setPayouts(prev => [newPayout, ...prev]);
+      console.log('Added payout:', newPayout);
+      return true;
+    } catch (err) {
+      console.error('Error in addPayout:', err);
+      setError('Failed to add payout');
+      return false;
+    }
+  };
+
+  // Delete a payout; its items are removed by the cascade and the projects become unsettled again
+  const deletePayout = async (id: string) => {
+    try {
+      setError(null);
+
+      await backend.payouts.remove(id);
+      setPayouts(prev => prev.filter(payout => payout.id !== id));
+      console.log('Deleted payout with ID:', id);
+    } catch (err) {
+      console.error('Error in deletePayout:', err);
+      setError('Failed to delete payout');
+    }
+  };
+
+  useEffect(() => {
+    fetchPayouts();
+  }, []);
+
+  return {
+    payouts,
+    loading,
+    error,
+    addPayout,
+    deletePayout,
+    refetch: fetchPayouts,
+  };
+};
@@ -1,175 +1,281 @@
 import { useState, useEffect } from 'react';
-import { Employee } from '../types';
-import { supabase } from '../supabaseClient';
+import { Employee, SaveResult } from '../types';
+import { backend, errorCode } from '../data';
+import { ConnectionStatus, onReconnected } from './useSupabaseConnection';
+import { useNotifications } from '../store/notifications';
+import { QueuedChange, isNetworkError, isOffline, onOutboxReplayed, queueMutations, readCache, writeCache } from '../store/offline';
 
-export const useEmployees = () => {
+export const useEmployees = (status: ConnectionStatus) => {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { notify } = useNotifications();
 
-  // Map database row to Employee object
-  const mapEmployeeFromDB = (employee: any): Employee => ({
-    id: employee.id,
-    employeeId: employee.employee_id,
-    birthday: employee.birthday,
-    firstName: employee.first_name,
-    lastName: employee.last_name,
-    position: employee.position,
-    address: employee.address,
-    whatsappNumber: employee.whatsapp,
-    emailAddress: employee.email,
-    qualifications: employee.qualifications,
-    createdAt: employee.created_at,
-  });
-
-  // Map Employee object to database row
-  const mapEmployeeToDB = (employee: Omit<Employee, 'id'>) => ({
-    employee_id: employee.employeeId,
-    birthday: employee.birthday,
-    first_name: employee.firstName,
-    last_name: employee.lastName,
-    position: employee.position,
-    address: employee.address,
-    whatsapp: employee.whatsappNumber,
-    email: employee.emailAddress,
-    qualifications: employee.qualifications,
-  });
-
-  // Fetch all employees from database
-  const fetchEmployees = async () => {
+  // Fetch all employees; background reloads keep the current list on screen
+  const fetchEmployees = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       setError(null);
       
-      const { data, error: fetchError } = await supabase
-        .from('employees')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (fetchError) {
-        console.error('Error fetching employees:', fetchError);
-        setError('Failed to fetch employees');
-        return;
-      }
-
-      const mappedEmployees = (data || []).map(mapEmployeeFromDB);
-      setEmployees(mappedEmployees);
-      console.log('Fetched employees:', mappedEmployees);
+      const fetchedEmployees = await backend.employees.list();
+      setEmployees(fetchedEmployees);
+      console.log('Fetched employees:', fetchedEmployees);
     } catch (err) {
       console.error('Error in fetchEmployees:', err);
-      setError('Failed to fetch employees');
+      if (!(await loadCachedEmployees())) setError('Failed to fetch employees');
     } finally {
       setLoading(false);
     }
   };
 
-  // Add new employee to database
-  const addEmployee = async (employee: Omit<Employee, 'id'>) => {
-    try {
-      setError(null);
-      
-      const employeeData = mapEmployeeToDB(employee);
+  // Show the employees saved on this device when the database cannot be reached
+  const loadCachedEmployees = async () => {
+    const cached = await readCache<Employee[]>('employees');
+    if (!cached) return false;
+    setEmployees(cached);
+    console.log('Loaded cached employees:', cached);
+    return true;
+  };
 
-      const { data, error: insertError } = await supabase
-        .from('employees')
-        .insert([employeeData])
-        .select()
-        .single();
+  // Keep a change made while offline: it is sent once the connection is back. Edits and deletes are
+  // already on screen; additions pass applyLocally to show them.
+  const queueEmployeeChange = async (label: string, change: QueuedChange, applyLocally?: () => void) => {
+    await queueMutations(label, [change]);
+    applyLocally?.();
+  };
 
-      if (insertError) {
-        console.error('Error adding employee:', insertError);
-        setError('Failed to add employee');
-        return;
-      }
+  // Put an employee back where they were after the database refused an optimistic change
+  const restoreEmployee = (previous: Employee, index: number) => {
+    setEmployees(prev =>
+      prev.some(employee => employee.id === previous.id)
+        ? prev.map(employee => (employee.id === previous.id ? previous : employee))
+        : [...prev.slice(0, index), previous, ...prev.slice(index)]
+    );
+  };
+
+  const employeeLabel = (employee: Employee | undefined, id: string) =>
+    employee ? `${employee.firstName} ${employee.lastName}` : id;
 
-      const newEmployee = mapEmployeeFromDB(data);
+  // Add new employee
+  const addEmployee = async (employee: Omit<Employee, 'id'>) => {
+    // The ID is chosen here so a queued insert and later edits of it refer to the same record
+    const employeeData = { ...employee, id: crypto.randomUUID() };
+    const queueAdd = () =>
+      queueEmployeeChange(
+        `Add employee ${employee.firstName} ${employee.lastName}`,
+        { repository: 'employees', op: 'insert', recordId: employeeData.id, targetId: employeeData.id, values: employeeData },
+        () => setEmployees(prev => [employeeData, ...prev])
+      );
+
+    try {
+      if (isOffline(status)) return await queueAdd();
+
+      const newEmployee = await backend.employees.insert(employeeData);
       setEmployees(prev => [newEmployee, ...prev]);
       console.log('Added new employee:', newEmployee);
     } catch (err) {
+      if (isNetworkError(err)) return queueAdd();
       console.error('Error in addEmployee:', err);
-      setError('Failed to add employee');
+      notify(`Failed to add employee ${employee.firstName} ${employee.lastName}`, 'error', { toast: true });
     }
   };
 
-  // Update employee in database
-  const updateEmployee = async (id: string, updates: Partial<Employee>) => {
+  // Reload one employee whose update matched no record.
+  // Returns the employee, null once they no longer exist or are in the trash, or undefined when they could not be loaded.
+  const fetchEmployee = async (id: string): Promise<Employee | null | undefined> => {
     try {
-      setError(null);
-      
-      const updateData: any = {};
-      if (updates.employeeId !== undefined) updateData.employee_id = updates.employeeId;
-      if (updates.birthday !== undefined) updateData.birthday = updates.birthday;
-      if (updates.firstName !== undefined) updateData.first_name = updates.firstName;
-      if (updates.lastName !== undefined) updateData.last_name = updates.lastName;
-      if (updates.position !== undefined) updateData.position = updates.position;
-      if (updates.address !== undefined) updateData.address = updates.address;
-      if (updates.whatsappNumber !== undefined) updateData.whatsapp = updates.whatsappNumber;
-      if (updates.emailAddress !== undefined) updateData.email = updates.emailAddress;
-      if (updates.qualifications !== undefined) updateData.qualifications = updates.qualifications;
-
-      const { data, error: updateError } = await supabase
-        .from('employees')
-        .update(updateData)
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (updateError) {
-        console.error('Error updating employee:', updateError);
-        setError('Failed to update employee');
-        return;
+      const fetchedEmployee = await backend.employees.get(id);
+      // Employees in the trash are not listed
+      const currentEmployee = fetchedEmployee && !fetchedEmployee.deletedAt ? fetchedEmployee : null;
+      setEmployees(prev =>
+        currentEmployee
+          ? prev.map(employee => (employee.id === id ? currentEmployee : employee))
+          : prev.filter(employee => employee.id !== id)
+      );
+      return currentEmployee;
+    } catch (err) {
+      console.error('Error fetching employee:', err);
+      return undefined;
+    }
+  };
+
+  // Update employee. The change shows straight away and is rolled back if the database refuses it.
+  // It only applies to the version saved at baseUpdatedAt (by default the one on screen); if someone else
+  // saved the employee since, nothing is written and the conflict carries their version.
+  const updateEmployee = async (
+    id: string,
+    updates: Partial<Employee>,
+    baseUpdatedAt?: string
+  ): Promise<SaveResult<Employee>> => {
+    const index = employees.findIndex(employee => employee.id === id);
+    const previous = employees[index];
+    const expectedUpdatedAt = baseUpdatedAt ?? previous?.updatedAt;
+    setEmployees(prev => prev.map(employee => (employee.id === id ? { ...employee, ...updates } : employee)));
+
+    const rollBack = (): SaveResult<Employee> => {
+      if (previous) restoreEmployee(previous, index);
+      notify(`Failed to update employee ${employeeLabel(previous, id)}`, 'error', { toast: true });
+      return { status: 'failed' };
+    };
+
+    const queueUpdate = async (): Promise<SaveResult<Employee>> => {
+      await queueEmployeeChange(
+        `Update employee ${employeeLabel(previous, id)}`,
+        { repository: 'employees', op: 'update', recordId: id, targetId: id, values: updates, baseUpdatedAt: expectedUpdatedAt }
+      );
+      return { status: 'saved' };
+    };
+
+    try {
+      if (isOffline(status)) return await queueUpdate();
+
+      const updatedEmployee = await backend.employees.update(id, updates, expectedUpdatedAt);
+
+      // Nothing matched: the employee was saved by someone else since they were loaded, or deleted
+      if (!updatedEmployee) {
+        const current = await fetchEmployee(id);
+        if (current === undefined) return rollBack();
+        if (current === null) {
+          notify(`Employee ${employeeLabel(previous, id)} was deleted by someone else`, 'warning', { toast: true });
+          return { status: 'failed' };
+        }
+        console.log('Stale update of employee:', id);
+        return { status: 'conflict', current };
       }
 
-      const updatedEmployee = mapEmployeeFromDB(data);
       setEmployees(prev => 
         prev.map(employee => 
           employee.id === id ? updatedEmployee : employee
         )
       );
       console.log('Updated employee:', updatedEmployee);
+      return { status: 'saved' };
     } catch (err) {
+      if (isNetworkError(err)) return queueUpdate();
       console.error('Error in updateEmployee:', err);
-      setError('Failed to update employee');
+      return rollBack();
     }
   };
 
-  // Delete employee from database
+  // Move an employee to the trash; they disappear straight away and come back if the delete fails.
+  // The toast offers to undo it; Settings > Trash restores them later or deletes them for good.
   const deleteEmployee = async (id: string) => {
+    const index = employees.findIndex(employee => employee.id === id);
+    const previous = employees[index];
+    const deletedAt = new Date().toISOString();
+    setEmployees(prev => prev.filter(employee => employee.id !== id));
+
+    const queueDelete = () =>
+      queueEmployeeChange(
+        `Delete employee ${employeeLabel(previous, id)}`,
+        { repository: 'employees', op: 'update', recordId: id, targetId: id, values: { deletedAt }, baseUpdatedAt: previous?.updatedAt }
+      );
+
     try {
-      setError(null);
-      
-      const { error: deleteError } = await supabase
-        .from('employees')
-        .delete()
-        .eq('id', id);
-
-      if (deleteError) {
-        console.error('Error deleting employee:', deleteError);
-        setError('Failed to delete employee');
-        return;
-      }
+      if (isOffline(status)) return await queueDelete();
 
-      setEmployees(prev => prev.filter(employee => employee.id !== id));
-      console.log('Deleted employee with ID:', id);
+      const deletedEmployee = await backend.employees.update(id, { deletedAt });
+      console.log('Moved employee to the trash:', id);
+      if (deletedEmployee) {
+        notify(`${employeeLabel(deletedEmployee, id)} moved to the trash`, 'success', {
+          toast: true,
+          action: { label: 'Undo', run: () => restoreDeletedEmployee(deletedEmployee) },
+        });
+      }
     } catch (err) {
+      if (isNetworkError(err)) return queueDelete();
       console.error('Error in deleteEmployee:', err);
-      setError('Failed to delete employee');
+      if (previous) restoreEmployee(previous, index);
+      notify(
+        errorCode(err) === '23503'
+          ? `${employeeLabel(previous, id)} is still assigned to open projects; reassign them first`
+          : `Failed to delete employee ${employeeLabel(previous, id)}`,
+        'error',
+        { toast: true }
+      );
     }
   };
 
+  // Take an employee out of the trash; returns whether they are back in the list
+  const restoreDeletedEmployee = async (employee: Employee): Promise<boolean> => {
+    const showRestored = (restoredEmployee: Employee) =>
+      setEmployees(prev =>
+        [restoredEmployee, ...prev.filter(other => other.id !== restoredEmployee.id)]
+          .sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''))
+      );
+    const queueRestore = async () => {
+      await queueEmployeeChange(
+        `Restore employee ${employeeLabel(employee, employee.id)}`,
+        { repository: 'employees', op: 'update', recordId: employee.id, targetId: employee.id, values: { deletedAt: null } },
+        () => showRestored({ ...employee, deletedAt: null })
+      );
+      return true;
+    };
+
+    try {
+      if (isOffline(status)) return await queueRestore();
+
+      const restoredEmployee = await backend.employees.update(employee.id, { deletedAt: null });
+      if (!restoredEmployee) {
+        notify(`${employeeLabel(employee, employee.id)} was deleted for good`, 'warning', { toast: true });
+        return false;
+      }
+      showRestored(restoredEmployee);
+      console.log('Restored employee:', restoredEmployee);
+      return true;
+    } catch (err) {
+      if (isNetworkError(err)) return queueRestore();
+      console.error('Error in restoreDeletedEmployee:', err);
+      notify(`Failed to restore employee ${employeeLabel(employee, employee.id)}`, 'error', { toast: true });
+      return false;
+    }
+  };
+
+  // Save the list, including changes still waiting in the outbox, for the next offline start
+  useEffect(() => {
+    if (!loading) writeCache('employees', employees);
+  }, [employees, loading]);
+
   // Set up real-time subscriptions
   useEffect(() => {
     fetchEmployees();
 
-    // Create a single channel instance
-    const channel = supabase.channel('employees_changes');
-    
-    // Subscribe to real-time changes
+    // Changes saved by anyone, including our own writes (they replace the record with the same data)
+    const stopChanges = backend.employees.subscribe(change => {
+      if (change.kind === 'delete') {
+        setEmployees(prev => prev.filter(employee => employee.id !== change.id));
+        return;
+      }
+      const changedEmployee = change.record;
+      // The row could not be read; reloading reports it like any failed fetch
+      if (!changedEmployee) {
+        fetchEmployees(false);
+        return;
+      }
+      // Employees in the trash are not listed
+      if (changedEmployee.deletedAt) {
+        setEmployees(prev => prev.filter(employee => employee.id !== changedEmployee.id));
+        return;
+      }
+      setEmployees(prev =>
+        prev.some(employee => employee.id === changedEmployee.id)
+          ? prev.map(employee => (employee.id === changedEmployee.id ? changedEmployee : employee))
+          : [changedEmployee, ...prev]
+      );
+    });
+
+    // Queued changes have reached the database; load the records as the server now has them
+    const stopReplayListener = onOutboxReplayed(() => fetchEmployees(false));
+
+    // Realtime events sent while the connection was down are lost, so reload everything once it is back
+    const stopReconnectListener = onReconnected(() => fetchEmployees(false));
 
     // Cleanup subscription on unmount
     return () => {
       console.log('Cleaning up employees subscription');
-      supabase.removeChannel(channel);
+      stopChanges();
+      stopReplayListener();
+      stopReconnectListener();
     };
   }, []);
 
@@ -180,6 +286,7 @@ export const useEmployees = () => {
     addEmployee,
     updateEmployee,
     deleteEmployee,
-    refetch: fetchEmployees,
+    restoreDeletedEmployee,
+    refetch: () => fetchEmployees(),
   };
 };
\ No newline at end of file
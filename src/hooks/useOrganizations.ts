@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { Organization } from '../types';
+import { backend, errorCode } from '../data';
+
+export const useOrganizations = () => {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch all organizations
+  const fetchOrganizations = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const fetchedOrganizations = await backend.organizations.list();
+      setOrganizations(fetchedOrganizations);
+      console.log('Fetched organizations:', fetchedOrganizations);
+    } catch (err) {
+      console.error('Error in fetchOrganizations:', err);
+      setError('Failed to fetch organizations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Rename an organization; triggers carry the new name to its clients and their projects
+  const renameOrganization = async (id: string, name: string) => {
+    try {
+      setError(null);
+
+      const updatedOrganization = await backend.organizations.update(id, { name: name.trim() });
+      if (!updatedOrganization) {
+        setOrganizations(prev => prev.filter(o => o.id !== id));
+        setError('This organization was deleted by someone else');
+        return;
+      }
+
+      setOrganizations(prev => prev.map(o => (o.id === id ? updatedOrganization : o)));
+      console.log('Updated organization:', updatedOrganization);
+    } catch (err) {
+      console.error('Error in renameOrganization:', err);
+      setError(errorCode(err) === '23505' ? 'An organization with that name already exists' : 'Failed to rename organization');
+    }
+  };
+
+  // Move every client of the source organizations to the target and delete the sources
+  const mergeOrganizations = async (targetId: string, sourceIds: string[]) => {
+    try {
+      setError(null);
+
+      await backend.organizations.merge(targetId, sourceIds);
+      setOrganizations(prev => prev.filter(o => !sourceIds.includes(o.id) || o.id === targetId));
+      console.log('Merged organizations into:', targetId);
+    } catch (err) {
+      console.error('Error in mergeOrganizations:', err);
+      setError('Failed to merge organizations');
+    }
+  };
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, []);
+
+  return {
+    organizations,
+    loading,
+    error,
+    renameOrganization,
+    mergeOrganizations,
+    refetch: fetchOrganizations,
+  };
+};
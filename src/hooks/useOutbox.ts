@@ -0,0 +1,151 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { backend, errorCode, Repository } from '../data';
+import {
+  PendingMutation,
+  getPendingMutations,
+  isNetworkError,
+  notifyOutboxReplayed,
+  removePendingMutation,
+  savePendingMutation,
+  subscribeToOutbox,
+} from '../store/offline';
+import { useNotifications } from '../store/notifications';
+
+type VersionedRecord = { id: string; updatedAt?: string };
+
+type ReplayResult =
+  | { status: 'applied'; saved?: VersionedRecord }
+  | { status: 'offline' }
+  | { status: 'discarded'; reason: string };
+
+const toTime = (timestamp: string) => new Date(timestamp).getTime();
+
+// Apply one queued change. A record that someone else saved after it was edited offline keeps their version:
+// the queued change is made against a version that is no longer current, whatever the device clocks say.
+const applyMutation = async (mutation: PendingMutation): Promise<ReplayResult> => {
+  // Changes queued before the outbox named repositories cannot be replayed
+  if (!mutation.repository) return { status: 'discarded', reason: 'It was saved by an older version of the app' };
+  const repository = backend[mutation.repository] as Repository<VersionedRecord>;
+
+  try {
+    if (mutation.baseUpdatedAt) {
+      const current = await repository.get(mutation.targetId);
+      if (!current) {
+        return mutation.op === 'delete'
+          ? { status: 'applied' }
+          : { status: 'discarded', reason: 'It was deleted by someone else' };
+      }
+      const serverUpdatedAt = toTime(current.updatedAt ?? mutation.baseUpdatedAt);
+      if (serverUpdatedAt !== toTime(mutation.baseUpdatedAt)) {
+        return { status: 'discarded', reason: 'Someone else changed it while you were offline' };
+      }
+    }
+
+    if (mutation.op === 'insert') {
+      return { status: 'applied', saved: await repository.insert(mutation.values as VersionedRecord) };
+    }
+    if (mutation.op === 'update') {
+      // Checked again by the database, in case someone saves it between get() and this update
+      const saved = await repository.update(mutation.targetId, mutation.values ?? {}, mutation.baseUpdatedAt);
+      if (saved) return { status: 'applied', saved };
+      return {
+        status: 'discarded',
+        reason: mutation.baseUpdatedAt ? 'Someone else changed it while you were offline' : 'It was deleted by someone else',
+      };
+    }
+    await repository.remove(mutation.targetId);
+    return { status: 'applied' };
+  } catch (err) {
+    if (isNetworkError(err)) return { status: 'offline' };
+    const code = errorCode(err);
+    // An insert whose response was lost on the way back is already in the database
+    if (mutation.op === 'insert' && code === '23505' && (err as Error).message.includes('_pkey')) {
+      return { status: 'applied' };
+    }
+    console.error('Error replaying queued change:', err);
+    const reason =
+      code === '23505' ? 'It clashes with an existing record'
+      : code === '23503' ? 'Other records still depend on it'
+      : 'The database rejected it';
+    return { status: 'discarded', reason };
+  }
+};
+
+// Replays changes made while offline, oldest first, whenever the shared connection check succeeds
+export const useOutbox = (isConnected: boolean) => {
+  const [pending, setPending] = useState<PendingMutation[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const replayingRef = useRef(false);
+  const { notify } = useNotifications();
+
+  const loadPending = async () => {
+    setPending(await getPendingMutations());
+  };
+
+  // Send every queued change in order; stops at the first one that cannot reach the server
+  const replay = useCallback(async () => {
+    if (replayingRef.current) return;
+    replayingRef.current = true;
+    let applied = 0;
+
+    try {
+      const queue = await getPendingMutations();
+      if (queue.length === 0) return;
+      setSyncing(true);
+      const discardedBatches = new Set<string>();
+
+      for (const [index, mutation] of queue.entries()) {
+        if (!discardedBatches.has(mutation.batch)) {
+          const result = await applyMutation(mutation);
+          if (result.status === 'offline') break;
+
+          if (result.status === 'discarded') {
+            discardedBatches.add(mutation.batch);
+            notify(`Offline change not saved: ${mutation.label}. ${result.reason}.`, 'warning', { toast: true });
+            console.log('Discarded queued change:', mutation.label, result.reason);
+          } else {
+            applied++;
+            // Later edits of the same record were made on top of this one, not against the other editor
+            const saved = result.saved;
+            if (saved?.updatedAt) {
+              for (const later of queue.slice(index + 1)) {
+                if (later.repository === mutation.repository && later.targetId === saved.id && later.baseUpdatedAt) {
+                  later.baseUpdatedAt = saved.updatedAt;
+                  await savePendingMutation(later);
+                }
+              }
+            }
+          }
+        }
+        if (mutation.id !== undefined) await removePendingMutation(mutation.id);
+      }
+    } catch (err) {
+      console.error('Error in replay:', err);
+    } finally {
+      replayingRef.current = false;
+      setSyncing(false);
+      if (applied > 0) {
+        console.log('Replayed queued changes:', applied);
+        notifyOutboxReplayed();
+      }
+    }
+  }, [notify]);
+
+  useEffect(() => {
+    loadPending();
+    return subscribeToOutbox(loadPending);
+  }, []);
+
+  // Each successful connection check also retries whatever is still waiting
+  useEffect(() => {
+    if (isConnected) replay();
+  }, [isConnected, replay]);
+
+  return {
+    // One entry per action, in the order they will be sent
+    pending: pending.filter((mutation, index) => pending.findIndex(other => other.batch === mutation.batch) === index),
+    pendingIds: new Set(pending.map(mutation => mutation.recordId)),
+    syncing,
+    replay,
+  };
+};
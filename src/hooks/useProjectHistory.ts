@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { LogEntry } from '../types';
+import { backend } from '../data';
+
+// The log entries of one project, newest first, for its history timeline
+export const useProjectHistory = (projectId: string) => {
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloads, setReloads] = useState(0);
+
+  useEffect(() => {
+    let current = true;
+
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const data = await backend.log.list({ entityType: 'project', entityId: projectId });
+        if (!current) return;
+        setEntries(data);
+        console.log('Fetched project history:', projectId, data);
+      } catch (err) {
+        console.error('Error in fetchProjectHistory:', err);
+        if (current) setError('Failed to fetch the project history');
+      } finally {
+        if (current) setLoading(false);
+      }
+    };
+
+    fetchHistory();
+    return () => {
+      current = false;
+    };
+  }, [projectId, reloads]);
+
+  return {
+    entries,
+    loading,
+    error,
+    refetch: () => setReloads(count => count + 1),
+  };
+};
@@ -0,0 +1,158 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ProjectType } from '../types';
+import { backend, errorCode } from '../data';
+import { ConnectionStatus, onReconnected } from './useSupabaseConnection';
+import { QueuedChange, isNetworkError, isOffline, onOutboxReplayed, queueMutations, readCache, writeCache } from '../store/offline';
+
+export const useProjectTypes = (status: ConnectionStatus) => {
+  const [projectTypes, setProjectTypes] = useState<ProjectType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Show the project types saved on this device when the database cannot be reached
+  const loadCachedProjectTypes = useCallback(async () => {
+    const cached = await readCache<ProjectType[]>('project_types');
+    if (!cached) return false;
+    setProjectTypes(cached);
+    console.log('Loaded cached project types:', cached);
+    return true;
+  }, []);
+
+  // Fetch all project types; background reloads keep the current list on screen
+  const fetchProjectTypes = useCallback(async (showLoading = true) => {
+    try {
+      if (showLoading) setLoading(true);
+      setError(null);
+
+      const types = await backend.projectTypes.list();
+      setProjectTypes(types);
+      console.log('Fetched project types:', types);
+    } catch (err) {
+      console.error('Error in fetchProjectTypes:', err);
+      if (!(await loadCachedProjectTypes())) setError('Failed to fetch project types');
+    } finally {
+      setLoading(false);
+    }
+  }, [loadCachedProjectTypes]);
+
+  // Keep a change made while offline: it shows straight away and is sent once the connection is back
+  const queueProjectTypeChange = async (label: string, change: QueuedChange, applyLocally: () => void) => {
+    await queueMutations(label, [change]);
+    applyLocally();
+    return true;
+  };
+
+  // Add new project type; returns whether it was saved
+  const addProjectType = async (name: string): Promise<boolean> => {
+    // The ID is chosen here so a queued insert and later edits of it refer to the same record
+    const typeData = { id: crypto.randomUUID(), name: name.trim() };
+    const queueAdd = () =>
+      queueProjectTypeChange(
+        `Add project type ${typeData.name}`,
+        { repository: 'projectTypes', op: 'insert', recordId: typeData.id, targetId: typeData.id, values: typeData },
+        () => setProjectTypes(prev => [...prev, typeData])
+      );
+
+    try {
+      setError(null);
+      if (isOffline(status)) return await queueAdd();
+
+      const newType = await backend.projectTypes.insert(typeData);
+      setProjectTypes(prev => [...prev, newType]);
+      console.log('Added new project type:', newType);
+      return true;
+    } catch (err) {
+      if (isNetworkError(err)) return queueAdd();
+      console.error('Error adding project type:', err);
+      setError(errorCode(err) === '23505' ? 'A project type with that name already exists' : 'Failed to add project type');
+      return false;
+    }
+  };
+
+  // Rename a project type; projects pick the new name up from this list
+  const updateProjectType = async (id: string, name: string): Promise<boolean> => {
+    const current = projectTypes.find(type => type.id === id);
+    const queueUpdate = () =>
+      queueProjectTypeChange(
+        `Rename project type ${current?.name ?? id} to ${name.trim()}`,
+        { repository: 'projectTypes', op: 'update', recordId: id, targetId: id, values: { name: name.trim() }, baseUpdatedAt: current?.updatedAt },
+        () => setProjectTypes(prev => prev.map(type => (type.id === id ? { ...type, name: name.trim() } : type)))
+      );
+
+    try {
+      setError(null);
+      if (isOffline(status)) return await queueUpdate();
+
+      const updatedType = await backend.projectTypes.update(id, { name: name.trim() });
+      if (!updatedType) {
+        setProjectTypes(prev => prev.filter(type => type.id !== id));
+        setError('This project type was deleted by someone else');
+        return false;
+      }
+
+      setProjectTypes(prev => prev.map(type => (type.id === id ? updatedType : type)));
+      console.log('Updated project type:', updatedType);
+      return true;
+    } catch (err) {
+      if (isNetworkError(err)) return queueUpdate();
+      console.error('Error updating project type:', err);
+      setError(errorCode(err) === '23505' ? 'A project type with that name already exists' : 'Failed to update project type');
+      return false;
+    }
+  };
+
+  // Delete a project type; returns false when the database refuses because projects still use it
+  const deleteProjectType = async (id: string): Promise<boolean> => {
+    const current = projectTypes.find(type => type.id === id);
+    const queueDelete = () =>
+      queueProjectTypeChange(
+        `Delete project type ${current?.name ?? id}`,
+        { repository: 'projectTypes', op: 'delete', recordId: id, targetId: id, baseUpdatedAt: current?.updatedAt },
+        () => setProjectTypes(prev => prev.filter(type => type.id !== id))
+      );
+
+    try {
+      setError(null);
+      if (isOffline(status)) return await queueDelete();
+
+      await backend.projectTypes.remove(id);
+      setProjectTypes(prev => prev.filter(type => type.id !== id));
+      console.log('Deleted project type with ID:', id);
+      return true;
+    } catch (err) {
+      if (isNetworkError(err)) return queueDelete();
+      console.error('Error deleting project type:', err);
+      setError(errorCode(err) === '23503' ? 'This type is still used by projects' : 'Failed to delete project type');
+      return false;
+    }
+  };
+
+  // Save the list, including changes still waiting in the outbox, for the next offline start
+  useEffect(() => {
+    if (!loading) writeCache('project_types', projectTypes);
+  }, [projectTypes, loading]);
+
+  useEffect(() => {
+    fetchProjectTypes();
+
+    // Queued changes have reached the database; load the records as the server now has them
+    const stopReplayListener = onOutboxReplayed(() => fetchProjectTypes(false));
+    // Reload after an outage so renames made elsewhere in the meantime show up
+    const stopReconnectListener = onReconnected(() => fetchProjectTypes(false));
+
+    return () => {
+      stopReplayListener();
+      stopReconnectListener();
+    };
+  }, [fetchProjectTypes]);
+
+  return {
+    projectTypes,
+    loading,
+    error,
+    addProjectType,
+    updateProjectType,
+    deleteProjectType,
+    refetch: () => fetchProjectTypes(),
+  };
+};
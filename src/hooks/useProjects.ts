@@ -1,196 +1,469 @@
 import { useState, useEffect } from 'react';
-import { Project } from '../types';
-import { supabase } from '../supabaseClient';
+import { Project, ProjectPayment, SaveResult } from '../types';
+import { backend, errorCode } from '../data';
+import { ConnectionStatus, onReconnected } from './useSupabaseConnection';
+import { useNotifications } from '../store/notifications';
+import { isAssignedTo, replaceAssignee } from '../utils/assignees';
+import { QueuedChange, isNetworkError, isOffline, onOutboxReplayed, queueMutations, readCache, writeCache } from '../store/offline';
 
-export const useProjects = () => {
+export const useProjects = (status: ConnectionStatus) => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { notify } = useNotifications();
 
-  // Map database row to Project object
-  const mapProjectFromDB = (project: any): Project => ({
-    id: project.id,
-    projectId: project.project_id,
-    clientName: project.client_name,
-    clientUniOrg: project.client_uni_org,
-    projectDescription: project.project_description,
-    deadlineDate: project.deadline_date,
-    price: project.price,
-    advance: project.advance,
-    assignedTo: project.assigned_to,
-    paymentOfEmp: project.payment_of_emp,
-    status: project.status,
-    fastDeliver: project.fast_deliver || false,
-    createdAt: project.created_at,
-    updatedAt: project.updated_at,
-  });
-
-  // Map Project object to database row
-  const mapProjectToDB = (project: Omit<Project, 'id'>) => ({
-    project_id: project.projectId,
-    client_name: project.clientName,
-    client_uni_org: project.clientUniOrg,
-    project_description: project.projectDescription,
-    deadline_date: project.deadlineDate,
-    price: project.price,
-    advance: project.advance,
-    assigned_to: project.assignedTo || null,
-    payment_of_emp: project.paymentOfEmp,
-    status: project.status,
-    fast_deliver: (project as any).fastDeliver || false,
-  });
-
-  // Fetch all projects from database
-  const fetchProjects = async () => {
+  // Apply a change to the payment ledger of a single project in local state
+  const updateProjectPayments = (
+    projectId: string,
+    update: (payments: ProjectPayment[]) => ProjectPayment[]
+  ) => {
+    setProjects(prev =>
+      prev.map(project =>
+        project.id === projectId
+          ? { ...project, payments: update(project.payments || []) }
+          : project
+      )
+    );
+  };
+
+  // Project code shown in queued change labels
+  const projectLabel = (id: string) => projects.find(project => project.id === id)?.projectId ?? id;
+
+  const findPayment = (projectId: string, paymentId: string) =>
+    projects.find(project => project.id === projectId)?.payments?.find(payment => payment.id === paymentId);
+
+  // Fetch all projects with their payments and types; background reloads keep the current list on screen
+  const fetchProjects = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       setError(null);
       
-      const { data, error: fetchError } = await supabase
-        .from('projects')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (fetchError) {
-        console.error('Error fetching projects:', fetchError);
-        setError('Failed to fetch projects');
-        return;
-      }
-
-      const mappedProjects = (data || []).map(mapProjectFromDB);
-      setProjects(mappedProjects);
-      console.log('Fetched projects:', mappedProjects);
+      const fetchedProjects = await backend.projects.list();
+      setProjects(fetchedProjects);
+      console.log('Fetched projects:', fetchedProjects);
     } catch (err) {
       console.error('Error in fetchProjects:', err);
-      setError('Failed to fetch projects');
+      if (!(await loadCachedProjects())) setError('Failed to fetch projects');
     } finally {
       setLoading(false);
     }
   };
 
-  // Add new project to database
-  const addProject = async (project: Omit<Project, 'id'>) => {
+  // Show the projects saved on this device when the database cannot be reached
+  const loadCachedProjects = async () => {
+    const cached = await readCache<Project[]>('projects');
+    if (!cached) return false;
+    // Lists cached before projects could have several assignees carry none
+    setProjects(cached.map(project => ({ ...project, assignees: project.assignees ?? [] })));
+    console.log('Loaded cached projects:', cached);
+    return true;
+  };
+
+  // Keep a change made while offline: it is sent once the connection is back. Edits and deletes are
+  // already on screen; additions pass applyLocally to show them.
+  const queueProjectChange = async (label: string, changes: QueuedChange[], applyLocally?: () => void) => {
+    await queueMutations(label, changes);
+    applyLocally?.();
+  };
+
+  // Put a project back where it was after the database refused an optimistic change
+  const restoreProject = (previous: Project, index: number) => {
+    setProjects(prev =>
+      prev.some(project => project.id === previous.id)
+        ? prev.map(project => (project.id === previous.id ? previous : project))
+        : [...prev.slice(0, index), previous, ...prev.slice(index)]
+    );
+  };
+
+  const restorePayment = (previous: ProjectPayment) => {
+    updateProjectPayments(previous.projectId, payments =>
+      payments
+        .map(payment => (payment.id === previous.id ? previous : payment))
+        .sort((a, b) => a.paymentDate.localeCompare(b.paymentDate))
+    );
+  };
+
+  // Reload a single project after a realtime change to it, its payments or its types.
+  // Returns the project, null once it no longer exists or is in the trash, or undefined when it could not be loaded.
+  const fetchProject = async (id: string): Promise<Project | null | undefined> => {
     try {
-      setError(null);
-      
-      const projectData = mapProjectToDB(project);
-      
-      // Debug: Log the assignedTo field being saved
-      console.log('Saving project to database with assigned_to:', projectData.assigned_to);
-      console.log('Original project assignedTo:', project.assignedTo);
-
-      const { data, error: insertError } = await supabase
-        .from('projects')
-        .insert([projectData])
-        .select()
-        .single();
-
-      if (insertError) {
-        console.error('Error adding project:', insertError);
-        setError('Failed to add project');
-        return;
+      const fetchedProject = await backend.projects.get(id);
+      // Projects in the trash are not listed
+      const changedProject = fetchedProject && !fetchedProject.deletedAt ? fetchedProject : null;
+      setProjects(prev =>
+        !changedProject
+          ? prev.filter(project => project.id !== id)
+          : prev.some(project => project.id === id)
+          ? prev.map(project => (project.id === id ? changedProject : project))
+          : [changedProject, ...prev]
+      );
+      return changedProject;
+    } catch (err) {
+      console.error('Error fetching project:', err);
+      return undefined;
+    }
+  };
+
+  // Add new project, optionally recording the advance as its first payment. Queued while offline, which
+  // counts as saved; failed when the database refuses it, so the form can stay open for another try.
+  const addProject = async (
+    project: Omit<Project, 'id'>,
+    initialPayment?: Omit<ProjectPayment, 'id' | 'projectId'>
+  ): Promise<SaveResult<Project>> => {
+    // IDs are chosen here so a queued insert and later edits of it refer to the same records
+    const projectData: Project = { ...project, id: crypto.randomUUID() };
+    const paymentData = initialPayment && initialPayment.amount > 0
+      ? { ...initialPayment, id: crypto.randomUUID(), projectId: projectData.id }
+      : null;
+    const queueAdd = async (): Promise<SaveResult<Project>> => {
+      await queueProjectChange(
+        `Add project ${project.projectId}`,
+        [
+          { repository: 'projects', op: 'insert', recordId: projectData.id, targetId: projectData.id, values: projectData },
+          ...(paymentData
+            ? [{ repository: 'payments' as const, op: 'insert' as const, recordId: projectData.id, targetId: paymentData.id, values: paymentData }]
+            : []),
+        ],
+        () => setProjects(prev => [{ ...projectData, payments: paymentData ? [paymentData] : [] }, ...prev])
+      );
+      return { status: 'saved' };
+    };
+
+    try {
+      if (isOffline(status)) return await queueAdd();
+
+      // Debug: Log the assignees being saved
+      console.log('Original project assignees:', project.assignees);
+
+      const newProject = await backend.projects.insert(projectData);
+
+      if (paymentData) {
+        try {
+          newProject.payments = [await backend.payments.insert(paymentData)];
+        } catch (paymentError) {
+          console.error('Error recording initial payment:', paymentError);
+          notify(`Project ${project.projectId} added, but failed to record the advance payment`, 'warning', { toast: true });
+        }
       }
 
-      const newProject = mapProjectFromDB(data);
       setProjects(prev => [newProject, ...prev]);
       console.log('Added new project:', newProject);
+      return { status: 'saved' };
     } catch (err) {
+      if (isNetworkError(err)) return queueAdd();
       console.error('Error in addProject:', err);
-      setError('Failed to add project');
+      notify(`Failed to add project ${project.projectId}`, 'error', { toast: true });
+      return { status: 'failed' };
     }
   };
 
-  // Update project in database
-  const updateProject = async (id: string, updates: Partial<Project>) => {
+  // Update project and its types. The change shows straight away and is rolled back if the database refuses it.
+  // It only applies to the version saved at baseUpdatedAt (by default the one on screen); if someone else
+  // saved the project since, nothing is written and the conflict carries their version.
+  const updateProject = async (
+    id: string,
+    updates: Partial<Project>,
+    baseUpdatedAt?: string
+  ): Promise<SaveResult<Project>> => {
+    const index = projects.findIndex(project => project.id === id);
+    const previous = projects[index];
+    const expectedUpdatedAt = baseUpdatedAt ?? previous?.updatedAt;
+    setProjects(prev => prev.map(project => (project.id === id ? { ...project, ...updates } : project)));
+
+    const rollBack = (): SaveResult<Project> => {
+      if (previous) restoreProject(previous, index);
+      notify(`Failed to update project ${projectLabel(id)}`, 'error', { toast: true });
+      return { status: 'failed' };
+    };
+
+    const queueUpdate = async (): Promise<SaveResult<Project>> => {
+      await queueProjectChange(`Update project ${projectLabel(id)}`, [
+        { repository: 'projects', op: 'update', recordId: id, targetId: id, values: updates, baseUpdatedAt: expectedUpdatedAt },
+      ]);
+      return { status: 'saved' };
+    };
+
     try {
-      setError(null);
-      
-      const updateData: any = {};
-      if (updates.projectId !== undefined) updateData.project_id = updates.projectId;
-      if (updates.clientName !== undefined) updateData.client_name = updates.clientName;
-      if (updates.clientUniOrg !== undefined) updateData.client_uni_org = updates.clientUniOrg;
-      if (updates.projectDescription !== undefined) updateData.project_description = updates.projectDescription;
-      if (updates.deadlineDate !== undefined) updateData.deadline_date = updates.deadlineDate;
-      if (updates.price !== undefined) updateData.price = updates.price;
-      if (updates.advance !== undefined) updateData.advance = updates.advance;
-      if (updates.assignedTo !== undefined) updateData.assigned_to = updates.assignedTo || null;
-      if (updates.paymentOfEmp !== undefined) updateData.payment_of_emp = updates.paymentOfEmp;
-      if (updates.status !== undefined) updateData.status = updates.status;
-      if ((updates as any).fastDeliver !== undefined) updateData.fast_deliver = (updates as any).fastDeliver;
-
-      const { data, error: updateError } = await supabase
-        .from('projects')
-        .update(updateData)
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (updateError) {
-        console.error('Error updating project:', updateError);
-        setError('Failed to update project');
-        return;
+      if (isOffline(status)) return await queueUpdate();
+
+      const updatedProject = await backend.projects.update(id, updates, expectedUpdatedAt);
+
+      // Nothing matched: the project was saved by someone else since it was loaded, or deleted
+      if (!updatedProject) {
+        const current = await fetchProject(id);
+        if (current === undefined) return rollBack();
+        if (current === null) {
+          notify(`Project ${projectLabel(id)} was deleted by someone else`, 'warning', { toast: true });
+          return { status: 'failed' };
+        }
+        console.log('Stale update of project:', id);
+        return { status: 'conflict', current };
       }
 
-      const updatedProject = mapProjectFromDB(data);
       setProjects(prev => 
         prev.map(project => 
           project.id === id ? updatedProject : project
         )
       );
       console.log('Updated project:', updatedProject);
+      return { status: 'saved' };
     } catch (err) {
+      if (isNetworkError(err)) return queueUpdate();
       console.error('Error in updateProject:', err);
-      setError('Failed to update project');
+      return rollBack();
+    }
+  };
+
+  // Give an employee's place on projects to other employees, e.g. the open work of someone who stops taking work.
+  // A project saved by someone else in the meantime is still moved while the employee is on it. Returns how many moved.
+  const reassignProjects = async (
+    fromEmployeeId: string,
+    assignments: { projectId: string; employeeId: string }[]
+  ): Promise<number> => {
+    let moved = 0;
+    for (const { projectId, employeeId } of assignments) {
+      const project = projects.find(other => other.id === projectId);
+      if (!project) continue;
+      let result = await updateProject(projectId, { assignees: replaceAssignee(project.assignees, fromEmployeeId, employeeId) });
+      if (result.status === 'conflict' && isAssignedTo(result.current, fromEmployeeId)) {
+        const assignees = replaceAssignee(result.current.assignees, fromEmployeeId, employeeId);
+        result = await updateProject(projectId, { assignees }, result.current.updatedAt);
+      }
+      if (result.status === 'saved') moved++;
     }
+    console.log('Reassigned projects:', moved, 'of', assignments.length);
+    return moved;
   };
 
-  // Delete project from database
+  // Move a project to the trash; it disappears straight away and comes back if the delete fails.
+  // The toast offers to undo it; Settings > Trash restores it later or deletes it for good.
   const deleteProject = async (id: string) => {
+    const index = projects.findIndex(project => project.id === id);
+    const previous = projects[index];
+    const deletedAt = new Date().toISOString();
+    setProjects(prev => prev.filter(project => project.id !== id));
+
+    const queueDelete = () =>
+      queueProjectChange(`Delete project ${previous?.projectId ?? id}`, [
+        { repository: 'projects', op: 'update', recordId: id, targetId: id, values: { deletedAt }, baseUpdatedAt: previous?.updatedAt },
+      ]);
+
     try {
-      setError(null);
-      
-      const { error: deleteError } = await supabase
-        .from('projects')
-        .delete()
-        .eq('id', id);
-
-      if (deleteError) {
-        console.error('Error deleting project:', deleteError);
-        setError('Failed to delete project');
+      if (isOffline(status)) return await queueDelete();
+
+      const deletedProject = await backend.projects.update(id, { deletedAt });
+      console.log('Moved project to the trash:', id);
+      if (deletedProject) {
+        notify(`Project ${deletedProject.projectId} moved to the trash`, 'success', {
+          toast: true,
+          action: { label: 'Undo', run: () => restoreDeletedProject(deletedProject) },
+        });
+      }
+    } catch (err) {
+      if (isNetworkError(err)) return queueDelete();
+      console.error('Error in deleteProject:', err);
+      if (previous) restoreProject(previous, index);
+      notify(`Failed to delete project ${previous?.projectId ?? id}`, 'error', { toast: true });
+    }
+  };
+
+  // Take a project out of the trash; returns whether it is back in the list
+  const restoreDeletedProject = async (project: Project): Promise<boolean> => {
+    const restored = { ...project, deletedAt: null };
+    const showRestored = (restoredProject: Project) =>
+      setProjects(prev =>
+        [restoredProject, ...prev.filter(other => other.id !== restoredProject.id)]
+          .sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''))
+      );
+    const queueRestore = async () => {
+      await queueProjectChange(
+        `Restore project ${project.projectId}`,
+        [{ repository: 'projects', op: 'update', recordId: project.id, targetId: project.id, values: { deletedAt: null } }],
+        () => showRestored(restored)
+      );
+      return true;
+    };
+
+    try {
+      if (isOffline(status)) return await queueRestore();
+
+      const restoredProject = await backend.projects.update(project.id, { deletedAt: null });
+      if (!restoredProject) {
+        notify(`Project ${project.projectId} was deleted for good`, 'warning', { toast: true });
+        return false;
+      }
+      showRestored(restoredProject);
+      console.log('Restored project:', restoredProject);
+      return true;
+    } catch (err) {
+      if (isNetworkError(err)) return queueRestore();
+      console.error('Error in restoreDeletedProject:', err);
+      notify(
+        errorCode(err) === '23503'
+          ? `Project ${project.projectId} is assigned to an employee in the trash; restore them first`
+          : `Failed to restore project ${project.projectId}`,
+        'error',
+        { toast: true }
+      );
+      return false;
+    }
+  };
+
+  // Record a new payment against a project
+  const addPayment = async (payment: Omit<ProjectPayment, 'id'>) => {
+    const paymentData = { ...payment, id: crypto.randomUUID() };
+    const queueAdd = () =>
+      queueProjectChange(
+        `Record payment for ${projectLabel(payment.projectId)}`,
+        [{ repository: 'payments', op: 'insert', recordId: payment.projectId, targetId: paymentData.id, values: paymentData }],
+        () => updateProjectPayments(payment.projectId, payments =>
+          [...payments, paymentData].sort((a, b) => a.paymentDate.localeCompare(b.paymentDate))
+        )
+      );
+
+    try {
+      if (isOffline(status)) return await queueAdd();
+
+      const newPayment = await backend.payments.insert(paymentData);
+      updateProjectPayments(payment.projectId, payments =>
+        [...payments, newPayment].sort((a, b) => a.paymentDate.localeCompare(b.paymentDate))
+      );
+      console.log('Added payment:', newPayment);
+    } catch (err) {
+      if (isNetworkError(err)) return queueAdd();
+      console.error('Error in addPayment:', err);
+      notify(`Failed to record payment for ${projectLabel(payment.projectId)}`, 'error', { toast: true });
+    }
+  };
+
+  // Save changes to a recorded payment, rolling back if the database refuses them
+  const savePayment = async (
+    projectId: string,
+    paymentId: string,
+    changes: Partial<ProjectPayment>,
+    { label, failure }: { label: string; failure: string }
+  ) => {
+    const previous = findPayment(projectId, paymentId);
+    updateProjectPayments(projectId, payments =>
+      payments
+        .map(payment => (payment.id === paymentId ? { ...payment, ...changes } : payment))
+        .sort((a, b) => a.paymentDate.localeCompare(b.paymentDate))
+    );
+
+    const rollBack = () => {
+      if (previous) restorePayment(previous);
+      notify(`${failure} for ${projectLabel(projectId)}`, 'error', { toast: true });
+    };
+
+    const queueChange = () =>
+      queueProjectChange(`${label} for ${projectLabel(projectId)}`, [{
+        repository: 'payments',
+        op: 'update',
+        recordId: projectId,
+        targetId: paymentId,
+        values: changes,
+        baseUpdatedAt: previous?.updatedAt,
+      }]);
+
+    try {
+      if (isOffline(status)) return await queueChange();
+
+      const savedPayment = await backend.payments.update(paymentId, changes);
+      if (!savedPayment) {
+        rollBack();
         return;
       }
 
-      setProjects(prev => prev.filter(project => project.id !== id));
-      console.log('Deleted project with ID:', id);
+      updateProjectPayments(projectId, payments =>
+        payments
+          .map(payment => (payment.id === paymentId ? savedPayment : payment))
+          .sort((a, b) => a.paymentDate.localeCompare(b.paymentDate))
+      );
+      console.log('Saved payment:', savedPayment);
     } catch (err) {
-      console.error('Error in deleteProject:', err);
-      setError('Failed to delete project');
+      if (isNetworkError(err)) return queueChange();
+      console.error('Error saving payment:', err);
+      rollBack();
     }
   };
 
+  // Edit the date, amount, method or reference of a recorded payment
+  const updatePayment = (
+    projectId: string,
+    paymentId: string,
+    updates: Partial<Omit<ProjectPayment, 'id' | 'projectId'>>
+  ) => savePayment(projectId, paymentId, updates, { label: 'Edit payment', failure: 'Failed to update payment' });
+
+  // Void a payment. The record is kept for the audit trail but no longer counts towards the balance.
+  const voidPayment = (projectId: string, paymentId: string, reason: string) =>
+    savePayment(
+      projectId,
+      paymentId,
+      { voidedAt: new Date().toISOString(), voidReason: reason || null },
+      { label: 'Void payment', failure: 'Failed to void payment' }
+    );
+
+  // Save the list, including changes still waiting in the outbox, for the next offline start
+  useEffect(() => {
+    if (!loading) writeCache('projects', projects);
+  }, [projects, loading]);
+
   // Set up real-time subscriptions
   useEffect(() => {
     fetchProjects();
 
-    // Create a single channel instance
-    const channel = supabase.channel('projects_changes');
-    
-    // Subscribe to real-time changes
+    // Changes name the project; it is reloaded whole with its payments and types
+    const stopChanges = backend.projects.subscribe(change => {
+      if (change.kind === 'delete') {
+        setProjects(prev => prev.filter(project => project.id !== change.id));
+      } else {
+        fetchProject(change.id);
+      }
+    });
+
+    // Queued changes have reached the database; load the records as the server now has them
+    const stopReplayListener = onOutboxReplayed(() => fetchProjects(false));
+
+    // Realtime events sent while the connection was down are lost, so reload everything once it is back
+    const stopReconnectListener = onReconnected(() => fetchProjects(false));
 
     // Cleanup subscription on unmount
     return () => {
       console.log('Cleaning up projects subscription');
-      supabase.removeChannel(channel);
+      stopChanges();
+      stopReplayListener();
+      stopReconnectListener();
     };
   }, []);
 
+  // Reserve the next project number in the database; null when it cannot be reached
+  const reserveProjectNumber = async (): Promise<string | null> => {
+    try {
+      if (isOffline(status)) return null;
+
+      const projectId = await backend.projects.allocateNumber();
+      console.log('Reserved project number:', projectId);
+      return projectId;
+    } catch (err) {
+      console.error('Error in reserveProjectNumber:', err);
+      if (!isNetworkError(err)) notify('Could not reserve a project number', 'error', { toast: true });
+      return null;
+    }
+  };
+
   return {
     projects,
     loading,
     error,
+    reserveProjectNumber,
     addProject,
     updateProject,
+    reassignProjects,
     deleteProject,
-    refetch: fetchProjects,
+    restoreDeletedProject,
+    addPayment,
+    updatePayment,
+    voidPayment,
+    refetch: () => fetchProjects(),
   };
 };
\ No newline at end of file
@@ -1,34 +1,44 @@
 import { useEffect, useState } from 'react';
-import { supabase } from '../supabaseClient';
+import { backend } from '../data';
 
+export type ConnectionStatus = 'connected' | 'disconnected' | 'connecting';
+
+const reconnectListeners = new Set<() => void>();
+
+// Called once the connection is back after a failed check, so hooks can reload what they missed
+export const onReconnected = (listener: () => void) => {
+  reconnectListeners.add(listener);
+  return () => {
+    reconnectListeners.delete(listener);
+  };
+};
+
+// Pings the database every 30 seconds. DataStoreProvider runs the one check the app shares;
+// components read its status with useConnectionStore.
 export function useSupabaseConnection() {
-  const [status, setStatus] = useState<'connected' | 'disconnected' | 'connecting'>('connecting');
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
   const [lastPing, setLastPing] = useState<Date | null>(null);
 
   useEffect(() => {
     let pingInterval: NodeJS.Timeout;
     let reconnectTimeout: NodeJS.Timeout;
+    let wasDisconnected = false;
 
     const checkConnection = async () => {
       try {
         setStatus('connecting');
-        const { error } = await supabase
-          .from('employees')
-          .select('id')
-          .limit(1);
-        
-        if (error) {
-          console.error('Connection check failed:', error);
-          setStatus('disconnected');
-          // Try to reconnect after 5 seconds
-          reconnectTimeout = setTimeout(checkConnection, 5000);
-        } else {
-          setStatus('connected');
-          setLastPing(new Date());
+        await backend.ping();
+
+        setStatus('connected');
+        setLastPing(new Date());
+        if (wasDisconnected) {
+          wasDisconnected = false;
+          reconnectListeners.forEach(listener => listener());
         }
       } catch (err) {
         console.error('Connection check error:', err);
         setStatus('disconnected');
+        wasDisconnected = true;
         // Try to reconnect after 5 seconds
         reconnectTimeout = setTimeout(checkConnection, 5000);
       }
@@ -49,7 +59,6 @@ export function useSupabaseConnection() {
 
   return { 
     status, 
-    client: supabase, 
     lastPing,
     isConnected: status === 'connected'
   };
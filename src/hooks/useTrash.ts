@@ -0,0 +1,89 @@
+import { useState, useEffect } from 'react';
+import { Employee, Project } from '../types';
+import { backend, errorCode } from '../data';
+
+// Projects and employees in the trash. Restoring goes through the project and employee stores so the
+// record shows up in their lists again; drop() then takes it off this one.
+export const useTrash = () => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTrash = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [deletedProjects, deletedEmployees] = await Promise.all([
+        backend.projects.listDeleted(),
+        backend.employees.listDeleted(),
+      ]);
+      setProjects(deletedProjects);
+      setEmployees(deletedEmployees);
+      console.log('Fetched trash:', deletedProjects, deletedEmployees);
+    } catch (err) {
+      console.error('Error in fetchTrash:', err);
+      setError('Failed to fetch the trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Take a restored record off the list
+  const drop = (id: string) => {
+    setProjects(prev => prev.filter(project => project.id !== id));
+    setEmployees(prev => prev.filter(employee => employee.id !== id));
+  };
+
+  // Delete a project for good, with its payments; returns whether it was deleted
+  const purgeProject = async (id: string): Promise<boolean> => {
+    try {
+      setError(null);
+
+      await backend.projects.remove(id);
+      drop(id);
+      console.log('Purged project with ID:', id);
+      return true;
+    } catch (err) {
+      console.error('Error in purgeProject:', err);
+      setError('Failed to delete the project');
+      return false;
+    }
+  };
+
+  // Delete an employee for good, with their payouts; returns whether they were deleted
+  const purgeEmployee = async (id: string): Promise<boolean> => {
+    try {
+      setError(null);
+
+      await backend.employees.remove(id);
+      drop(id);
+      console.log('Purged employee with ID:', id);
+      return true;
+    } catch (err) {
+      console.error('Error in purgeEmployee:', err);
+      setError(
+        errorCode(err) === '23503'
+          ? 'This employee is still assigned to projects; delete those first'
+          : 'Failed to delete the employee'
+      );
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  return {
+    projects,
+    employees,
+    loading,
+    error,
+    drop,
+    purgeProject,
+    purgeEmployee,
+    refetch: fetchTrash,
+  };
+};
@@ -0,0 +1,61 @@
+import { Role } from './types';
+
+export type Permission =
+  | 'view_financials'
+  | 'edit_projects'
+  | 'delete_projects'
+  | 'manage_payments'
+  | 'edit_employees'
+  | 'delete_employees'
+  | 'manage_payouts'
+  | 'export_reports'
+  | 'manage_settings'
+  | 'manage_users'
+  | 'view_activity'
+  | 'view_project_history'
+  | 'merge_organizations';
+
+// Keep in sync with the row-level-security policies in DB/migrations
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'view_financials',
+    'edit_projects',
+    'delete_projects',
+    'manage_payments',
+    'edit_employees',
+    'delete_employees',
+    'manage_payouts',
+    'export_reports',
+    'manage_settings',
+    'manage_users',
+    'view_activity',
+    'view_project_history',
+    'merge_organizations',
+  ],
+  manager: [
+    'view_financials',
+    'edit_projects',
+    'manage_payments',
+    'edit_employees',
+    'manage_payouts',
+    'export_reports',
+    'view_project_history',
+  ],
+  viewer: [],
+};
+
+export const ROLES: Role[] = ['admin', 'manager', 'viewer'];
+
+export const can = (role: Role, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission);
+
+// Navigation tabs that need more than a signed-in user
+const TAB_PERMISSIONS: Record<string, Permission> = {
+  analytics: 'view_financials',
+  receivables: 'view_financials',
+};
+
+export const canAccessTab = (role: Role, tabId: string): boolean => {
+  const permission = TAB_PERMISSIONS[tabId];
+  return !permission || can(role, permission);
+};
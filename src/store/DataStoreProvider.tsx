@@ -0,0 +1,52 @@
+import React, { useMemo } from 'react';
+import { useProjects } from '../hooks/useProjects';
+import { useEmployees } from '../hooks/useEmployees';
+import { useClients } from '../hooks/useClients';
+import { useOrganizations } from '../hooks/useOrganizations';
+import { useProjectTypes } from '../hooks/useProjectTypes';
+import { useOutbox } from '../hooks/useOutbox';
+import { useAppSettings } from '../hooks/useAppSettings';
+import { useSupabaseConnection } from '../hooks/useSupabaseConnection';
+import { DataStoreContext } from './context';
+
+// Mount only after sign-in: every table is behind row level security
+export const DataStoreProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // One connection check for the whole app; the loaders queue changes while it is down
+  const connection = useSupabaseConnection();
+  const projectStore = useProjects(connection.status);
+  const employees = useEmployees(connection.status);
+  const clients = useClients();
+  const organizations = useOrganizations();
+  const projectTypes = useProjectTypes(connection.status);
+  const outbox = useOutbox(connection.isConnected);
+  const settings = useAppSettings();
+
+  // Projects keep copies of their client's details and type names; read the current ones from the
+  // other tables so a rename shows up everywhere without waiting for the projects to reload
+  const projects = useMemo(() => {
+    const clientsById = new Map(clients.clients.map(client => [client.id, client]));
+    const typesById = new Map(projectTypes.projectTypes.map(type => [type.id, type]));
+    return projectStore.projects.map(project => {
+      const client = project.clientId ? clientsById.get(project.clientId) : undefined;
+      return {
+        ...project,
+        clientName: client?.name ?? project.clientName,
+        clientUniOrg: client ? client.uniOrg : project.clientUniOrg,
+        projectTypes: project.projectTypes.map(type => typesById.get(type.id) ?? type),
+      };
+    });
+  }, [projectStore.projects, clients.clients, projectTypes.projectTypes]);
+
+  const store = {
+    connection,
+    projects: { ...projectStore, projects },
+    employees,
+    clients,
+    organizations,
+    projectTypes,
+    outbox,
+    settings,
+  };
+
+  return <DataStoreContext.Provider value={store}>{children}</DataStoreContext.Provider>;
+};
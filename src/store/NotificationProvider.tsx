@@ -0,0 +1,31 @@
+import React, { useCallback, useState } from 'react';
+import { AppNotification, NotificationType } from '../types';
+import { NotificationContext, NotificationOptions } from './notifications';
+
+// Holds the messages shown by the Header's bell and toasts; wraps DataStoreProvider so the hooks can report too.
+// notify and dismissNotification keep their identity, so effects can depend on them without running again.
+export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  const dismissNotification = useCallback((id: string) => {
+    setNotifications(prev => prev.filter(n => n.id !== id));
+  }, []);
+
+  const notify = useCallback((message: string, type: NotificationType = 'info', { toast = false, action }: NotificationOptions = {}) => {
+    const id = Math.random().toString(36).substring(2, 15);
+    const notification = { id, message, type, toast, action, timestamp: new Date() };
+    setNotifications(prev => [notification, ...prev.slice(0, 4)]); // Keep only last 5 notifications
+
+    // Auto-remove notification after 5 seconds, or 10 when it offers an action
+    setTimeout(() => dismissNotification(id), action ? 10000 : 5000);
+  }, [dismissNotification]);
+
+  const store = {
+    notifications,
+    notify,
+    dismissNotification,
+    clearNotifications: () => setNotifications([]),
+  };
+
+  return <NotificationContext.Provider value={store}>{children}</NotificationContext.Provider>;
+};
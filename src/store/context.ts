@@ -0,0 +1,38 @@
+import { createContext, useContext } from 'react';
+import { useProjects } from '../hooks/useProjects';
+import { useEmployees } from '../hooks/useEmployees';
+import { useClients } from '../hooks/useClients';
+import { useOrganizations } from '../hooks/useOrganizations';
+import { useProjectTypes } from '../hooks/useProjectTypes';
+import { useOutbox } from '../hooks/useOutbox';
+import { useAppSettings } from '../hooks/useAppSettings';
+import { useSupabaseConnection } from '../hooks/useSupabaseConnection';
+
+// One loader per table, created once by DataStoreProvider and shared by every component
+export interface DataStore {
+  connection: ReturnType<typeof useSupabaseConnection>;
+  projects: ReturnType<typeof useProjects>;
+  employees: ReturnType<typeof useEmployees>;
+  clients: ReturnType<typeof useClients>;
+  organizations: ReturnType<typeof useOrganizations>;
+  projectTypes: ReturnType<typeof useProjectTypes>;
+  outbox: ReturnType<typeof useOutbox>;
+  settings: ReturnType<typeof useAppSettings>;
+}
+
+export const DataStoreContext = createContext<DataStore | null>(null);
+
+const useDataStore = (): DataStore => {
+  const store = useContext(DataStoreContext);
+  if (!store) throw new Error('useDataStore must be used inside DataStoreProvider');
+  return store;
+};
+
+export const useConnectionStore = () => useDataStore().connection;
+export const useProjectStore = () => useDataStore().projects;
+export const useEmployeeStore = () => useDataStore().employees;
+export const useClientStore = () => useDataStore().clients;
+export const useOrganizationStore = () => useDataStore().organizations;
+export const useProjectTypeStore = () => useDataStore().projectTypes;
+export const useOutboxStore = () => useDataStore().outbox;
+export const useSettingsStore = () => useDataStore().settings;
@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import { AppNotification, NotificationAction, NotificationType } from '../types';
+
+export interface NotificationOptions {
+  toast?: boolean; // for results of the user's own actions, e.g. a save that failed
+  action?: NotificationAction; // e.g. Undo; the toast stays up longer to give time to use it
+}
+
+export interface NotificationStore {
+  notifications: AppNotification[];
+  notify: (message: string, type?: NotificationType, options?: NotificationOptions) => void;
+  dismissNotification: (id: string) => void;
+  clearNotifications: () => void;
+}
+
+export const NotificationContext = createContext<NotificationStore | null>(null);
+
+export const useNotifications = (): NotificationStore => {
+  const store = useContext(NotificationContext);
+  if (!store) throw new Error('useNotifications must be used inside NotificationProvider');
+  return store;
+};
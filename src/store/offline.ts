@@ -0,0 +1,136 @@
+import type { ConnectionStatus } from '../hooks/useSupabaseConnection';
+import { backend } from '../data';
+
+// IndexedDB keeps the last loaded lists and the outbox of changes made while offline
+const DB_NAME = 'ogomanager-offline';
+const DB_VERSION = 1;
+const CACHE_STORE = 'cache';
+const OUTBOX_STORE = 'outbox';
+
+// Repositories of the data backend that changes can be queued for
+export type OutboxRepository = 'projects' | 'payments' | 'projectTypes' | 'employees';
+
+export interface PendingMutation {
+  id?: number; // outbox key, assigned by IndexedDB in queue order
+  batch: string; // changes queued by one action; a conflict discards the whole batch
+  label: string; // shown to the user, e.g. "Update project PRJ-001"
+  repository: OutboxRepository;
+  op: 'insert' | 'update' | 'delete';
+  recordId: string; // project, employee or type the change belongs to
+  targetId: string; // record written to; a payment's own id for payment changes
+  values?: object; // the whole record for an insert, the changed fields for an update
+  baseUpdatedAt?: string; // updated_at of the record when it was edited; unset for records created offline
+  queuedAt: string;
+}
+
+export type QueuedChange = Omit<PendingMutation, 'id' | 'batch' | 'label' | 'queuedAt'>;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CACHE_STORE);
+        request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(database.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Outbox changes are announced so the pending list and the hooks can follow along
+const outboxListeners = new Set<() => void>();
+const replayListeners = new Set<() => void>();
+
+const notifyOutbox = () => outboxListeners.forEach(listener => listener());
+
+export const subscribeToOutbox = (listener: () => void) => {
+  outboxListeners.add(listener);
+  return () => {
+    outboxListeners.delete(listener);
+  };
+};
+
+// Called after queued changes reached the database, so hooks can reload the rows the server now has
+export const onOutboxReplayed = (listener: () => void) => {
+  replayListeners.add(listener);
+  return () => {
+    replayListeners.delete(listener);
+  };
+};
+
+export const notifyOutboxReplayed = () => replayListeners.forEach(listener => listener());
+
+export const readCache = async <T>(key: string): Promise<T | undefined> => {
+  try {
+    return await runRequest<T | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+  } catch (err) {
+    console.error('Error reading offline cache:', err);
+    return undefined;
+  }
+};
+
+export const writeCache = async (key: string, value: unknown) => {
+  try {
+    await runRequest(CACHE_STORE, 'readwrite', store => store.put(value, key));
+  } catch (err) {
+    console.error('Error writing offline cache:', err);
+  }
+};
+
+export const getPendingMutations = async (): Promise<PendingMutation[]> => {
+  try {
+    return await runRequest<PendingMutation[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+  } catch (err) {
+    console.error('Error reading outbox:', err);
+    return [];
+  }
+};
+
+// Queue the changes of one action; they are replayed in order once the connection is back
+export const queueMutations = async (label: string, changes: QueuedChange[]) => {
+  const batch = crypto.randomUUID();
+  const queuedAt = new Date().toISOString();
+  for (const change of changes) {
+    await runRequest(OUTBOX_STORE, 'readwrite', store => store.add({ ...change, batch, label, queuedAt }));
+  }
+  console.log('Queued offline change:', label);
+  notifyOutbox();
+};
+
+export const savePendingMutation = async (mutation: PendingMutation) => {
+  await runRequest(OUTBOX_STORE, 'readwrite', store => store.put(mutation));
+  notifyOutbox();
+};
+
+export const removePendingMutation = async (id: number) => {
+  await runRequest(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+  notifyOutbox();
+};
+
+// Writes go to the outbox when the last connection check failed or the browser knows it is offline;
+// the local backend needs no network
+export const isOffline = (status: ConnectionStatus) =>
+  backend.remote && (status === 'disconnected' || !navigator.onLine);
+
+// supabase-js reports a request that never reached the server as an error whose message names the failed fetch
+export const isNetworkError = (error: unknown) =>
+  error instanceof TypeError ||
+  (typeof error === 'object' && error !== null && /failed to fetch|network|load failed/i.test(String((error as { message?: unknown }).message)));
@@ -0,0 +1,168 @@
+import { z } from 'zod';
+
+// Rows of the Supabase tables as defined by the migrations in DB/migrations. The row mappers parse every row
+// with these schemas, so a row that does not match is reported instead of rendering as undefined.
+// Columns without NOT NULL can come back null, including those with a default.
+
+const text = z.string();
+const nullableText = z.string().nullable();
+const timestamp = z.string().nullable();
+// DECIMAL columns arrive as numbers, or as strings once they exceed what JSON numbers hold exactly
+const decimal = z.union([z.number(), z.string()]).pipe(z.coerce.number());
+
+export const PROJECT_STATUSES = ['Running', 'Pending', 'Delivered', 'Correction', 'Rejected'] as const;
+export const PAYMENT_METHODS = ['Cash', 'Bank Transfer', 'Card', 'Online', 'Cheque', 'Other'] as const;
+export const ROLES = ['admin', 'manager', 'viewer'] as const;
+export const EMPLOYEE_STATUSES = ['active', 'inactive', 'left'] as const;
+export const ASSIGNEE_ROLES = ['lead', 'writer', 'reviewer'] as const;
+
+export const employeeRowSchema = z.object({
+  id: text,
+  employee_id: text,
+  first_name: text,
+  last_name: text,
+  birthday: nullableText,
+  position: nullableText,
+  address: nullableText,
+  whatsapp: nullableText,
+  email: nullableText,
+  qualifications: nullableText,
+  status: z.enum(EMPLOYEE_STATUSES),
+  deleted_at: timestamp,
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+export const organizationRowSchema = z.object({
+  id: text,
+  name: text,
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+export const clientRowSchema = z.object({
+  id: text,
+  name: text,
+  uni_org: nullableText,
+  organization_id: nullableText,
+  email: nullableText,
+  phone: nullableText,
+  whatsapp_number: nullableText,
+  notes: nullableText,
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+export const projectTypeRowSchema = z.object({
+  id: text,
+  name: text,
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+export const paymentRowSchema = z.object({
+  id: text,
+  project_id: text,
+  payment_date: text,
+  amount: decimal,
+  method: z.enum(PAYMENT_METHODS),
+  reference: nullableText,
+  voided_at: timestamp,
+  void_reason: nullableText,
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+export const projectAssignmentRowSchema = z.object({
+  project_id: text,
+  employee_id: text,
+  role: z.enum(ASSIGNEE_ROLES),
+  share: decimal,
+  created_at: timestamp,
+});
+
+// The joined tables are only there when selected; realtime payloads carry the plain row
+export const projectRowSchema = z.object({
+  id: text,
+  project_id: text,
+  client_id: nullableText,
+  client_name: text,
+  client_uni_org: nullableText,
+  deadline_date: nullableText,
+  price: decimal,
+  advance: decimal,
+  payment_of_emp: decimal,
+  status: z.enum(PROJECT_STATUSES),
+  fast_deliver: z.boolean(),
+  delivered_at: timestamp,
+  deleted_at: timestamp,
+  created_at: timestamp,
+  updated_at: timestamp,
+  project_payments: z.array(paymentRowSchema).optional(),
+  clients: clientRowSchema.nullable().optional(),
+  project_project_types: z.array(z.object({ project_types: projectTypeRowSchema })).optional(),
+  project_assignments: z.array(projectAssignmentRowSchema).optional(),
+});
+
+export const payoutItemRowSchema = z.object({
+  id: text,
+  payout_id: text,
+  project_id: text,
+  amount: decimal,
+  created_at: timestamp,
+});
+
+export const payoutRowSchema = z.object({
+  id: text,
+  employee_id: text,
+  payout_date: text,
+  amount: decimal,
+  method: z.enum(PAYMENT_METHODS),
+  reference: nullableText,
+  notes: nullableText,
+  created_at: timestamp,
+  updated_at: timestamp,
+  employee_payout_items: z.array(payoutItemRowSchema).optional(),
+});
+
+export const adminRowSchema = z.object({
+  id: text,
+  user_id: nullableText,
+  email: text,
+  role: z.enum(ROLES),
+  active: z.boolean(),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+// changes maps each changed column to its value before and after the write
+export const logRowSchema = z.object({
+  id: text,
+  admin_id: nullableText,
+  admin_email: nullableText,
+  action: text,
+  entity_type: nullableText,
+  entity_id: nullableText,
+  changes: z.record(z.object({ old: z.unknown(), new: z.unknown() })).nullable(),
+  created_at: text,
+});
+
+// A single row; the CHECK constraints keep prefix and padding within what the app formats
+export const appSettingsRowSchema = z.object({
+  project_number_prefix: text,
+  project_number_padding: z.number().int(),
+  updated_at: timestamp,
+});
+
+export type EmployeeRow = z.infer<typeof employeeRowSchema>;
+export type OrganizationRow = z.infer<typeof organizationRowSchema>;
+export type ClientRow = z.infer<typeof clientRowSchema>;
+export type ProjectTypeRow = z.infer<typeof projectTypeRowSchema>;
+export type PaymentRow = z.infer<typeof paymentRowSchema>;
+export type ProjectAssignmentRow = z.infer<typeof projectAssignmentRowSchema>;
+export type ProjectRow = z.infer<typeof projectRowSchema>;
+export type PayoutItemRow = z.infer<typeof payoutItemRowSchema>;
+export type PayoutRow = z.infer<typeof payoutRowSchema>;
+export type AdminRow = z.infer<typeof adminRowSchema>;
+export type LogRow = z.infer<typeof logRowSchema>;
+export type AppSettingsRow = z.infer<typeof appSettingsRowSchema>;
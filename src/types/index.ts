@@ -1,20 +1,110 @@
+export type Role = 'admin' | 'manager' | 'viewer';
+
+// Active admin row of the signed-in user
+export interface AdminProfile {
+  id: string;
+  email: string;
+  role: Role;
+}
+
+export interface AdminUser {
+  id: string;
+  userId: string | null;
+  email: string;
+  role: Role;
+  active: boolean;
+  lastLogin?: string | null; // latest login_success in the log table
+  createdAt?: string;
+}
+
+// Field name (as on the app's types) to its value before and after a change; null where there was none
+export type FieldChanges = Record<string, { old: unknown; new: unknown }>;
+
+export interface LogEntry {
+  id: string;
+  adminId: string | null;
+  adminEmail: string;
+  action: string; // e.g. login_success, user_invited, project_updated
+  entityType?: string | null; // project, employee or project_type for changes recorded by the audit triggers
+  entityId?: string | null;
+  changes?: FieldChanges | null;
+  createdAt: string;
+}
+
+export type PaymentMethod = 'Cash' | 'Bank Transfer' | 'Card' | 'Online' | 'Cheque' | 'Other';
+
+export interface ProjectPayment {
+  id: string;
+  projectId: string; // references projects.id (not the PJ#### code)
+  paymentDate: string;
+  amount: number;
+  method: PaymentMethod;
+  reference: string;
+  voidedAt?: string | null;
+  voidReason?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface Client {
+  id: string;
+  name: string;
+  uniOrg: string; // organization name; the database links it to an organization by name
+  organizationId: string | null;
+  email: string;
+  phone: string;
+  whatsappNumber: string;
+  notes: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ProjectType {
+  id: string;
+  name: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type AssigneeRole = 'lead' | 'writer' | 'reviewer';
+
+// An employee working on a project, with their part of the project's paymentOfEmp
+export interface ProjectAssignee {
+  employeeId: string;
+  role: AssigneeRole;
+  share: number;
+}
+
 export interface Project {
   id: string;
   projectId: string;
-  clientName: string;
+  clientId?: string | null;
+  clientName: string; // taken from the linked client; kept on the row for older projects and search
   clientUniOrg: string;
-  projectDescription: string;
+  projectTypes: ProjectType[];
   deadlineDate: string;
   price: number;
   advance: number;
-  assignedTo: string;
+  assignees: ProjectAssignee[]; // the shares add up to paymentOfEmp
   paymentOfEmp: number;
   status: 'Running' | 'Pending' | 'Delivered' | 'Correction' | 'Rejected';
   fastDeliver?: boolean;
+  deliveredAt?: string | null; // set by the database when status first becomes Delivered
+  deletedAt?: string | null; // set while the project is in the trash
+  payments?: ProjectPayment[];
   createdAt?: string;
   updatedAt?: string;
 }
 
+export type EmployeeStatus = 'active' | 'inactive' | 'left';
+
 export interface Employee {
   id: string;
   employeeId: string;
@@ -26,5 +116,57 @@ export interface Employee {
   whatsappNumber: string;
   emailAddress: string;
   qualifications: string;
+  status: EmployeeStatus; // only active employees are offered for new work
+  deletedAt?: string | null; // set while the employee is in the trash
   createdAt?: string;
-}
\ No newline at end of file
+  updatedAt?: string;
+}
+export interface EmployeePayoutItem {
+  id: string;
+  payoutId: string;
+  projectId: string; // references projects.id
+  amount: number;
+}
+
+export interface EmployeePayout {
+  id: string;
+  employeeId: string; // references employees.id
+  payoutDate: string;
+  amount: number;
+  method: PaymentMethod;
+  reference: string;
+  notes?: string;
+  items: EmployeePayoutItem[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Organization-wide settings, kept in the single app_settings row
+export interface AppSettings {
+  projectNumberPrefix: string; // e.g. PJ
+  projectNumberPadding: number; // minimum digits; longer numbers are not cut
+  updatedAt?: string;
+}
+
+export type NotificationType = 'success' | 'info' | 'warning' | 'error';
+
+// A button on a toast; using it dismisses the notification
+export interface NotificationAction {
+  label: string;
+  run: () => void;
+}
+
+export interface AppNotification {
+  id: string;
+  message: string;
+  type: NotificationType;
+  toast: boolean; // also shown on screen, not only in the bell's list
+  action?: NotificationAction;
+  timestamp: Date;
+}
+
+// Outcome of an edit checked against updated_at; a conflict carries the row as someone else saved it
+export type SaveResult<T> =
+  | { status: 'saved' }
+  | { status: 'conflict'; current: T }
+  | { status: 'failed' };
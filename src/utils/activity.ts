@@ -0,0 +1,59 @@
+import { FieldChanges, LogEntry } from '../types';
+import { LogFilter } from '../data';
+
+// Wrong passwords when signing in or confirming an export; a run of them can be someone guessing
+export const FAILED_LOGIN_ACTIONS = ['login_fail', 'export_fail', 'export_auth_fail'];
+
+export const isFailedLogin = (entry: LogEntry): boolean => FAILED_LOGIN_ACTIONS.includes(entry.action);
+
+// Choices of the action type filter in Settings > Activity
+export const ACTIVITY_TYPES: { id: string; label: string; filter: LogFilter }[] = [
+  { id: 'sign-ins', label: 'Sign-ins and sign-outs', filter: { actions: ['login_success', 'login_fail', 'logout'] } },
+  { id: 'failed-logins', label: 'Failed logins', filter: { actions: FAILED_LOGIN_ACTIONS } },
+  {
+    id: 'exports',
+    label: 'Exports',
+    filter: { actions: ['export_success', 'export_fail', 'export_auth_success', 'export_auth_fail', 'activity_exported'] },
+  },
+  {
+    id: 'accounts',
+    label: 'Users and passwords',
+    filter: {
+      actions: [
+        'user_created',
+        'user_invited',
+        'user_role_changed',
+        'user_deactivated',
+        'user_reactivated',
+        'password_reset_sent',
+        'password_set',
+        'password_changed',
+        'password_change_fail',
+      ],
+    },
+  },
+  { id: 'projects', label: 'Project changes', filter: { entityType: 'project' } },
+  { id: 'employees', label: 'Employee changes', filter: { entityType: 'employee' } },
+  { id: 'project-types', label: 'Project type changes', filter: { entityType: 'project_type' } },
+];
+
+// e.g. project_type_link_created -> Project type link created
+export const formatAction = (action: string): string => {
+  const words = action.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const formatChangeValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// One line for the changed fields, e.g. "price: 5000 → 6000; status: Pending → Running"
+export const formatChanges = (changes: FieldChanges | null | undefined): string =>
+  Object.entries(changes ?? {})
+    .map(([field, change]) =>
+      change.old === null
+        ? `${field}: ${formatChangeValue(change.new)}`
+        : `${field}: ${formatChangeValue(change.old)} → ${formatChangeValue(change.new)}`
+    )
+    .join('; ');
@@ -0,0 +1,69 @@
+import { AssigneeRole, Employee, Project, ProjectAssignee } from '../types';
+
+export const ASSIGNEE_ROLES: AssigneeRole[] = ['lead', 'writer', 'reviewer'];
+
+export const ASSIGNEE_ROLE_LABELS: Record<AssigneeRole, string> = {
+  lead: 'Lead',
+  writer: 'Writer',
+  reviewer: 'Reviewer',
+};
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export const isAssignedTo = (project: Project, employeeId: string): boolean =>
+  project.assignees.some(assignee => assignee.employeeId === employeeId);
+
+// The employee's part of the project's paymentOfEmp; 0 when they are not assigned
+export const getShare = (project: Project, employeeId: string): number =>
+  project.assignees.find(assignee => assignee.employeeId === employeeId)?.share ?? 0;
+
+// The employee's part of the project's price, in proportion to their share; split evenly while the employee
+// payment is 0. The assignees' parts add up to the price, so shared projects are not counted twice.
+export const getRevenueShare = (project: Project, employeeId: string): number => {
+  if (!isAssignedTo(project, employeeId)) return 0;
+  if (project.paymentOfEmp > 0) return (project.price * getShare(project, employeeId)) / project.paymentOfEmp;
+  return project.price / project.assignees.length;
+};
+
+// Split the employee payment evenly in whole cents; the first assignees take the leftover cents
+export const splitShares = (assignees: ProjectAssignee[], paymentOfEmp: number): ProjectAssignee[] => {
+  const total = toCents(paymentOfEmp);
+  const base = Math.trunc(total / assignees.length);
+  const leftover = total - base * assignees.length;
+  return assignees.map((assignee, index) => ({
+    ...assignee,
+    share: (base + (index < Math.abs(leftover) ? Math.sign(leftover) : 0)) / 100,
+  }));
+};
+
+// The shares must add up to the employee payment; returns the problem, or null when they do
+export const getSharesError = (assignees: ProjectAssignee[], paymentOfEmp: number): string | null => {
+  if (assignees.length === 0) return null;
+  const total = assignees.reduce((sum, assignee) => sum + toCents(assignee.share), 0);
+  if (total === toCents(paymentOfEmp)) return null;
+  return `The shares add up to ${(total / 100).toFixed(2)} but the employee payment is ${paymentOfEmp.toFixed(2)}`;
+};
+
+// Give one assignee's place to another employee. Someone already on the project takes over the share on top of their own.
+export const replaceAssignee = (assignees: ProjectAssignee[], fromId: string, toId: string): ProjectAssignee[] => {
+  const leaving = assignees.find(assignee => assignee.employeeId === fromId);
+  if (!leaving || fromId === toId) return assignees;
+
+  if (!assignees.some(assignee => assignee.employeeId === toId)) {
+    return assignees.map(assignee => (assignee.employeeId === fromId ? { ...assignee, employeeId: toId } : assignee));
+  }
+  return assignees
+    .filter(assignee => assignee.employeeId !== fromId)
+    .map(assignee =>
+      assignee.employeeId === toId ? { ...assignee, share: (toCents(assignee.share) + toCents(leaving.share)) / 100 } : assignee
+    );
+};
+
+// Comma-separated assignee names for tables, reports and exports
+export const getAssigneeNames = (project: Project, employees: Employee[]): string => {
+  const names = project.assignees
+    .map(assignee => employees.find(employee => employee.id === assignee.employeeId))
+    .filter((employee): employee is Employee => !!employee)
+    .map(employee => `${employee.firstName} ${employee.lastName}`);
+  return names.length > 0 ? names.join(', ') : 'Unassigned';
+};
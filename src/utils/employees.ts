@@ -0,0 +1,20 @@
+import { Employee, EmployeeStatus, Project } from '../types';
+import { isAssignedTo } from './assignees';
+
+export const EMPLOYEE_STATUSES: EmployeeStatus[] = ['active', 'inactive', 'left'];
+
+export const EMPLOYEE_STATUS_LABELS: Record<EmployeeStatus, string> = {
+  active: 'Active',
+  inactive: 'Inactive',
+  left: 'Left',
+};
+
+// Work still in progress; it moves to someone else when an employee stops taking work
+export const OPEN_PROJECT_STATUSES: Project['status'][] = ['Running', 'Pending', 'Correction'];
+
+export const getOpenProjects = (employeeId: string, projects: Project[]): Project[] =>
+  projects.filter(project => isAssignedTo(project, employeeId) && OPEN_PROJECT_STATUSES.includes(project.status));
+
+// Employees a project can be given to; keepIds stay selectable so editing a project keeps its current assignees
+export const getAssignableEmployees = (employees: Employee[], keepIds: string[] = []): Employee[] =>
+  employees.filter(employee => employee.status === 'active' || keepIds.includes(employee.id));
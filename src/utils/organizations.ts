@@ -0,0 +1,42 @@
+import { Project } from '../types';
+
+export interface OrganizationStats {
+  projects: number;
+  delivered: number;
+  revenue: number;
+  avgValue: number;
+  deliveryRate: number; // percentage of projects delivered
+}
+
+export interface MonthlyOrganizationStats extends OrganizationStats {
+  month: string; // YYYY-MM of project creation
+}
+
+// Rejected projects count towards the delivery rate but not towards revenue
+export const getOrganizationStats = (projects: Project[]): OrganizationStats => {
+  const billed = projects.filter(p => p.status !== 'Rejected');
+  const delivered = projects.filter(p => p.status === 'Delivered').length;
+  const revenue = billed.reduce((sum, p) => sum + p.price, 0);
+  return {
+    projects: projects.length,
+    delivered,
+    revenue,
+    avgValue: billed.length > 0 ? revenue / billed.length : 0,
+    deliveryRate: projects.length > 0 ? (delivered / projects.length) * 100 : 0,
+  };
+};
+
+// Same figures per month, oldest first
+export const getMonthlyOrganizationStats = (projects: Project[]): MonthlyOrganizationStats[] => {
+  const months: Record<string, Project[]> = {};
+  projects.forEach(project => {
+    if (!project.createdAt) return;
+    const date = new Date(project.createdAt);
+    const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    if (!months[monthKey]) months[monthKey] = [];
+    months[monthKey].push(project);
+  });
+  return Object.entries(months)
+    .map(([month, monthProjects]) => ({ month, ...getOrganizationStats(monthProjects) }))
+    .sort((a, b) => a.month.localeCompare(b.month));
+};
@@ -0,0 +1,54 @@
+import { PaymentMethod, Project, ProjectPayment } from '../types';
+
+export const PAYMENT_METHODS: PaymentMethod[] = [
+  'Cash',
+  'Bank Transfer',
+  'Card',
+  'Online',
+  'Cheque',
+  'Other',
+];
+
+// Payments that still count towards the project total (voided rows are kept for history only)
+export const getActivePayments = (project: Project): ProjectPayment[] =>
+  (project.payments || []).filter(payment => !payment.voidedAt);
+
+// Total collected from the client. Projects loaded without a ledger fall back to the legacy advance.
+export const getTotalPaid = (project: Project): number => {
+  if (!project.payments) return project.advance || 0;
+  return getActivePayments(project).reduce((sum, payment) => sum + payment.amount, 0);
+};
+
+// Amount the client still owes on this project
+export const getBalanceDue = (project: Project): number => project.price - getTotalPaid(project);
+
+// 'current' holds balances that are not due yet; the others count days past due, the due day itself being 0
+export type AgingBucket = 'current' | '0-30' | '31-60' | '61-90' | '90+';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', '0-30', '31-60', '61-90', '90+'];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: 'Not yet due',
+  '0-30': '0-30 days',
+  '31-60': '31-60 days',
+  '61-90': '61-90 days',
+  '90+': '90+ days',
+};
+
+// Payment falls due on delivery, or on the deadline while the project is still open
+export const getDueDate = (project: Project): string => project.deliveredAt || project.deadlineDate;
+
+// Whole days since the due date; 0 on the due day and negative before it
+export const getDaysPastDue = (project: Project, today: Date = new Date()): number => {
+  const due = new Date(getDueDate(project));
+  if (isNaN(due.getTime())) return 0;
+  return Math.floor((today.getTime() - due.getTime()) / (1000 * 60 * 60 * 24));
+};
+
+export const getAgingBucket = (daysPastDue: number): AgingBucket => {
+  if (daysPastDue < 0) return 'current';
+  if (daysPastDue <= 30) return '0-30';
+  if (daysPastDue <= 60) return '31-60';
+  if (daysPastDue <= 90) return '61-90';
+  return '90+';
+};
@@ -0,0 +1,42 @@
+import { EmployeePayout, Project } from '../types';
+import { getShare, isAssignedTo } from './assignees';
+
+// Amount already paid out to an assignee for a project
+export const getPaidOut = (project: Project, employeeId: string, payouts: EmployeePayout[]): number =>
+  payouts
+    .filter(payout => payout.employeeId === employeeId)
+    .reduce(
+      (sum, payout) =>
+        sum + payout.items
+          .filter(item => item.projectId === project.id)
+          .reduce((itemSum, item) => itemSum + item.amount, 0),
+      0
+    );
+
+// Amount still owed to an assignee for their share of a project
+export const getUnpaidEarnings = (project: Project, employeeId: string, payouts: EmployeePayout[]): number =>
+  Math.max(getShare(project, employeeId) - getPaidOut(project, employeeId, payouts), 0);
+
+export const isSettledForEmployee = (project: Project, employeeId: string, payouts: EmployeePayout[]): boolean =>
+  getUnpaidEarnings(project, employeeId, payouts) === 0;
+
+// Earnings are due once the work is delivered; these are the projects a payout can settle
+export const getPayableProjects = (
+  employeeId: string,
+  projects: Project[],
+  payouts: EmployeePayout[]
+): Project[] =>
+  projects.filter(
+    project =>
+      isAssignedTo(project, employeeId) &&
+      project.status === 'Delivered' &&
+      !isSettledForEmployee(project, employeeId, payouts)
+  );
+
+export const getOutstandingEarnings = (
+  employeeId: string,
+  projects: Project[],
+  payouts: EmployeePayout[]
+): number =>
+  getPayableProjects(employeeId, projects, payouts)
+    .reduce((sum, project) => sum + getUnpaidEarnings(project, employeeId, payouts), 0);
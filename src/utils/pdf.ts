@@ -0,0 +1,62 @@
+import jsPDF from 'jspdf';
+
+export const PDF_MARGIN = 20;
+
+// Logo on the left, company details on the right and a separator line. Returns the y position below it.
+export const addPdfHeader = async (pdf: jsPDF, margin: number = PDF_MARGIN): Promise<number> => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const headerY = margin;
+
+  // Add OGO logo (left side - smaller size)
+  const logoImg = new Image();
+  logoImg.src = '/Logo.jpg';
+  await new Promise(resolve => { logoImg.onload = resolve; });
+  pdf.addImage(logoImg, 'JPEG', margin, headerY, 15, 15);
+
+  // Company info (right side - small font)
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(9);
+  pdf.setTextColor(30, 30, 30);
+  const infoX = pageWidth - margin;
+  let infoY = headerY + 2;
+  pdf.text('OGO TECHNOLOGY', infoX, infoY, { align: 'right' });
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(7);
+  infoY += 4;
+  pdf.text('Department of Academic Services', infoX, infoY, { align: 'right' });
+  infoY += 3;
+  pdf.text('Galle, Sri Lanka', infoX, infoY, { align: 'right' });
+  infoY += 3;
+  pdf.text('+94 75 930 7059', infoX, infoY, { align: 'right' });
+  infoY += 3;
+  pdf.text('info@ogotechnology.com', infoX, infoY, { align: 'right' });
+
+  // Add line separator
+  const lineY = headerY + 20;
+  pdf.setDrawColor(200, 200, 200);
+  pdf.setLineWidth(0.5);
+  pdf.line(margin, lineY, pageWidth - margin, lineY);
+
+  // Add spacing after line
+  return lineY + 8;
+};
+
+// Page numbers on every page and the company footer on the last one
+export const addPdfFooter = (pdf: jsPDF, notice: string) => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+
+  const pageCount = (typeof pdf.getNumberOfPages === 'function') ? pdf.getNumberOfPages() : (pdf.internal.pages ? pdf.internal.pages.length : 1);
+  for (let i = 1; i <= pageCount; i++) {
+    pdf.setPage(Number(i));
+    pdf.setFontSize(10);
+    pdf.setTextColor(100, 100, 100);
+    pdf.text(`Page ${i} of ${pageCount}`, pageWidth / 2, pageHeight - 15, { align: 'center' });
+  }
+
+  pdf.setFontSize(8);
+  pdf.setTextColor(150, 150, 150);
+  pdf.text('OGO Technology - Professional Project Management System', pageWidth / 2, pageHeight - 8, { align: 'center' });
+  pdf.text(notice, pageWidth / 2, pageHeight - 5, { align: 'center' });
+};
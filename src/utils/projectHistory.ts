@@ -0,0 +1,133 @@
+import { FieldChanges, LogEntry, ProjectAssignee } from '../types';
+import { ASSIGNEE_ROLE_LABELS } from './assignees';
+
+export type ProjectHistoryKind =
+  | 'created'
+  | 'status'
+  | 'assignees'
+  | 'price'
+  | 'advance'
+  | 'deadline'
+  | 'payment'
+  | 'trashed'
+  | 'restored';
+
+export interface ProjectHistoryEvent {
+  id: string;
+  kind: ProjectHistoryKind;
+  description: string;
+  adminEmail: string;
+  createdAt: string;
+}
+
+const formatAmount = (value: unknown) => (value === null || value === undefined ? 'none' : Number(value).toLocaleString());
+
+const formatDate = (value: unknown) => (value ? new Date(String(value)).toLocaleDateString() : 'none');
+
+// The project fields shown in the history; changes to any other field are left out
+const TRACKED_FIELDS: { field: string; kind: ProjectHistoryKind; label: string; format: (value: unknown) => string }[] = [
+  { field: 'status', kind: 'status', label: 'Status', format: value => String(value ?? 'none') },
+  { field: 'price', kind: 'price', label: 'Price', format: formatAmount },
+  { field: 'advance', kind: 'advance', label: 'Advance', format: formatAmount },
+  { field: 'paymentOfEmp', kind: 'price', label: 'Employee payment', format: formatAmount },
+  { field: 'deadlineDate', kind: 'deadline', label: 'Deadline', format: formatDate },
+];
+
+// The project's history, newest first, from its log entries (newest first as the log returns them).
+// Payments and assignees are rows of their own in Supabase and fields of the project in the local backend.
+export const getProjectHistory = (
+  entries: LogEntry[],
+  employeeName: (employeeId: string) => string
+): ProjectHistoryEvent[] => {
+  const formatAssignees = (value: unknown) => {
+    const assignees = (value ?? []) as ProjectAssignee[];
+    if (assignees.length === 0) return 'nobody';
+    return assignees
+      .map(assignee => `${employeeName(assignee.employeeId)} (${ASSIGNEE_ROLE_LABELS[assignee.role]}, ${formatAmount(assignee.share)})`)
+      .join(', ');
+  };
+
+  const describeAssignee = (action: string, changes: FieldChanges): string[] => {
+    const name = employeeName(String(changes.employeeId?.new ?? changes.employeeId?.old));
+    if (action === 'assignee_created') {
+      const role = ASSIGNEE_ROLE_LABELS[changes.role?.new as ProjectAssignee['role']] ?? changes.role?.new;
+      return [`${name} assigned as ${role} with a share of ${formatAmount(changes.share?.new)}`];
+    }
+    if (action === 'assignee_deleted') return [`${name} unassigned`];
+    return [
+      changes.employeeId && changes.employeeId.old !== changes.employeeId.new
+        ? `${employeeName(String(changes.employeeId.old))} replaced by ${name}`
+        : null,
+      changes.role
+        ? `${name}'s role: ${ASSIGNEE_ROLE_LABELS[changes.role.old as ProjectAssignee['role']]} → ${
+            ASSIGNEE_ROLE_LABELS[changes.role.new as ProjectAssignee['role']]
+          }`
+        : null,
+      changes.share ? `${name}'s share: ${formatAmount(changes.share.old)} → ${formatAmount(changes.share.new)}` : null,
+    ].filter((line): line is string => !!line);
+  };
+
+  const describePayment = (action: string, changes: FieldChanges): string => {
+    const amount = formatAmount(changes.amount?.new ?? changes.amount?.old);
+    if (action === 'payment_created') return `Payment of ${amount} received${changes.method ? ` (${changes.method.new})` : ''}`;
+    if (action === 'payment_deleted') return `Payment of ${amount} removed`;
+    if (changes.voidedAt?.new) {
+      return `Payment of ${amount} voided${changes.voidReason?.new ? `: ${changes.voidReason.new}` : ''}`;
+    }
+    return changes.amount && changes.amount.old !== changes.amount.new
+      ? `Payment changed from ${formatAmount(changes.amount.old)} to ${amount}`
+      : `Payment of ${amount} edited`;
+  };
+
+  return entries.flatMap(entry => {
+    const changes = entry.changes ?? {};
+    const event = (kind: ProjectHistoryKind, description: string, index = 0): ProjectHistoryEvent => ({
+      id: `${entry.id}-${index}`,
+      kind,
+      description,
+      adminEmail: entry.adminEmail,
+      createdAt: entry.createdAt,
+    });
+
+    switch (entry.action) {
+      case 'project_created':
+        return [
+          event(
+            'created',
+            `Created as ${changes.status?.new ?? 'Pending'} with a price of ${formatAmount(changes.price?.new)}, ` +
+              `an advance of ${formatAmount(changes.advance?.new)} and a deadline of ${formatDate(changes.deadlineDate?.new)}`
+          ),
+          ...(changes.assignees ? [event('assignees', `Assigned to ${formatAssignees(changes.assignees.new)}`, 1)] : []),
+        ];
+      case 'project_trashed':
+        return [event('trashed', 'Moved to the trash')];
+      case 'project_restored':
+        return [event('restored', 'Restored from the trash')];
+      case 'project_updated':
+        return [
+          ...TRACKED_FIELDS.filter(({ field }) => field in changes).map(({ field, kind, label, format }, index) =>
+            event(kind, `${label}: ${format(changes[field].old)} → ${format(changes[field].new)}`, index)
+          ),
+          ...(changes.assignees
+            ? [
+                event(
+                  'assignees',
+                  `Assignees: ${formatAssignees(changes.assignees.old)} → ${formatAssignees(changes.assignees.new)}`,
+                  TRACKED_FIELDS.length
+                ),
+              ]
+            : []),
+        ];
+      case 'assignee_created':
+      case 'assignee_updated':
+      case 'assignee_deleted':
+        return describeAssignee(entry.action, changes).map((description, index) => event('assignees', description, index));
+      case 'payment_created':
+      case 'payment_updated':
+      case 'payment_deleted':
+        return [event('payment', describePayment(entry.action, changes))];
+      default:
+        return [];
+    }
+  });
+};
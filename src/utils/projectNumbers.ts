@@ -0,0 +1,36 @@
+import { AppSettings } from '../types';
+
+// Used until the settings have loaded; matches the defaults of the app_settings row
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  projectNumberPrefix: 'PJ',
+  projectNumberPadding: 4,
+};
+
+export const MAX_PROJECT_NUMBER_PADDING = 10;
+
+// Keep in step with the CHECK constraints on app_settings
+export const getProjectNumberSettingsError = (prefix: string, padding: number): string | null => {
+  if (!/^[A-Z][A-Z-]{0,9}$/.test(prefix)) return 'Prefix must be 1-10 capital letters or dashes, starting with a letter';
+  if (!Number.isInteger(padding) || padding < 1 || padding > MAX_PROJECT_NUMBER_PADDING) {
+    return `Digits must be a whole number from 1 to ${MAX_PROJECT_NUMBER_PADDING}`;
+  }
+  return null;
+};
+
+// Same format as allocate_project_number: the prefix, then the number padded with zeros
+export const formatProjectNumber = (settings: AppSettings, value: number): string =>
+  `${settings.projectNumberPrefix}${String(value).padStart(settings.projectNumberPadding, '0')}`;
+
+// The prefix only holds letters and dashes, which match themselves in a pattern
+export const matchesProjectNumberFormat = (settings: AppSettings, projectId: string): boolean =>
+  new RegExp(`^${settings.projectNumberPrefix}\\d{${settings.projectNumberPadding},}$`).test(projectId);
+
+// The number after the highest one on this device, for when none can be reserved (offline).
+// The database sequence counts across prefixes, so every code's trailing digits count here too.
+export const getNextLocalProjectNumber = (settings: AppSettings, projectIds: string[]): string => {
+  const highest = projectIds.reduce((max, projectId) => {
+    const digits = /(\d+)$/.exec(projectId);
+    return digits ? Math.max(max, parseInt(digits[1], 10)) : max;
+  }, 999);
+  return formatProjectNumber(settings, highest + 1);
+};
@@ -0,0 +1,7 @@
+import { Project } from '../types';
+
+// Comma-separated type names for tables, receipts and exports
+export const getProjectTypeNames = (project: Project): string =>
+  project.projectTypes.length > 0
+    ? project.projectTypes.map(type => type.name).join(', ')
+    : 'No types specified';
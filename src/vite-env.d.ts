@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_BACKEND?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_PASSWORD_MIN_LENGTH?: string;
+  readonly VITE_PASSWORD_REQUIRE_UPPERCASE?: string;
+  readonly VITE_PASSWORD_REQUIRE_LOWERCASE?: string;
+  readonly VITE_PASSWORD_REQUIRE_NUMBER?: string;
+  readonly VITE_PASSWORD_REQUIRE_SYMBOL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
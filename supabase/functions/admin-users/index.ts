@@ -0,0 +1,66 @@
+// Creates admin accounts. Runs with the service role key, which must never reach the browser.
+//
+// Deploy: supabase functions deploy admin-users
+// SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY are provided by Supabase.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ROLES = ['admin', 'manager', 'viewer'];
+
+const json = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Only active admins may add users; check the caller with their own token
+    const caller = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+    const { data: callerRole } = await caller.rpc('current_admin_role');
+    if (callerRole !== 'admin') {
+      return json({ error: 'Only admins can add users.' }, 403);
+    }
+
+    const { email, role, password, redirectTo } = await req.json();
+    if (!email || !ROLES.includes(role)) {
+      return json({ error: 'A valid email and role are required.' }, 400);
+    }
+
+    const service = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    // With a password the account is ready immediately; otherwise Supabase emails an invite link
+    const { data: created, error: authError } = password
+      ? await service.auth.admin.createUser({ email, password, email_confirm: true })
+      : await service.auth.admin.inviteUserByEmail(email, { redirectTo });
+    if (authError || !created.user) {
+      return json({ error: authError?.message || 'Failed to create user.' }, 400);
+    }
+
+    const { data: admin, error: insertError } = await service
+      .from('admin')
+      .insert({ email, user_id: created.user.id, role })
+      .select('id')
+      .single();
+    if (insertError) {
+      // Don't leave an auth user behind that has no admin row
+      await service.auth.admin.deleteUser(created.user.id);
+      return json({ error: insertError.message }, 400);
+    }
+
+    return json({ id: admin.id });
+  } catch (error) {
+    console.error('Error in admin-users:', error);
+    return json({ error: 'Unexpected error.' }, 500);
+  }
+});